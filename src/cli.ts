@@ -0,0 +1,104 @@
+import { ConsoleLogger, LogLevel } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { CLI_USAGE, CliArgs, parseCliArgs } from './cli/cli-args';
+import { CliOutput, runCliCommand } from './cli/cli-commands';
+import { CliErrorReport, describeError, ExitCode } from './cli/cli-errors';
+import { CliModule } from './cli/cli.module';
+import { TwitterAccountsService } from './twitter/accounts/twitter-accounts.service';
+import { UploadProgress } from './twitter/interfaces/upload-options.interface';
+import { TweetTemplatesService } from './twitter/text/tweet-templates.service';
+import { TwitterVideoUploaderService } from './twitter/twitter-video-uploader.service';
+
+// Keeps stdout for the command's output, --json documents in particular
+class StderrLogger extends ConsoleLogger {
+  protected printMessages(
+    messages: unknown[],
+    context?: string,
+    logLevel?: LogLevel,
+  ): void {
+    super.printMessages(messages, context, logLevel, 'stderr');
+  }
+}
+
+function print(args: CliArgs | null, output: CliOutput): void {
+  if (args?.json) {
+    process.stdout.write(`${JSON.stringify(output.result, null, 2)}\n`);
+  } else {
+    process.stdout.write(output.lines.map((line) => `${line}\n`).join(''));
+  }
+}
+
+function printError(args: CliArgs | null, report: CliErrorReport): ExitCode {
+  if (args?.json) {
+    process.stdout.write(`${JSON.stringify({ error: report }, null, 2)}\n`);
+  } else {
+    process.stderr.write(`Error [${report.code}]: ${report.message}\n`);
+    if (report.exitCode === ExitCode.Usage) {
+      process.stderr.write(`\n${CLI_USAGE}\n`);
+    }
+  }
+  return report.exitCode;
+}
+
+// Progress goes to stderr, one line per stage and media item
+function progressPrinter(): (progress: UploadProgress) => void {
+  let last = '';
+  return ({ stage, media }) => {
+    const line = media ? `${stage} ${media.index}/${media.count}` : stage;
+    if (line !== last) {
+      last = line;
+      process.stderr.write(`${line}\n`);
+    }
+  };
+}
+
+async function run(argv: string[]): Promise<ExitCode> {
+  let args: CliArgs | null = null;
+  try {
+    args = parseCliArgs(argv);
+  } catch (error) {
+    return printError(args, describeError(error));
+  }
+  if (!args) {
+    process.stdout.write(`${CLI_USAGE}\n`);
+    return ExitCode.Success;
+  }
+
+  const logger = new StderrLogger({
+    logLevels: args.verbose ? ['error', 'warn', 'log'] : ['error'],
+  });
+  let app: Awaited<ReturnType<typeof NestFactory.createApplicationContext>>;
+  try {
+    app = await NestFactory.createApplicationContext(CliModule, {
+      logger,
+      abortOnError: false,
+    });
+  } catch (error) {
+    // Missing credentials or unreadable configuration files
+    return printError(args, {
+      exitCode: ExitCode.Configuration,
+      code: 'configuration',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+
+  try {
+    const output = await runCliCommand(
+      args,
+      {
+        uploader: app.get(TwitterVideoUploaderService),
+        accounts: app.get(TwitterAccountsService),
+        templates: app.get(TweetTemplatesService),
+      },
+      args.verbose && !args.json ? progressPrinter() : undefined,
+    );
+    print(args, output);
+    return output.exitCode ?? ExitCode.Success;
+  } catch (error) {
+    return printError(args, describeError(error));
+  } finally {
+    await app.close();
+  }
+}
+
+run(process.argv.slice(2)).then((exitCode) => (process.exitCode = exitCode));
@@ -0,0 +1,56 @@
+import { CliUsageError, parseCliArgs } from './cli-args';
+
+describe('parseCliArgs', () => {
+  it('parses a command with its options', () => {
+    expect(
+      parseCliArgs([
+        'upload',
+        'a.png',
+        'https://cdn.example.com/b.png',
+        '--text',
+        'Hello',
+        '--reply-to',
+        '42',
+        '--alt-text',
+        'First',
+        '--var',
+        'version=1.2=beta',
+        '--dry-run',
+        '--json',
+      ]),
+    ).toEqual({
+      command: 'upload',
+      targets: ['a.png', 'https://cdn.example.com/b.png'],
+      text: 'Hello',
+      replyTo: '42',
+      account: undefined,
+      altTexts: ['First'],
+      template: undefined,
+      templateVars: { version: '1.2=beta' },
+      json: true,
+      dryRun: true,
+      verbose: false,
+    });
+  });
+
+  it('asks for the help without a command', () => {
+    expect(parseCliArgs([])).toBeNull();
+    expect(parseCliArgs(['upload', '--help'])).toBeNull();
+  });
+
+  it('rejects unknown commands, options and missing arguments', () => {
+    expect(() => parseCliArgs(['post', 'a.png'])).toThrow(CliUsageError);
+    expect(() => parseCliArgs(['upload', 'a.png', '--txt', 'x'])).toThrow(
+      CliUsageError,
+    );
+    expect(() => parseCliArgs(['status'])).toThrow(
+      'status needs at least one argument',
+    );
+    expect(() => parseCliArgs(['status', '1', '2'])).toThrow(
+      'status takes a single argument',
+    );
+    expect(() => parseCliArgs(['upload', 'a.png', '--var', 'x'])).toThrow(
+      '--var must be name=value',
+    );
+  });
+});
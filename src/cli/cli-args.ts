@@ -0,0 +1,120 @@
+import { parseArgs } from 'util';
+
+export const CLI_COMMANDS = ['upload', 'thread', 'status', 'validate'] as const;
+
+export type CliCommand = (typeof CLI_COMMANDS)[number];
+
+export interface CliArgs {
+  command: CliCommand;
+  // Media files or URLs; the manifest for `thread`, the media id for `status`
+  targets: string[];
+  text?: string;
+  replyTo?: string;
+  account?: string;
+  // In media order
+  altTexts: string[];
+  template?: string;
+  templateVars: Record<string, string>;
+  json: boolean;
+  dryRun: boolean;
+  verbose: boolean;
+}
+
+export const CLI_USAGE = `Usage: cli <command> [options]
+
+Commands:
+  upload <file|url>...    Upload up to 4 media items and tweet them
+  thread <manifest.json>  Post a thread, each entry replying to the previous
+  status <mediaId>        Show Twitter's processing state of uploaded media
+  validate <file|url>...  Check media against the platform limits
+
+Options:
+  --text <text>           Tweet text
+  --reply-to <tweetId>    Tweet to reply to
+  --account <name>        Named Twitter account; the default one when omitted
+  --alt-text <text>       Alt text of the next media item; repeatable
+  --template <name>       Tweet text template
+  --var <name=value>      Template variable; repeatable
+  --dry-run               Plan the post without sending it to Twitter
+  --json                  Print one JSON document instead of text
+  --verbose               Log progress and service messages to stderr
+  -h, --help              Show this help`;
+
+// Bad arguments; the usage is shown with it
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/** Parses the arguments after the script name; null asks for the help. */
+export function parseCliArgs(argv: string[]): CliArgs | null {
+  let parsed: ReturnType<typeof parseOptions>;
+  try {
+    parsed = parseOptions(argv);
+  } catch (error) {
+    // parseArgs throws TypeErrors for unknown options and missing values
+    throw new CliUsageError(
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+
+  const { values, positionals } = parsed;
+  if (values.help || positionals.length === 0) {
+    return null;
+  }
+
+  const [command, ...targets] = positionals;
+  if (!CLI_COMMANDS.includes(command as CliCommand)) {
+    throw new CliUsageError(`Unknown command: ${command}`);
+  }
+  if (targets.length === 0) {
+    throw new CliUsageError(`${command} needs at least one argument`);
+  }
+  if (command !== 'upload' && command !== 'validate' && targets.length > 1) {
+    throw new CliUsageError(`${command} takes a single argument`);
+  }
+
+  const templateVars: Record<string, string> = {};
+  for (const entry of values.var ?? []) {
+    const separator = entry.indexOf('=');
+    if (separator < 1) {
+      throw new CliUsageError(`--var must be name=value, got ${entry}`);
+    }
+    templateVars[entry.slice(0, separator)] = entry.slice(separator + 1);
+  }
+
+  return {
+    command: command as CliCommand,
+    targets,
+    text: values.text,
+    replyTo: values['reply-to'],
+    account: values.account,
+    altTexts: values['alt-text'] ?? [],
+    template: values.template,
+    templateVars,
+    json: values.json ?? false,
+    dryRun: values['dry-run'] ?? false,
+    verbose: values.verbose ?? false,
+  };
+}
+
+function parseOptions(argv: string[]) {
+  return parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      text: { type: 'string' },
+      'reply-to': { type: 'string' },
+      account: { type: 'string' },
+      'alt-text': { type: 'string', multiple: true },
+      template: { type: 'string' },
+      var: { type: 'string', multiple: true },
+      'dry-run': { type: 'boolean' },
+      json: { type: 'boolean' },
+      verbose: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+}
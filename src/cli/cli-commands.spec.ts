@@ -0,0 +1,236 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TwitterAccountsService } from '../twitter/accounts/twitter-accounts.service';
+import { DownloadFailedError } from '../twitter/downloads/download-failed.error';
+import {
+  RateLimitExhaustedError,
+  TweetRejectedError,
+} from '../twitter/errors/uploader-errors';
+import { MediaSetUploadError } from '../twitter/media/media-set';
+import { TweetTemplatesService } from '../twitter/text/tweet-templates.service';
+import { TwitterVideoUploaderService } from '../twitter/twitter-video-uploader.service';
+import { MediaValidationException } from '../twitter/validation/media-validation.exception';
+import { CliArgs, CliUsageError } from './cli-args';
+import { CliServices, runCliCommand } from './cli-commands';
+import { describeError, ExitCode, ThreadPostError } from './cli-errors';
+
+describe('CLI commands', () => {
+  let dir: string;
+  let uploader: {
+    uploadToTwitter: jest.Mock;
+    createTweet: jest.Mock;
+    validateMedia: jest.Mock;
+    checkMediaStatus: jest.Mock;
+    isDryRun: jest.Mock;
+    planPost: jest.Mock;
+  };
+  let services: CliServices;
+
+  const argsFor = (overrides: Partial<CliArgs>): CliArgs => ({
+    command: 'upload',
+    targets: [],
+    altTexts: [],
+    templateVars: {},
+    json: false,
+    dryRun: false,
+    verbose: false,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'cli-'));
+    uploader = {
+      uploadToTwitter: jest.fn().mockResolvedValue({ data: { id: 't1' } }),
+      createTweet: jest.fn().mockResolvedValue({ data: { id: 't2' } }),
+      validateMedia: jest.fn().mockResolvedValue([]),
+      checkMediaStatus: jest.fn(),
+      isDryRun: jest.fn((dryRun) => dryRun === true),
+      planPost: jest.fn(),
+    };
+    const config = new ConfigService({
+      twitter: {
+        defaultAccount: 'brand-a',
+        accounts: { 'brand-a': {}, 'brand-b': {} },
+        templates: { release: '{{filename}} is out: {{version}}' },
+      },
+    });
+    services = {
+      uploader: uploader as unknown as TwitterVideoUploaderService,
+      accounts: new TwitterAccountsService(config),
+      templates: new TweetTemplatesService(config),
+    };
+  });
+
+  afterEach(() => fs.promises.rm(dir, { recursive: true, force: true }));
+
+  it('uploads media and tweets it, or only plans it on a dry run', async () => {
+    const args = argsFor({
+      targets: ['clips/demo.mp4'],
+      template: 'release',
+      templateVars: { version: '1.2' },
+      account: 'brand-b',
+    });
+
+    await expect(runCliCommand(args, services)).resolves.toMatchObject({
+      result: { tweetId: 't1', account: 'brand-b' },
+      lines: ['Tweeted t1 as brand-b'],
+    });
+    expect(uploader.uploadToTwitter).toHaveBeenCalledWith(
+      [{ source: path.resolve('clips/demo.mp4'), altText: undefined }],
+      expect.objectContaining({
+        tweetText: 'demo.mp4 is out: 1.2',
+        account: 'brand-b',
+      }),
+    );
+
+    uploader.uploadToTwitter.mockResolvedValueOnce({
+      dryRun: true,
+      account: 'brand-b',
+      media: [
+        {
+          fileName: 'demo.mp4',
+          mediaType: 'video/mp4',
+          mediaCategory: 'tweet_video',
+          totalBytes: 2048,
+          segments: [{}, {}],
+        },
+      ],
+      tweet: { weightedLength: 20, maxWeightedLength: 280 },
+    });
+    const dryRun = await runCliCommand({ ...args, dryRun: true }, services);
+    expect(dryRun.result).toMatchObject({ dryRun: true, account: 'brand-b' });
+    expect(dryRun.lines).toEqual([
+      'Dry run: would tweet 1 media item(s) as brand-b',
+      '  demo.mp4: video/mp4 (tweet_video), 2048 bytes in 2 segment(s)',
+      'Text: demo.mp4 is out: 1.2',
+      'Weighted length: 20/280',
+    ]);
+    expect(uploader.uploadToTwitter).toHaveBeenLastCalledWith(
+      expect.any(Array),
+      expect.objectContaining({ dryRun: true }),
+    );
+  });
+
+  it('posts a thread from a manifest, each entry replying to the previous', async () => {
+    const manifest = path.join(dir, 'thread.json');
+    await fs.promises.writeFile(
+      manifest,
+      JSON.stringify({
+        replyToTweetId: '100',
+        entries: [
+          { text: 'One', media: ['one.png'], altText: ['A square'] },
+          { text: 'Two' },
+        ],
+      }),
+    );
+
+    const output = await runCliCommand(
+      argsFor({ command: 'thread', targets: [manifest] }),
+      services,
+    );
+
+    expect(output.result).toEqual({
+      account: 'brand-a',
+      tweetIds: ['t1', 't2'],
+    });
+    expect(uploader.uploadToTwitter).toHaveBeenCalledWith(
+      [{ source: path.join(dir, 'one.png'), altText: 'A square' }],
+      expect.objectContaining({ tweetText: 'One', replyToTweetId: '100' }),
+    );
+    expect(uploader.createTweet).toHaveBeenCalledWith(
+      [],
+      'Two',
+      't1',
+      undefined,
+    );
+  });
+
+  it('reports how far a failed thread got', async () => {
+    const manifest = path.join(dir, 'thread.json');
+    await fs.promises.writeFile(
+      manifest,
+      JSON.stringify([{ text: 'One' }, { text: 'Two' }]),
+    );
+    uploader.createTweet
+      .mockResolvedValueOnce({ data: { id: 't1' } })
+      .mockRejectedValueOnce(
+        new TweetRejectedError('Duplicate', undefined, true),
+      );
+
+    const error = await runCliCommand(
+      argsFor({ command: 'thread', targets: [manifest] }),
+      services,
+    ).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ThreadPostError);
+    expect(describeError(error)).toMatchObject({
+      exitCode: ExitCode.TwitterRejected,
+      code: 'duplicate_tweet',
+      details: { entry: 1, tweetIds: ['t1'] },
+    });
+  });
+
+  it('reports invalid media as a result with its own exit code', async () => {
+    const report = {
+      index: 0,
+      valid: false,
+      probe: { mimeType: 'video/mp4', kind: 'video', sizeBytes: 1 },
+      violations: [{ rule: 'maxDurationSecs', message: 'Video is too long' }],
+    };
+    uploader.validateMedia.mockRejectedValue(
+      new MediaValidationException([report as any]),
+    );
+
+    await expect(
+      runCliCommand(
+        argsFor({ command: 'validate', targets: ['long.mp4'] }),
+        services,
+      ),
+    ).resolves.toEqual({
+      result: { valid: false, media: [report] },
+      lines: ['long.mp4: invalid', '  Video is too long'],
+      exitCode: ExitCode.InvalidInput,
+    });
+  });
+
+  it('maps every kind of error to its exit code', () => {
+    const cases: [unknown, ExitCode, string][] = [
+      [new CliUsageError('Unknown command'), ExitCode.Usage, 'usage'],
+      [
+        new DownloadFailedError('timeout', 'Too slow'),
+        ExitCode.DownloadFailed,
+        'download_timeout',
+      ],
+      [
+        new MediaSetUploadError(
+          'Media 2 failed',
+          ['m1'],
+          1,
+          new RateLimitExhaustedError('Rate limited', 60),
+        ),
+        ExitCode.RateLimited,
+        'rate_limit_exhausted',
+      ],
+      [new Error('Boom'), ExitCode.Failure, 'internal_error'],
+    ];
+    for (const [error, exitCode, code] of cases) {
+      expect(describeError(error)).toMatchObject({ exitCode, code });
+    }
+
+    // Unknown accounts surface as Nest's BadRequestException
+    const unknownAccount = (() => {
+      try {
+        services.accounts.resolve('nobody');
+      } catch (error) {
+        return error;
+      }
+    })();
+    expect(describeError(unknownAccount)).toEqual({
+      exitCode: ExitCode.InvalidInput,
+      code: 'invalid_input',
+      message: 'Unknown Twitter account: nobody',
+    });
+  });
+});
@@ -0,0 +1,329 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TwitterAccountsService } from '../twitter/accounts/twitter-accounts.service';
+import {
+  MediaPlan,
+  plannedTweetId,
+  UploadPlan,
+} from '../twitter/dry-run/upload-plan';
+import { fromTwitterError } from '../twitter/errors/twitter-error.mapper';
+import { MediaItem } from '../twitter/interfaces/media-item.interface';
+import { UploadProgress } from '../twitter/interfaces/upload-options.interface';
+import { toMediaStatus } from '../twitter/media/media-status';
+import { MediaUploadResponse } from '../twitter/media/media-status.interface';
+import { TweetTemplatesService } from '../twitter/text/tweet-templates.service';
+import { assertTweetTextFits } from '../twitter/text/tweet-text';
+import {
+  tweetIdOf,
+  TwitterVideoUploaderService,
+} from '../twitter/twitter-video-uploader.service';
+import { MediaValidationException } from '../twitter/validation/media-validation.exception';
+import { CliArgs, CliUsageError } from './cli-args';
+import { ExitCode, ThreadPostError } from './cli-errors';
+
+export interface CliServices {
+  uploader: TwitterVideoUploaderService;
+  accounts: TwitterAccountsService;
+  templates: TweetTemplatesService;
+}
+
+export interface CliOutput {
+  // Printed with --json
+  result: Record<string, unknown>;
+  // Printed otherwise
+  lines: string[];
+  // Success unless set
+  exitCode?: ExitCode;
+}
+
+interface ThreadManifestEntry {
+  text: string;
+  // Files, relative to the manifest, or URLs
+  media?: string[];
+  altText?: string[];
+}
+
+// A bare array of entries, or entries with the thread's options
+type ThreadManifest =
+  | ThreadManifestEntry[]
+  | {
+      account?: string;
+      replyToTweetId?: string;
+      entries: ThreadManifestEntry[];
+    };
+
+type ProgressListener = (progress: UploadProgress) => void;
+
+const isUrl = (source: string) => /^https?:\/\//i.test(source);
+
+// Local paths are made absolute; `baseDir` is where relative ones start
+function toMediaItems(
+  sources: string[],
+  altTexts: string[],
+  baseDir = process.cwd(),
+): MediaItem[] {
+  if (altTexts.length > sources.length) {
+    throw new CliUsageError(
+      `${altTexts.length} alt texts for ${sources.length} media item(s)`,
+    );
+  }
+  return sources.map((source, index) => ({
+    source: isUrl(source) ? source : path.resolve(baseDir, source),
+    altText: altTexts[index],
+  }));
+}
+
+/** Runs one command; errors are left to the caller to report. */
+export function runCliCommand(
+  args: CliArgs,
+  services: CliServices,
+  onProgress?: ProgressListener,
+): Promise<CliOutput> {
+  switch (args.command) {
+    case 'upload':
+      return upload(args, services, onProgress);
+    case 'thread':
+      return thread(args, services, onProgress);
+    case 'status':
+      return status(args, services);
+    case 'validate':
+      return validate(args, services);
+  }
+}
+
+async function upload(
+  args: CliArgs,
+  { uploader, accounts, templates }: CliServices,
+  onProgress?: ProgressListener,
+): Promise<CliOutput> {
+  accounts.resolve(args.account);
+  const account = args.account || accounts.list().defaultAccount;
+  const tweetText = templates.compose(
+    {
+      tweetText: args.text,
+      template: args.template,
+      templateVars: args.templateVars,
+    },
+    { filename: args.targets[0], account },
+  );
+  if (tweetText !== undefined) {
+    assertTweetTextFits(tweetText);
+  }
+  const media = toMediaItems(args.targets, args.altTexts);
+
+  // Sandbox mode turns every upload into a dry run
+  if (uploader.isDryRun(args.dryRun)) {
+    const plan: UploadPlan = await uploader.uploadToTwitter(media, {
+      tweetText,
+      replyToTweetId: args.replyTo,
+      account: args.account,
+      onProgress,
+      dryRun: true,
+    });
+    const { weightedLength, maxWeightedLength } = plan.tweet!;
+    return {
+      result: { ...plan },
+      lines: [
+        `Dry run: would tweet ${media.length} media item(s) as ${account}`,
+        ...plan.media.map(describeMediaPlan),
+        ...(tweetText !== undefined ? [`Text: ${tweetText}`] : []),
+        `Weighted length: ${weightedLength}/${maxWeightedLength}`,
+        ...(args.replyTo ? [`In reply to: ${args.replyTo}`] : []),
+      ],
+    };
+  }
+
+  const response = await uploader.uploadToTwitter(media, {
+    tweetText,
+    replyToTweetId: args.replyTo,
+    account: args.account,
+    onProgress,
+  });
+  const tweetId = tweetIdOf(response);
+  return {
+    result: { tweetId, account, response },
+    lines: [`Tweeted ${tweetId} as ${account}`],
+  };
+}
+
+async function thread(
+  args: CliArgs,
+  { uploader, accounts }: CliServices,
+  onProgress?: ProgressListener,
+): Promise<CliOutput> {
+  const manifestPath = path.resolve(args.targets[0]);
+  const manifest = await readManifest(manifestPath);
+  const options: { account?: string; replyToTweetId?: string } = Array.isArray(
+    manifest,
+  )
+    ? {}
+    : manifest;
+  const account = args.account ?? options.account;
+  let replyToTweetId = args.replyTo ?? options.replyToTweetId;
+  accounts.resolve(account);
+  const accountName = account || accounts.list().defaultAccount;
+
+  // Check every entry before the first tweet goes out
+  const entries = (Array.isArray(manifest) ? manifest : manifest.entries).map(
+    (entry, index) => {
+      if (typeof entry?.text !== 'string' || !entry.text.trim()) {
+        throw new CliUsageError(`Entry ${index} needs a non-empty text`);
+      }
+      assertTweetTextFits(entry.text, index);
+      return {
+        text: entry.text,
+        media: toMediaItems(
+          entry.media ?? [],
+          entry.altText ?? [],
+          path.dirname(manifestPath),
+        ),
+      };
+    },
+  );
+  if (entries.length === 0) {
+    throw new CliUsageError('The thread manifest has no entries');
+  }
+
+  if (uploader.isDryRun(args.dryRun)) {
+    const plans: UploadPlan[] = [];
+    for (const [index, entry] of entries.entries()) {
+      plans.push(
+        await uploader.planPost(entry.media, {
+          tweetText: entry.text,
+          replyToTweetId:
+            index === 0 ? replyToTweetId : plannedTweetId(index - 1),
+          account,
+          onProgress,
+        }),
+      );
+    }
+    return {
+      result: {
+        dryRun: true,
+        account: accountName,
+        replyToTweetId,
+        entries: plans,
+      },
+      lines: [
+        `Dry run: would post a thread of ${entries.length} tweet(s) as ${accountName}`,
+        ...entries.map(
+          (entry, index) =>
+            `${index}: ${entry.text} (${entry.media.length} media item(s))`,
+        ),
+      ],
+    };
+  }
+
+  const tweetIds: string[] = [];
+  for (const [index, entry] of entries.entries()) {
+    try {
+      const response =
+        entry.media.length > 0
+          ? await uploader.uploadToTwitter(entry.media, {
+              tweetText: entry.text,
+              replyToTweetId,
+              account,
+              onProgress,
+            })
+          : await uploader.createTweet([], entry.text, replyToTweetId, account);
+      replyToTweetId = tweetIdOf(response);
+      tweetIds.push(replyToTweetId);
+    } catch (error) {
+      throw new ThreadPostError(index, tweetIds, error);
+    }
+  }
+
+  return {
+    result: { account: accountName, tweetIds },
+    lines: [
+      `Posted a thread of ${tweetIds.length} tweet(s) as ${accountName}`,
+      ...tweetIds.map((tweetId, index) => `${index}: ${tweetId}`),
+    ],
+  };
+}
+
+async function status(
+  args: CliArgs,
+  { uploader, accounts }: CliServices,
+): Promise<CliOutput> {
+  const [mediaId] = args.targets;
+  if (!/^\d+$/.test(mediaId)) {
+    throw new CliUsageError(`Invalid media id: ${mediaId}`);
+  }
+  accounts.resolve(args.account);
+
+  let body: MediaUploadResponse;
+  try {
+    body = await uploader.checkMediaStatus(mediaId, args.account);
+  } catch (error) {
+    throw fromTwitterError(error, 'media');
+  }
+  const mediaStatus = toMediaStatus(mediaId, body);
+
+  const progress =
+    mediaStatus.progressPercent !== undefined
+      ? ` (${mediaStatus.progressPercent}%)`
+      : '';
+  return {
+    result: { ...mediaStatus },
+    lines: [
+      `Media ${mediaStatus.mediaId}: ${mediaStatus.state ?? 'ready'}${progress}`,
+      ...(mediaStatus.error ? [`Error: ${mediaStatus.error}`] : []),
+      ...(mediaStatus.expiresAt ? [`Expires: ${mediaStatus.expiresAt}`] : []),
+    ],
+  };
+}
+
+// Invalid media is a result here, not an error
+async function validate(
+  args: CliArgs,
+  { uploader }: CliServices,
+): Promise<CliOutput> {
+  const media = toMediaItems(args.targets, []);
+
+  let reports;
+  try {
+    reports = await uploader.validateMedia(media, { account: args.account });
+  } catch (error) {
+    if (!(error instanceof MediaValidationException)) {
+      throw error;
+    }
+    reports = error.reports;
+  }
+
+  const valid = reports.every((report) => report.valid);
+  return {
+    result: { valid, media: reports },
+    lines: reports.flatMap((report) => [
+      `${args.targets[report.index]}: ${report.valid ? 'valid' : 'invalid'}`,
+      ...report.violations.map((violation) => `  ${violation.message}`),
+    ]),
+    exitCode: valid ? ExitCode.Success : ExitCode.InvalidInput,
+  };
+}
+
+async function readManifest(manifestPath: string): Promise<ThreadManifest> {
+  let raw: string;
+  try {
+    raw = await fs.promises.readFile(manifestPath, 'utf8');
+  } catch {
+    throw new CliUsageError(`Cannot read thread manifest ${manifestPath}`);
+  }
+
+  let manifest: ThreadManifest;
+  try {
+    manifest = JSON.parse(raw);
+  } catch {
+    throw new CliUsageError(`Thread manifest ${manifestPath} is not JSON`);
+  }
+  if (!Array.isArray(manifest) && !Array.isArray(manifest?.entries)) {
+    throw new CliUsageError(
+      'A thread manifest is an array of entries or an object with entries',
+    );
+  }
+  return manifest;
+}
+
+function describeMediaPlan(media: MediaPlan): string {
+  return `  ${media.fileName}: ${media.mediaType} (${media.mediaCategory}), ${media.totalBytes} bytes in ${media.segments.length} segment(s)`;
+}
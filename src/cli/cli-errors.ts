@@ -0,0 +1,130 @@
+import { HttpException } from '@nestjs/common';
+import { UploaderError } from '../twitter/errors/uploader-errors';
+import { MediaSetUploadError } from '../twitter/media/media-set';
+import { CliUsageError } from './cli-args';
+
+/**
+ * Exit codes, one per kind of failure, so scripts can tell bad input from
+ * a Twitter outage. They are part of the CLI's interface: do not renumber.
+ */
+export enum ExitCode {
+  Success = 0,
+  // Anything unexpected
+  Failure = 1,
+  Usage = 2,
+  // Missing credentials or an unreadable configuration
+  Configuration = 3,
+  // Media or text that would be refused, missing files, unknown accounts
+  InvalidInput = 4,
+  DownloadFailed = 5,
+  TwitterAuth = 6,
+  RateLimited = 7,
+  // Twitter refused the media or the tweet
+  TwitterRejected = 8,
+  // Twitter failed or did not finish in time
+  TwitterUnavailable = 9,
+}
+
+const EXIT_CODE_BY_ERROR_CODE: Record<string, ExitCode> = {
+  twitter_auth_failed: ExitCode.TwitterAuth,
+  rate_limit_exhausted: ExitCode.RateLimited,
+  media_rejected: ExitCode.TwitterRejected,
+  media_processing_failed: ExitCode.TwitterRejected,
+  tweet_rejected: ExitCode.TwitterRejected,
+  duplicate_tweet: ExitCode.TwitterRejected,
+  twitter_unavailable: ExitCode.TwitterUnavailable,
+  media_processing_timeout: ExitCode.TwitterUnavailable,
+};
+
+/** A thread that failed at `entry`, after posting `tweetIds`. */
+export class ThreadPostError extends Error {
+  constructor(
+    readonly entry: number,
+    readonly tweetIds: string[],
+    readonly originalError: unknown,
+  ) {
+    super(
+      `Entry ${entry} failed after ${tweetIds.length} tweet(s) were posted: ${
+        originalError instanceof Error ? originalError.message : originalError
+      }`,
+    );
+    this.name = new.target.name;
+  }
+}
+
+export interface CliErrorReport {
+  exitCode: ExitCode;
+  code: string;
+  message: string;
+  // Extra fields of the error, e.g. validation reports
+  details?: Record<string, unknown>;
+}
+
+/** What the CLI prints and exits with for an error. */
+export function describeError(error: unknown): CliErrorReport {
+  if (error instanceof MediaSetUploadError) {
+    return {
+      ...describeError(error.originalError),
+      message: error.message,
+      details: { uploadedMediaIds: error.uploadedMediaIds },
+    };
+  }
+  if (error instanceof ThreadPostError) {
+    const cause = describeError(error.originalError);
+    return {
+      ...cause,
+      message: error.message,
+      details: {
+        ...cause.details,
+        entry: error.entry,
+        tweetIds: error.tweetIds,
+      },
+    };
+  }
+  if (error instanceof CliUsageError) {
+    return {
+      exitCode: ExitCode.Usage,
+      code: 'usage',
+      message: error.message,
+    };
+  }
+
+  if (error instanceof UploaderError) {
+    return {
+      exitCode:
+        EXIT_CODE_BY_ERROR_CODE[error.code] ??
+        (error.code.startsWith('download_')
+          ? ExitCode.DownloadFailed
+          : ExitCode.InvalidInput),
+      code: error.code,
+      message: error.message,
+      ...(error.twitter && { details: { twitter: error.twitter } }),
+    };
+  }
+
+  if (error instanceof HttpException) {
+    const payload = error.getResponse();
+    const {
+      statusCode,
+      error: _error,
+      code,
+      message,
+      ...details
+    } = typeof payload === 'string'
+      ? { message: payload }
+      : (payload as Record<string, any>);
+    return {
+      exitCode:
+        error.getStatus() < 500 ? ExitCode.InvalidInput : ExitCode.Failure,
+      code: code ?? 'invalid_input',
+      message: [message ?? error.message].flat().join('; '),
+      ...(Object.keys(details).length > 0 && { details }),
+    };
+  }
+
+  return {
+    exitCode: ExitCode.Failure,
+    code: 'internal_error',
+    message: error instanceof Error ? error.message : String(error),
+  };
+}
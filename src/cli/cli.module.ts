@@ -0,0 +1,34 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import twitterConfig from '../config/twitter.config';
+import { TwitterAccountsService } from '../twitter/accounts/twitter-accounts.service';
+import { TwitterClient } from '../twitter/client/twitter-client.service';
+import { MediaDownloaderService } from '../twitter/downloads/media-downloader.service';
+import { MediaCacheService } from '../twitter/media-cache/media-cache.service';
+import { MEDIA_CACHE_STORE } from '../twitter/media-cache/media-cache.constants';
+import { UPLOAD_SESSION_STORE } from '../twitter/resumable/upload-sessions.constants';
+import { InMemoryRecordStore } from '../twitter/storage/memory-record.store';
+import { TweetTemplatesService } from '../twitter/text/tweet-templates.service';
+import { TwitterVideoUploaderService } from '../twitter/twitter-video-uploader.service';
+import { MediaValidationService } from '../twitter/validation/media-validation.service';
+
+/**
+ * The uploader without the HTTP layer, jobs or scheduler, so a CLI run
+ * never picks up work meant for the server. Its stores live for one run:
+ * the server may be using the files in the data dir.
+ */
+@Module({
+  imports: [ConfigModule.forRoot({ isGlobal: true, load: [twitterConfig] })],
+  providers: [
+    TwitterAccountsService,
+    TwitterClient,
+    TwitterVideoUploaderService,
+    MediaValidationService,
+    MediaDownloaderService,
+    MediaCacheService,
+    TweetTemplatesService,
+    { provide: UPLOAD_SESSION_STORE, useValue: new InMemoryRecordStore() },
+    { provide: MEDIA_CACHE_STORE, useValue: new InMemoryRecordStore() },
+  ],
+})
+export class CliModule {}
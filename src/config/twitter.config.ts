@@ -1,9 +1,341 @@
 import { registerAs } from '@nestjs/config';
+import * as fs from 'fs';
+import * as path from 'path';
 
-export default registerAs('twitter', () => ({
-  consumerKey: process.env.TWITTER_CONSUMER_KEY,
-  consumerSecret: process.env.TWITTER_CONSUMER_SECRET,
-  accessToken: process.env.TWITTER_ACCESS_TOKEN,
-  accessTokenSecret: process.env.TWITTER_ACCESS_TOKEN_SECRET,
-  bearerToken: process.env.TWITTER_BEARER_TOKEN,
-}));
+export interface TwitterAccountCredentials {
+  accessToken: string;
+  accessTokenSecret: string;
+}
+
+export type ApiScope = 'upload' | 'thread' | 'schedule' | 'admin';
+
+export interface ApiKeyConfig {
+  // The secret itself, or `keyHash` with its hex SHA-256 digest
+  key?: string;
+  keyHash?: string;
+  // 'admin' grants every scope
+  scopes: ApiScope[];
+  // Twitter accounts the key may post as; omitted or '*' allows all
+  accounts?: string[];
+  rateLimitPerMinute?: number;
+  dailyPostQuota?: number;
+}
+
+export type WebhookEvent =
+  | 'post.succeeded'
+  | 'post.failed'
+  | 'post.needs_attention';
+
+export interface WebhookSubscriptionConfig {
+  url: string;
+  // Signs deliveries instead of WEBHOOK_SECRET
+  secret?: string;
+  // Omitted means every event
+  events?: WebhookEvent[];
+  // Twitter accounts whose posts are reported; omitted means all
+  accounts?: string[];
+}
+
+const ACCOUNT_ENV_PATTERN = /^TWITTER_ACCOUNT_(.+)_ACCESS_TOKEN$/;
+
+/**
+ * Builds the named account registry from, in increasing precedence:
+ * the legacy TWITTER_ACCESS_TOKEN pair, the JSON file named by
+ * TWITTER_ACCOUNTS_FILE ({ "<name>": { accessToken, accessTokenSecret } })
+ * and TWITTER_ACCOUNT_<NAME>_ACCESS_TOKEN[_SECRET] variables. Env names are
+ * lowercased with underscores turned into dashes (BRAND_A -> brand-a).
+ */
+function loadAccounts(
+  defaultAccount: string,
+): Record<string, TwitterAccountCredentials> {
+  const accounts: Record<string, TwitterAccountCredentials> = {};
+
+  if (
+    process.env.TWITTER_ACCESS_TOKEN &&
+    process.env.TWITTER_ACCESS_TOKEN_SECRET
+  ) {
+    accounts[defaultAccount] = {
+      accessToken: process.env.TWITTER_ACCESS_TOKEN,
+      accessTokenSecret: process.env.TWITTER_ACCESS_TOKEN_SECRET,
+    };
+  }
+
+  if (process.env.TWITTER_ACCOUNTS_FILE) {
+    const raw = fs.readFileSync(process.env.TWITTER_ACCOUNTS_FILE, 'utf8');
+    Object.assign(accounts, JSON.parse(raw));
+  }
+
+  for (const [key, accessToken] of Object.entries(process.env)) {
+    const match = ACCOUNT_ENV_PATTERN.exec(key);
+    const accessTokenSecret =
+      match && process.env[`TWITTER_ACCOUNT_${match[1]}_ACCESS_TOKEN_SECRET`];
+    if (match && accessToken && accessTokenSecret) {
+      const name = match[1].toLowerCase().replace(/_/g, '-');
+      accounts[name] = { accessToken, accessTokenSecret };
+    }
+  }
+
+  return accounts;
+}
+
+/**
+ * API keys accepted from clients, keyed by name, from the JSON file named
+ * by API_KEYS_FILE and then inline JSON in API_KEYS, both shaped
+ * { "<name>": { key, scopes, accounts?, rateLimitPerMinute?,
+ * dailyPostQuota? } }.
+ */
+function loadApiKeys(): Record<string, ApiKeyConfig> {
+  const keys: Record<string, ApiKeyConfig> = {};
+
+  if (process.env.API_KEYS_FILE) {
+    const raw = fs.readFileSync(process.env.API_KEYS_FILE, 'utf8');
+    Object.assign(keys, JSON.parse(raw));
+  }
+  if (process.env.API_KEYS) {
+    Object.assign(keys, JSON.parse(process.env.API_KEYS));
+  }
+
+  return keys;
+}
+
+/**
+ * Named tweet text templates, from the JSON file named by
+ * TWEET_TEMPLATES_FILE and then inline JSON in TWEET_TEMPLATES, both shaped
+ * { "<name>": "New clip: {{filename}} ({{date}})" }.
+ */
+function loadTweetTemplates(): Record<string, string> {
+  const templates: Record<string, string> = {};
+
+  if (process.env.TWEET_TEMPLATES_FILE) {
+    const raw = fs.readFileSync(process.env.TWEET_TEMPLATES_FILE, 'utf8');
+    Object.assign(templates, JSON.parse(raw));
+  }
+  if (process.env.TWEET_TEMPLATES) {
+    Object.assign(templates, JSON.parse(process.env.TWEET_TEMPLATES));
+  }
+
+  return templates;
+}
+
+/**
+ * Webhook subscriptions told about every post, keyed by name, from the
+ * JSON file named by WEBHOOKS_FILE and then inline JSON in WEBHOOKS, both
+ * shaped { "<name>": { url, secret?, events?, accounts? } }.
+ */
+function loadWebhookSubscriptions(): Record<string, WebhookSubscriptionConfig> {
+  const subscriptions: Record<string, WebhookSubscriptionConfig> = {};
+
+  if (process.env.WEBHOOKS_FILE) {
+    const raw = fs.readFileSync(process.env.WEBHOOKS_FILE, 'utf8');
+    Object.assign(subscriptions, JSON.parse(raw));
+  }
+  if (process.env.WEBHOOKS) {
+    Object.assign(subscriptions, JSON.parse(process.env.WEBHOOKS));
+  }
+
+  return subscriptions;
+}
+
+const MB = 1024 * 1024;
+
+// Comma-separated env values, e.g. "cdn.example.com,*.example.org"
+const list = (value: string | undefined, fallback: string[]): string[] =>
+  value === undefined
+    ? fallback
+    : value
+        .split(',')
+        .map((entry) => entry.trim())
+        .filter(Boolean);
+
+/**
+ * Platform limits checked before upload. MEDIA_RULES_FILE may point to a
+ * JSON file overriding single rules per kind, e.g. { "video": {
+ * "maxDurationSecs": 600 } } for accounts with longer video limits.
+ */
+function loadMediaRules() {
+  const rules = {
+    image: {
+      maxBytes: 5 * MB,
+      minWidth: 4,
+      minHeight: 4,
+      maxWidth: 8192,
+      maxHeight: 8192,
+    },
+    gif: {
+      maxBytes: 15 * MB,
+      minWidth: 4,
+      minHeight: 4,
+      maxWidth: 1280,
+      maxHeight: 1080,
+    },
+    video: {
+      maxBytes: 512 * MB,
+      minWidth: 32,
+      minHeight: 32,
+      maxWidth: 1920,
+      maxHeight: 1200,
+      minDurationSecs: 0.5,
+      maxDurationSecs: 140,
+      maxFrameRate: 60,
+      maxBitrate: 25_000_000,
+      minAspectRatio: 1 / 3,
+      maxAspectRatio: 3,
+      videoCodecs: ['avc1', 'avc3'],
+      audioCodecs: ['mp4a'],
+    },
+  };
+
+  if (process.env.MEDIA_RULES_FILE) {
+    const raw = fs.readFileSync(process.env.MEDIA_RULES_FILE, 'utf8');
+    const overrides = JSON.parse(raw);
+    for (const kind of Object.keys(rules) as (keyof typeof rules)[]) {
+      Object.assign(rules[kind], overrides[kind]);
+    }
+  }
+
+  return rules;
+}
+
+export default registerAs('twitter', () => {
+  const defaultAccount = process.env.TWITTER_DEFAULT_ACCOUNT ?? 'default';
+
+  return {
+    consumerKey: process.env.TWITTER_CONSUMER_KEY,
+    consumerSecret: process.env.TWITTER_CONSUMER_SECRET,
+    bearerToken: process.env.TWITTER_BEARER_TOKEN,
+    defaultAccount,
+    accounts: loadAccounts(defaultAccount),
+    // Overridable to point the service at a proxy or a fake API in tests
+    apiBaseUrl: process.env.TWITTER_API_BASE_URL ?? 'https://api.twitter.com',
+    uploadBaseUrl:
+      process.env.TWITTER_UPLOAD_BASE_URL ?? 'https://upload.twitter.com',
+    // Every upload is a dry run and nothing is ever posted, e.g. in staging
+    sandbox: process.env.TWITTER_SANDBOX === 'true',
+    // How every Twitter API request is sent (TwitterClient)
+    client: {
+      timeoutMs: parseInt(process.env.TWITTER_TIMEOUT_MS ?? '30000', 10),
+      // Retries per request; UPLOAD_APPEND_RETRIES is the older name
+      maxRetries: parseInt(
+        process.env.TWITTER_MAX_RETRIES ??
+          process.env.UPLOAD_APPEND_RETRIES ??
+          '3',
+        10,
+      ),
+      // Exhausted rate limits resetting later than this fail instead of wait
+      maxRateLimitWaitMs: parseInt(
+        process.env.TWITTER_MAX_RATE_LIMIT_WAIT_MS ?? String(15 * 60 * 1000),
+        10,
+      ),
+    },
+    // Where stateful features (jobs, schedules, ...) keep their files
+    dataDir: process.env.TWITTER_DATA_DIR ?? path.join(process.cwd(), 'data'),
+    upload: {
+      // Multer rejects larger request files
+      maxFileSize: parseInt(
+        process.env.UPLOAD_MAX_FILE_SIZE ?? String(512 * 1024 * 1024),
+        10,
+      ),
+      // Twitter accepts APPEND segments of up to 5MB
+      chunkSizeBytes: parseInt(
+        process.env.UPLOAD_CHUNK_SIZE_BYTES ?? String(5 * 1024 * 1024),
+        10,
+      ),
+      maxChunksInFlight: parseInt(
+        process.env.UPLOAD_MAX_CHUNKS_IN_FLIGHT ?? '2',
+        10,
+      ),
+    },
+    validation: {
+      rules: loadMediaRules(),
+    },
+    templates: loadTweetTemplates(),
+    mediaCache: {
+      // Reuse media ids of identical content per account until they expire
+      enabled: process.env.MEDIA_CACHE_DISABLED !== 'true',
+    },
+    // Limits on fetching videoUrl/mediaUrls, checked on every redirect hop
+    downloads: {
+      allowedSchemes: list(process.env.DOWNLOAD_ALLOWED_SCHEMES, [
+        'https',
+        'http',
+      ]),
+      // Empty allows every host not denied; "*.example.com" covers subdomains
+      allowedHosts: list(process.env.DOWNLOAD_ALLOWED_HOSTS, []),
+      deniedHosts: list(process.env.DOWNLOAD_DENIED_HOSTS, [
+        'localhost',
+        'metadata.google.internal',
+      ]),
+      // Private, loopback and link-local addresses are refused unless set
+      allowPrivateAddresses:
+        process.env.DOWNLOAD_ALLOW_PRIVATE_ADDRESSES === 'true',
+      maxRedirects: parseInt(process.env.DOWNLOAD_MAX_REDIRECTS ?? '3', 10),
+      maxBytes: parseInt(
+        process.env.DOWNLOAD_MAX_BYTES ?? String(512 * MB),
+        10,
+      ),
+      timeoutMs: parseInt(process.env.DOWNLOAD_TIMEOUT_MS ?? '120000', 10),
+      // Prefixes of the Content-Type values accepted from remote servers
+      allowedContentTypes: list(process.env.DOWNLOAD_ALLOWED_CONTENT_TYPES, [
+        'video/',
+        'image/',
+        'application/octet-stream',
+        'binary/octet-stream',
+      ]),
+    },
+    auth: {
+      // Every /twitter route needs an API key unless this is turned off
+      enabled: process.env.API_AUTH_DISABLED !== 'true',
+      keys: loadApiKeys(),
+    },
+    idempotency: {
+      // How long an Idempotency-Key is remembered after its first use
+      ttlMs: parseInt(
+        process.env.IDEMPOTENCY_TTL_MS ?? String(24 * 60 * 60 * 1000),
+        10,
+      ),
+    },
+    history: {
+      // JSON Lines file of every post attempt; defaults to the data dir
+      path: process.env.POST_HISTORY_PATH,
+    },
+    webhooks: {
+      // Shared secret of the X-Webhook-Signature HMAC; callbackUrl needs it
+      secret: process.env.WEBHOOK_SECRET,
+      subscriptions: loadWebhookSubscriptions(),
+      timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS ?? '10000', 10),
+      // Deliveries failing this often are kept as dead letters
+      maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS ?? '6', 10),
+      // First retry delay, doubled on each further attempt
+      retryBaseMs: parseInt(process.env.WEBHOOK_RETRY_BASE_MS ?? '30000', 10),
+      // callbackUrl may only name private or loopback hosts when set
+      allowPrivateAddresses:
+        process.env.WEBHOOK_ALLOW_PRIVATE_ADDRESSES === 'true',
+    },
+    jobs: {
+      concurrency: parseInt(process.env.UPLOAD_JOB_CONCURRENCY ?? '2', 10),
+      storePath: process.env.UPLOAD_JOB_STORE_PATH,
+    },
+    batches: {
+      // Rows of all batches posted at the same time
+      concurrency: parseInt(process.env.BATCH_CONCURRENCY ?? '2', 10),
+    },
+    scheduler: {
+      pollIntervalMs: parseInt(
+        process.env.SCHEDULER_POLL_INTERVAL_MS ?? '15000',
+        10,
+      ),
+      // Posts later than this (e.g. after downtime) count as missed
+      missedGraceMs: parseInt(
+        process.env.SCHEDULER_MISSED_GRACE_MS ?? '300000',
+        10,
+      ),
+      // 'publish' missed posts late, or 'skip' them
+      missedPolicy: process.env.SCHEDULER_MISSED_POLICY ?? 'publish',
+      // How early media of `preUpload` posts is sent to Twitter
+      preUploadLeadMs: parseInt(
+        process.env.SCHEDULER_PRE_UPLOAD_LEAD_MS ?? '1800000',
+        10,
+      ),
+    },
+  };
+});
@@ -0,0 +1,73 @@
+import { BadRequestException } from '@nestjs/common';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  assertValidAccessibility,
+  MAX_ALT_TEXT_LENGTH,
+  parseAltTexts,
+} from './alt-text';
+
+describe('accessibility input', () => {
+  const video = { source: 'https://cdn.example.com/clip.mp4' };
+  let srtPath: string;
+
+  beforeAll(async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'srt-'));
+    srtPath = path.join(dir, 'captions.srt');
+    await fs.promises.writeFile(
+      srtPath,
+      '1\n00:00:00,000 --> 00:00:01,000\nHi\n',
+    );
+  });
+
+  afterAll(() =>
+    fs.promises.rm(path.dirname(srtPath), { recursive: true, force: true }),
+  );
+
+  it('parses a single alt text or a JSON array', () => {
+    expect(parseAltTexts('A cat')).toEqual(['A cat']);
+    expect(parseAltTexts('["A cat", null, "A dog"]')).toEqual([
+      'A cat',
+      undefined,
+      'A dog',
+    ]);
+  });
+
+  it('rejects alt text over the length limit', async () => {
+    const altText = '🐱'.repeat(MAX_ALT_TEXT_LENGTH + 1);
+
+    await expect(
+      assertValidAccessibility([{ ...video, altText }]),
+    ).rejects.toThrow(`the limit is ${MAX_ALT_TEXT_LENGTH}`);
+    await expect(
+      assertValidAccessibility([
+        { ...video, altText: '🐱'.repeat(MAX_ALT_TEXT_LENGTH) },
+      ]),
+    ).resolves.toBeUndefined();
+  });
+
+  it('accepts subtitles for a single video with a language code', async () => {
+    await expect(
+      assertValidAccessibility([video], {
+        source: srtPath,
+        languageCode: 'en',
+      }),
+    ).resolves.toBeUndefined();
+  });
+
+  it('rejects subtitles without a video or language code', async () => {
+    await expect(
+      assertValidAccessibility([{ source: 'photo.png' }], {
+        source: srtPath,
+        languageCode: 'en',
+      }),
+    ).rejects.toThrow(BadRequestException);
+    await expect(
+      assertValidAccessibility([video], {
+        source: srtPath,
+        languageCode: 'english',
+      }),
+    ).rejects.toThrow('ISO 639-1');
+  });
+});
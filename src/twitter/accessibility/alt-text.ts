@@ -0,0 +1,77 @@
+import { BadRequestException } from '@nestjs/common';
+import * as fs from 'fs';
+import { MediaItem } from '../interfaces/media-item.interface';
+import { classifyMedia } from '../media/media-set';
+import { assertValidSrt } from './srt';
+import { SubtitleTrack } from './subtitle-track.interface';
+
+// Twitter's limit for media alt text
+export const MAX_ALT_TEXT_LENGTH = 1000;
+
+const LANGUAGE_CODE = /^[a-z]{2}$/i;
+
+// Accepts a single string or a JSON array aligned with the media order
+export function parseAltTexts(
+  value?: string | string[],
+): (string | undefined)[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value.map((text) => text || undefined);
+  }
+
+  const trimmed = value.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      return (JSON.parse(trimmed) as (string | null)[]).map(
+        (text) => text || undefined,
+      );
+    } catch {
+      throw new BadRequestException(
+        'altText must be a string or a JSON array of strings',
+      );
+    }
+  }
+  return [value];
+}
+
+/**
+ * Local checks for alt text and subtitles, so bad input is rejected with
+ * a 400 before anything is sent to Twitter.
+ */
+export async function assertValidAccessibility(
+  items: MediaItem[],
+  subtitles?: SubtitleTrack,
+): Promise<void> {
+  for (const [index, item] of items.entries()) {
+    if (item.altText === undefined) continue;
+
+    if (typeof item.altText !== 'string' || !item.altText.trim()) {
+      throw new BadRequestException(`Alt text of media ${index + 1} is empty`);
+    }
+    // Twitter counts characters, not UTF-16 code units
+    const length = [...item.altText].length;
+    if (length > MAX_ALT_TEXT_LENGTH) {
+      throw new BadRequestException(
+        `Alt text of media ${index + 1} is ${length} characters; the limit is ${MAX_ALT_TEXT_LENGTH}`,
+      );
+    }
+  }
+
+  if (!subtitles) {
+    return;
+  }
+
+  if (items.length !== 1 || classifyMedia(items[0]) !== 'video') {
+    throw new BadRequestException(
+      'Subtitles can only be attached to a single video',
+    );
+  }
+  if (!LANGUAGE_CODE.test(subtitles.languageCode ?? '')) {
+    throw new BadRequestException(
+      'subtitlesLanguage must be a two-letter ISO 639-1 code, e.g. "en"',
+    );
+  }
+  assertValidSrt(await fs.promises.readFile(subtitles.source, 'utf8'));
+}
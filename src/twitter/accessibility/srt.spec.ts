@@ -0,0 +1,36 @@
+import { assertValidSrt } from './srt';
+
+describe('assertValidSrt', () => {
+  const valid = [
+    '1',
+    '00:00:01,000 --> 00:00:03,500',
+    'Hello there',
+    '',
+    '2',
+    '00:00:04,000 --> 00:00:06,000 X1:10 X2:20',
+    'Two lines',
+    'of text',
+    '',
+  ].join('\r\n');
+
+  it('counts the cues of a well-formed file', () => {
+    expect(assertValidSrt('\uFEFF' + valid)).toBe(2);
+  });
+
+  it.each([
+    ['a missing cue number', 'Hello\n00:00:01,000 --> 00:00:02,000\nHi\n', 1],
+    ['a malformed timing line', '1\n00:00:01 --> 00:00:02,000\nHi\n', 2],
+    [
+      'a cue ending before it starts',
+      '1\n00:00:05,000 --> 00:00:02,000\nHi\n',
+      2,
+    ],
+    ['a cue without text', '1\n00:00:01,000 --> 00:00:02,000\n\n', 2],
+  ])('rejects %s with its line number', (_case, content, line) => {
+    expect(() => assertValidSrt(content)).toThrow(`at line ${line}:`);
+  });
+
+  it('rejects an empty file', () => {
+    expect(() => assertValidSrt('\n\n')).toThrow('no cues');
+  });
+});
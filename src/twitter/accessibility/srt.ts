@@ -0,0 +1,64 @@
+import { BadRequestException } from '@nestjs/common';
+
+const TIMESTAMP = /^(\d{2,}):([0-5]\d):([0-5]\d)[,.](\d{3})$/;
+
+function toMillis(timestamp: string): number | undefined {
+  const match = TIMESTAMP.exec(timestamp.trim());
+  if (!match) return undefined;
+  const [, hours, minutes, seconds, millis] = match.map(Number);
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000 + millis;
+}
+
+/**
+ * Checks SubRip syntax: numbered cues separated by blank lines, each with a
+ * `start --> end` timing line and at least one line of text. Returns the
+ * number of cues.
+ */
+export function assertValidSrt(content: string): number {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/);
+  let lineNumber = 0;
+  let cues = 0;
+
+  const fail = (message: string): never => {
+    throw new BadRequestException(
+      `Invalid SRT subtitles at line ${lineNumber}: ${message}`,
+    );
+  };
+
+  while (lineNumber < lines.length) {
+    // Skip blank lines between cues
+    if (!lines[lineNumber].trim()) {
+      lineNumber++;
+      continue;
+    }
+
+    const index = lines[lineNumber++].trim();
+    if (!/^\d+$/.test(index)) {
+      fail(`expected a cue number, got "${index}"`);
+    }
+
+    const timing = (lines[lineNumber++] ?? '').split('-->');
+    const start = toMillis(timing[0] ?? '');
+    // Anything after the end timestamp is positioning info
+    const end = toMillis((timing[1] ?? '').trim().split(/\s+/)[0]);
+    if (timing.length !== 2 || start === undefined || end === undefined) {
+      fail('expected "HH:MM:SS,mmm --> HH:MM:SS,mmm"');
+    }
+    if (end! < start!) {
+      fail('cue ends before it starts');
+    }
+
+    if (!lines[lineNumber]?.trim()) {
+      fail(`cue ${index} has no text`);
+    }
+    while (lines[lineNumber]?.trim()) {
+      lineNumber++;
+    }
+    cues++;
+  }
+
+  if (cues === 0) {
+    throw new BadRequestException('SRT subtitles contain no cues');
+  }
+  return cues;
+}
@@ -0,0 +1,8 @@
+export interface SubtitleTrack {
+  // Local path of the .srt file
+  source: string;
+  // ISO 639-1 code, e.g. "en"
+  languageCode: string;
+  // Shown in the caption picker; the language code when omitted
+  displayName?: string;
+}
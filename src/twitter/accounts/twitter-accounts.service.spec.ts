@@ -0,0 +1,36 @@
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TwitterAccountsService } from './twitter-accounts.service';
+
+describe('TwitterAccountsService', () => {
+  const service = new TwitterAccountsService(
+    new ConfigService({
+      twitter: {
+        defaultAccount: 'main',
+        accounts: {
+          main: { accessToken: 'main-token', accessTokenSecret: 'main-secret' },
+          'brand-a': { accessToken: 'a-token', accessTokenSecret: 'a-secret' },
+        },
+      },
+    }),
+  );
+
+  it('lists account names without secrets', () => {
+    const listing = service.list();
+
+    expect(listing).toEqual({
+      accounts: ['brand-a', 'main'],
+      defaultAccount: 'main',
+    });
+    expect(JSON.stringify(listing)).not.toContain('secret');
+  });
+
+  it('resolves named and default accounts', () => {
+    expect(service.resolve('brand-a').accessToken).toBe('a-token');
+    expect(service.resolve().accessToken).toBe('main-token');
+  });
+
+  it('rejects unknown accounts with a 400', () => {
+    expect(() => service.resolve('nope')).toThrow(BadRequestException);
+  });
+});
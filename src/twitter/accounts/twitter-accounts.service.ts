@@ -0,0 +1,41 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TwitterAccountCredentials } from '../../config/twitter.config';
+
+@Injectable()
+export class TwitterAccountsService {
+  private readonly accounts: Record<string, TwitterAccountCredentials>;
+  private readonly defaultAccount: string;
+
+  constructor(configService: ConfigService) {
+    this.accounts =
+      configService.get<Record<string, TwitterAccountCredentials>>(
+        'twitter.accounts',
+      ) ?? {};
+    this.defaultAccount =
+      configService.get<string>('twitter.defaultAccount') ?? 'default';
+  }
+
+  // Account names only; secrets never leave this service
+  list(): { accounts: string[]; defaultAccount: string } {
+    return {
+      accounts: Object.keys(this.accounts).sort(),
+      defaultAccount: this.defaultAccount,
+    };
+  }
+
+  resolve(account?: string): TwitterAccountCredentials {
+    const name = account || this.defaultAccount;
+    const credentials = this.accounts[name];
+
+    if (!credentials) {
+      throw new BadRequestException(
+        account
+          ? `Unknown Twitter account: ${account}`
+          : 'No default Twitter account is configured',
+      );
+    }
+
+    return credentials;
+  }
+}
@@ -0,0 +1,6 @@
+export const API_USAGE_STORE = 'API_USAGE_STORE';
+
+export const API_KEY_HEADER = 'x-api-key';
+
+// Route metadata set by @RequireScope()
+export const REQUIRED_SCOPE = 'requiredApiScope';
@@ -0,0 +1,29 @@
+import { HttpStatus } from '@nestjs/common';
+import { UploaderError } from '../errors/uploader-errors';
+
+// No API key, or one that is not configured
+export class ApiKeyInvalidError extends UploaderError {
+  constructor(message: string) {
+    super('unauthenticated', HttpStatus.UNAUTHORIZED, message);
+  }
+}
+
+export class ApiAccessDeniedError extends UploaderError {
+  constructor(
+    code: 'scope_not_granted' | 'account_not_allowed',
+    message: string,
+  ) {
+    super(code, HttpStatus.FORBIDDEN, message);
+  }
+}
+
+export class ApiLimitExceededError extends UploaderError {
+  constructor(
+    code: 'rate_limited' | 'daily_quota_exceeded',
+    message: string,
+    // Until the window or the day is over
+    readonly retryAfterSecs: number,
+  ) {
+    super(code, HttpStatus.TOO_MANY_REQUESTS, message);
+  }
+}
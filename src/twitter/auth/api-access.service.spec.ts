@@ -0,0 +1,179 @@
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { TwitterAccountsService } from '../accounts/twitter-accounts.service';
+import { InMemoryRecordStore } from '../storage/memory-record.store';
+import { ApiAccessService } from './api-access.service';
+import { ApiRequest } from './api-client.interface';
+import { ApiUsageRecord } from './api-usage-record.interface';
+
+describe('ApiAccessService', () => {
+  let usage: InMemoryRecordStore<ApiUsageRecord>;
+  let service: ApiAccessService;
+
+  const keys = {
+    bot: {
+      key: 'bot-secret',
+      scopes: ['upload'],
+      accounts: ['brand-a'],
+      rateLimitPerMinute: 2,
+      dailyPostQuota: 3,
+    },
+    ops: {
+      keyHash: crypto.createHash('sha256').update('ops-secret').digest('hex'),
+      scopes: ['admin'],
+    },
+  };
+
+  // A request as ApiKeyGuard leaves it, recording the headers set
+  const requestFor = (secret: string) => {
+    const headers: Record<string, string> = {};
+    const request = {
+      apiClient: service.authenticate(secret),
+      res: {
+        setHeader: (name: string, value: string) => (headers[name] = value),
+      },
+    } as unknown as ApiRequest;
+    return { request, headers };
+  };
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.parse('2026-03-01T23:59:00Z') });
+    usage = new InMemoryRecordStore<ApiUsageRecord>();
+    const configService = new ConfigService({
+      twitter: {
+        auth: { enabled: true, keys },
+        accounts: { 'brand-a': {}, 'brand-b': {} },
+        defaultAccount: 'brand-b',
+      },
+    });
+    service = new ApiAccessService(
+      configService,
+      new TwitterAccountsService(configService),
+      usage,
+    );
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('accepts configured keys and their hashes only', () => {
+    expect(service.authenticate('bot-secret')).toEqual({
+      name: 'bot',
+      scopes: ['upload'],
+      accounts: ['brand-a'],
+      rateLimitPerMinute: 2,
+      dailyPostQuota: 3,
+    });
+    expect(service.authenticate('ops-secret').name).toBe('ops');
+    expect(() => service.authenticate('bot-secre')).toThrow('Invalid API key');
+    expect(() => service.authenticate(undefined)).toThrow(
+      expect.objectContaining({ status: 401, code: 'unauthenticated' }),
+    );
+  });
+
+  it('grants scopes held by the key, and all of them to admin keys', () => {
+    const bot = service.authenticate('bot-secret');
+    const ops = service.authenticate('ops-secret');
+
+    expect(() => service.assertScope(bot, 'upload')).not.toThrow();
+    expect(() => service.assertScope(bot, 'schedule')).toThrow(
+      expect.objectContaining({ status: 403, code: 'scope_not_granted' }),
+    );
+    expect(() => service.assertScope(ops, 'schedule')).not.toThrow();
+  });
+
+  it('limits requests per minute', () => {
+    const { request, headers } = requestFor('bot-secret');
+
+    service.takeRequest(request);
+    service.takeRequest(request);
+    expect(headers).toMatchObject({
+      'X-RateLimit-Limit': '2',
+      'X-RateLimit-Remaining': '0',
+    });
+    expect(() => service.takeRequest(request)).toThrow(
+      expect.objectContaining({ code: 'rate_limited', retryAfterSecs: 60 }),
+    );
+
+    jest.advanceTimersByTime(60_000);
+    expect(() => service.takeRequest(request)).not.toThrow();
+  });
+
+  it('refuses accounts the key may not post as', async () => {
+    const { request } = requestFor('bot-secret');
+
+    await expect(
+      service.authorizePosts(request, 'brand-a', 1),
+    ).resolves.toEqual({ client: 'bot', day: '2026-03-01', posts: 1 });
+    // No account means the default one
+    await expect(service.authorizePosts(request, undefined, 1)).rejects.toThrow(
+      'API key bot may not post as brand-b',
+    );
+    expect(service.mayUseAccount(request, 'brand-a')).toBe(true);
+    expect(service.mayUseAccount(request, undefined)).toBe(false);
+    expect(service.mayUseAccount(requestFor('ops-secret').request, 'x')).toBe(
+      true,
+    );
+  });
+
+  it('enforces the daily post quota until the UTC day ends', async () => {
+    const { request, headers } = requestFor('bot-secret');
+
+    await service.authorizePosts(request, 'brand-a', 2);
+    expect(headers).toMatchObject({
+      'X-Quota-Limit': '3',
+      'X-Quota-Remaining': '1',
+      'X-Quota-Reset': String(Date.parse('2026-03-02T00:00:00Z') / 1000),
+    });
+
+    await expect(service.authorizePosts(request, 'brand-a', 2)).rejects.toThrow(
+      expect.objectContaining({
+        status: 429,
+        code: 'daily_quota_exceeded',
+        retryAfterSecs: 60,
+      }),
+    );
+
+    jest.advanceTimersByTime(60_000);
+    await service.authorizePosts(request, 'brand-a', 2);
+    expect(headers['X-Quota-Remaining']).toBe('1');
+    // The previous day's count is dropped
+    expect(await usage.list()).toEqual([
+      { id: 'bot:2026-03-02', client: 'bot', day: '2026-03-02', posts: 2 },
+    ]);
+  });
+
+  it('gives back refunded posts to the daily quota', async () => {
+    const { request } = requestFor('bot-secret');
+
+    const reservation = await service.authorizePosts(request, 'brand-a', 3);
+    expect(reservation).toEqual({ client: 'bot', day: '2026-03-01', posts: 3 });
+    await service.refundPosts({ ...reservation!, posts: 2 });
+    const second = await service.authorizePosts(request, 'brand-a', 2);
+    await expect(service.authorizePosts(request, 'brand-a', 1)).rejects.toThrow(
+      expect.objectContaining({ code: 'daily_quota_exceeded' }),
+    );
+
+    await service.refundPosts({ ...second!, posts: 5 });
+    expect(await usage.list()).toEqual([
+      { id: 'bot:2026-03-01', client: 'bot', day: '2026-03-01', posts: 0 },
+    ]);
+    // Keys without a quota reserve nothing
+    await expect(
+      service.authorizePosts(requestFor('ops-secret').request, 'x', 1),
+    ).resolves.toBeUndefined();
+  });
+
+  it('refunds the day a reservation was taken from', async () => {
+    const { request } = requestFor('bot-secret');
+
+    const reservation = await service.authorizePosts(request, 'brand-a', 2);
+    jest.advanceTimersByTime(60_000);
+    await service.authorizePosts(request, 'brand-a', 3);
+    await service.refundPosts(reservation);
+
+    // The new day stays fully used
+    await expect(service.authorizePosts(request, 'brand-a', 1)).rejects.toThrow(
+      expect.objectContaining({ code: 'daily_quota_exceeded' }),
+    );
+  });
+});
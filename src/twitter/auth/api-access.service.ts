@@ -0,0 +1,272 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { Response } from 'express';
+import { ApiKeyConfig, ApiScope } from '../../config/twitter.config';
+import { TwitterAccountsService } from '../accounts/twitter-accounts.service';
+import { KeyedLock } from '../concurrency/keyed-lock';
+import { RecordStore } from '../storage/record-store';
+import { API_USAGE_STORE } from './api-access.constants';
+import {
+  ApiAccessDeniedError,
+  ApiKeyInvalidError,
+  ApiLimitExceededError,
+} from './api-access.errors';
+import { ApiClient, ApiRequest } from './api-client.interface';
+import { ApiUsageRecord, PostReservation } from './api-usage-record.interface';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+interface LimitState {
+  limit: number;
+  remaining: number;
+  // Epoch milliseconds
+  resetAt: number;
+}
+
+const sha256 = (value: string) =>
+  crypto.createHash('sha256').update(value).digest();
+
+/**
+ * Authenticates API keys and enforces what each key may do: its scopes,
+ * the accounts it may post as, requests per minute and posts per UTC day.
+ * Request counts live in memory; daily post counts are persisted so a
+ * restart does not reset them.
+ */
+@Injectable()
+export class ApiAccessService {
+  private readonly logger = new Logger(ApiAccessService.name);
+  readonly enabled: boolean;
+  private readonly keys: { digest: Buffer; client: ApiClient }[];
+  // Fixed one-minute windows per key name
+  private readonly windows = new Map<
+    string,
+    { startedAt: number; count: number }
+  >();
+  // Serializes the read-then-write of each key's daily usage
+  private readonly locks = new KeyedLock();
+
+  constructor(
+    configService: ConfigService,
+    private readonly accounts: TwitterAccountsService,
+    @Inject(API_USAGE_STORE)
+    private readonly usage: RecordStore<ApiUsageRecord>,
+  ) {
+    this.enabled = configService.get<boolean>('twitter.auth.enabled') ?? true;
+    const keys =
+      configService.get<Record<string, ApiKeyConfig>>('twitter.auth.keys') ??
+      {};
+
+    this.keys = Object.entries(keys).map(
+      ([name, { key, keyHash, ...limits }]) => {
+        if (!key && !keyHash) {
+          throw new Error(`API key ${name} needs a key or keyHash`);
+        }
+        return {
+          digest: key ? sha256(key) : Buffer.from(keyHash!, 'hex'),
+          client: { name, ...limits, scopes: limits.scopes ?? [] },
+        };
+      },
+    );
+
+    if (this.enabled && this.keys.length === 0) {
+      this.logger.warn(
+        'No API keys are configured; every request will be refused. Set API_KEYS_FILE, or API_AUTH_DISABLED=true',
+      );
+    }
+  }
+
+  /** Finds the configured key matching `presented`. */
+  authenticate(presented: string | undefined): ApiClient {
+    if (!presented) {
+      throw new ApiKeyInvalidError(
+        'An API key is required, as X-API-Key or a Bearer token',
+      );
+    }
+
+    // Compare digests in constant time, and check every key regardless
+    const digest = sha256(presented);
+    let match: ApiClient | undefined;
+    for (const key of this.keys) {
+      if (
+        key.digest.length === digest.length &&
+        crypto.timingSafeEqual(key.digest, digest)
+      ) {
+        match = key.client;
+      }
+    }
+
+    if (!match) {
+      throw new ApiKeyInvalidError('Invalid API key');
+    }
+    return match;
+  }
+
+  assertScope(client: ApiClient, scope: ApiScope): void {
+    if (!client.scopes.includes(scope) && !client.scopes.includes('admin')) {
+      throw new ApiAccessDeniedError(
+        'scope_not_granted',
+        `API key ${client.name} lacks the ${scope} scope`,
+      );
+    }
+  }
+
+  /** Counts a request against its key's per-minute limit. */
+  takeRequest(request: ApiRequest): void {
+    const client = request.apiClient;
+    if (!client?.rateLimitPerMinute) {
+      return;
+    }
+
+    const now = Date.now();
+    let window = this.windows.get(client.name);
+    if (!window || now - window.startedAt >= MINUTE_MS) {
+      window = { startedAt: now, count: 0 };
+      this.windows.set(client.name, window);
+    }
+
+    const limit = client.rateLimitPerMinute;
+    const allowed = window.count < limit;
+    if (allowed) {
+      window.count++;
+    }
+    const resetAt = window.startedAt + MINUTE_MS;
+    this.setLimitHeaders(request.res, 'RateLimit', {
+      limit,
+      remaining: limit - window.count,
+      resetAt,
+    });
+
+    if (!allowed) {
+      throw new ApiLimitExceededError(
+        'rate_limited',
+        `API key ${client.name} is limited to ${limit} requests per minute`,
+        Math.ceil((resetAt - now) / 1000),
+      );
+    }
+  }
+
+  /** Whether the request's key may post as, and see posts of, `account`. */
+  mayUseAccount(request: ApiRequest, account: string | undefined): boolean {
+    const client = request.apiClient;
+    if (!client?.accounts || client.accounts.includes('*')) {
+      return true;
+    }
+    return client.accounts.includes(
+      account || this.accounts.list().defaultAccount,
+    );
+  }
+
+  /**
+   * Refuses accounts the key may not use. Also call it with the account of
+   * an existing post, job, thread or batch before showing or changing it.
+   */
+  assertAccount(request: ApiRequest, account: string | undefined): void {
+    if (!this.mayUseAccount(request, account)) {
+      throw new ApiAccessDeniedError(
+        'account_not_allowed',
+        `API key ${request.apiClient!.name} may not post as ${
+          account || this.accounts.list().defaultAccount
+        }`,
+      );
+    }
+  }
+
+  /**
+   * Checks the account and reserves `posts` tweets of the key's daily
+   * quota. Call it once the request is otherwise valid, right before
+   * anything is queued. Returns the reservation to hand to `refundPosts`,
+   * or undefined when the key has no quota.
+   */
+  async authorizePosts(
+    request: ApiRequest,
+    account: string | undefined,
+    posts: number,
+  ): Promise<PostReservation | undefined> {
+    this.assertAccount(request, account);
+
+    const client = request.apiClient;
+    if (!client?.dailyPostQuota) {
+      return undefined;
+    }
+
+    const quota = client.dailyPostQuota;
+    const now = Date.now();
+    const day = new Date(now).toISOString().slice(0, 10);
+    const resetAt = Date.parse(day) + DAY_MS;
+    const id = `${client.name}:${day}`;
+
+    await this.locks.run(client.name, async () => {
+      const record = await this.usage.get(id);
+      if (!record) {
+        await this.forgetEarlierDays(client.name, day);
+      }
+
+      const used = record?.posts ?? 0;
+      const allowed = used + posts <= quota;
+      const total = allowed ? used + posts : used;
+      if (allowed) {
+        await this.usage.save({ id, client: client.name, day, posts: total });
+      }
+      this.setLimitHeaders(request.res, 'Quota', {
+        limit: quota,
+        remaining: quota - total,
+        resetAt,
+      });
+
+      if (!allowed) {
+        throw new ApiLimitExceededError(
+          'daily_quota_exceeded',
+          `API key ${client.name} has ${quota - used} of ${quota} daily posts left; this request needs ${posts}`,
+          Math.ceil((resetAt - now) / 1000),
+        );
+      }
+    });
+    return { client: client.name, day, posts };
+  }
+
+  /**
+   * Gives back a reservation from `authorizePosts` for a request that
+   * ended up queueing nothing. It goes back to the day it was taken from,
+   * even if that day has since ended.
+   */
+  async refundPosts(reservation: PostReservation | undefined): Promise<void> {
+    if (!reservation) {
+      return;
+    }
+
+    const { client, day, posts } = reservation;
+    const id = `${client}:${day}`;
+
+    await this.locks.run(client, async () => {
+      const record = await this.usage.get(id);
+      // Nothing to give back once the reservation's day has ended
+      if (!record) {
+        return;
+      }
+      await this.usage.save({
+        ...record,
+        posts: Math.max(record.posts - posts, 0),
+      });
+    });
+  }
+
+  private setLimitHeaders(
+    response: Response | undefined,
+    prefix: 'RateLimit' | 'Quota',
+    { limit, remaining, resetAt }: LimitState,
+  ): void {
+    response?.setHeader(`X-${prefix}-Limit`, String(limit));
+    response?.setHeader(`X-${prefix}-Remaining`, String(remaining));
+    response?.setHeader(`X-${prefix}-Reset`, String(Math.ceil(resetAt / 1000)));
+  }
+
+  private async forgetEarlierDays(client: string, day: string): Promise<void> {
+    for (const record of await this.usage.list()) {
+      if (record.client === client && record.day < day) {
+        await this.usage.delete(record.id);
+      }
+    }
+  }
+}
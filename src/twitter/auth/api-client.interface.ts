@@ -0,0 +1,12 @@
+import { Request } from 'express';
+import { ApiKeyConfig } from '../../config/twitter.config';
+
+// The configured key a request authenticated with, without its secret
+export interface ApiClient extends Omit<ApiKeyConfig, 'key' | 'keyHash'> {
+  name: string;
+}
+
+// Set by ApiKeyGuard; absent when API auth is disabled
+export interface ApiRequest extends Request {
+  apiClient?: ApiClient;
+}
@@ -0,0 +1,51 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { ApiScope } from '../../config/twitter.config';
+import { API_KEY_HEADER, REQUIRED_SCOPE } from './api-access.constants';
+import { ApiAccessService } from './api-access.service';
+import { ApiRequest } from './api-client.interface';
+
+const BEARER_PATTERN = /^Bearer\s+(\S+)\s*$/i;
+
+/**
+ * Registered globally: every route needs an API key, sent as X-API-Key or
+ * `Authorization: Bearer <key>`, that holds the route's @RequireScope().
+ * Runs before multipart bodies are parsed, so per-account checks and post
+ * quotas are left to the handlers (ApiAccessService.authorizePosts).
+ */
+@Injectable()
+export class ApiKeyGuard implements CanActivate {
+  constructor(
+    private readonly reflector: Reflector,
+    private readonly access: ApiAccessService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    if (!this.access.enabled) {
+      return true;
+    }
+
+    const request = context.switchToHttp().getRequest<ApiRequest>();
+    const client = this.access.authenticate(this.presentedKey(request));
+
+    const scope = this.reflector.getAllAndOverride<ApiScope | undefined>(
+      REQUIRED_SCOPE,
+      [context.getHandler(), context.getClass()],
+    );
+    if (scope) {
+      this.access.assertScope(client, scope);
+    }
+
+    request.apiClient = client;
+    this.access.takeRequest(request);
+    return true;
+  }
+
+  private presentedKey(request: ApiRequest): string | undefined {
+    const header = request.headers[API_KEY_HEADER];
+    if (typeof header === 'string' && header) {
+      return header;
+    }
+    return BEARER_PATTERN.exec(request.headers.authorization ?? '')?.[1];
+  }
+}
@@ -0,0 +1,17 @@
+// Posts accepted for one API key on one UTC day
+export interface ApiUsageRecord {
+  // `<key name>:<day>`
+  id: string;
+  client: string;
+  // YYYY-MM-DD
+  day: string;
+  posts: number;
+}
+
+// Posts taken from one key's quota by ApiAccessService.authorizePosts
+export interface PostReservation {
+  client: string;
+  // The UTC day charged, YYYY-MM-DD
+  day: string;
+  posts: number;
+}
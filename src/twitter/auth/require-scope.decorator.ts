@@ -0,0 +1,7 @@
+import { SetMetadata } from '@nestjs/common';
+import { ApiScope } from '../../config/twitter.config';
+import { REQUIRED_SCOPE } from './api-access.constants';
+
+// Routes without a scope only need a valid API key
+export const RequireScope = (scope: ApiScope) =>
+  SetMetadata(REQUIRED_SCOPE, scope);
@@ -0,0 +1,84 @@
+import { parseBatchManifest, parseCsv, toCsv } from './batch-manifest';
+
+describe('batch manifests', () => {
+  it('parses quoted CSV fields', () => {
+    expect(
+      parseCsv('\uFEFFa,b\r\n"one, two","say ""hi""\nagain"\n\n3,\n'),
+    ).toEqual([
+      ['a', 'b'],
+      ['one, two', 'say "hi"\nagain'],
+      ['3', ''],
+    ]);
+    expect(() => parseCsv('a,"b\n')).toThrow('unclosed quote');
+  });
+
+  it('maps CSV columns by their header names', () => {
+    const rows = parseBatchManifest(
+      [
+        'Media URLs,Caption,reply_to,Publish At,Account,notes',
+        '"https://x.test/a.mp4, https://x.test/b.jpg",Hello,123,,brand-a,ignored',
+        ',Text only,,2030-01-01T09:00:00Z,,',
+      ].join('\n'),
+      'csv',
+    );
+
+    expect(rows).toEqual([
+      {
+        mediaUrls: ['https://x.test/a.mp4', 'https://x.test/b.jpg'],
+        tweetText: 'Hello',
+        replyToTweetId: '123',
+        account: 'brand-a',
+      },
+      {
+        mediaUrls: [],
+        tweetText: 'Text only',
+        publishAt: '2030-01-01T09:00:00Z',
+      },
+    ]);
+  });
+
+  it('reads JSON manifests and rejects empty ones', () => {
+    expect(
+      parseBatchManifest(
+        JSON.stringify({
+          rows: [{ mediaUrls: ['https://x.test/a.mp4'], tweetText: 'Hi' }],
+        }),
+        'json',
+      ),
+    ).toEqual([{ mediaUrls: ['https://x.test/a.mp4'], tweetText: 'Hi' }]);
+    expect(() => parseBatchManifest('[]', 'json')).toThrow(
+      'The manifest has no rows',
+    );
+    expect(() => parseBatchManifest('media_url\n', 'csv')).toThrow(
+      'The manifest has no rows',
+    );
+  });
+
+  it('reports rows whose media URLs are not strings', () => {
+    const manifest = JSON.stringify([
+      { mediaUrls: 'https://x.test/a.mp4' },
+      { mediaUrls: 42 },
+      { mediaUrls: { url: 'https://x.test/b.mp4' } },
+      { media_url: [true] },
+      { mediaUrls: '[not json' },
+    ]);
+
+    expect(() => parseBatchManifest(manifest, 'json')).toThrow(
+      expect.objectContaining({
+        errors: [1, 2, 3, 4].map((row) => ({
+          row,
+          message: expect.stringContaining('must be a URL'),
+        })),
+      }),
+    );
+  });
+
+  it('writes CSV that spreadsheets will not run as formulas', () => {
+    expect(
+      toCsv([
+        ['row', 'error'],
+        [0, '=HYPERLINK("x")'],
+      ]),
+    ).toBe('row,error\r\n0,"\'=HYPERLINK(""x"")"\r\n');
+  });
+});
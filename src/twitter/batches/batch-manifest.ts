@@ -0,0 +1,206 @@
+import { UnprocessableEntityException } from '@nestjs/common';
+import { parseUrlList } from '../media/uploaded-file';
+import { BatchRowInput } from './batch.interface';
+
+export const MAX_BATCH_ROWS = 500;
+
+export interface BatchRowError {
+  // Position of the row in the manifest, from 0
+  row: number;
+  message: string;
+}
+
+/** 422 listing every manifest row that cannot be posted. */
+export class BatchManifestException extends UnprocessableEntityException {
+  constructor(readonly errors: BatchRowError[]) {
+    super({
+      statusCode: 422,
+      error: 'Unprocessable Entity',
+      code: 'batch_manifest_invalid',
+      message: `The manifest has ${errors.length} invalid row(s)`,
+      rows: errors,
+    });
+  }
+}
+
+// Column names are matched ignoring case, spaces, dashes and underscores
+const COLUMN_ALIASES: Record<string, keyof BatchRowInput> = {
+  mediaurls: 'mediaUrls',
+  mediaurl: 'mediaUrls',
+  videourl: 'mediaUrls',
+  url: 'mediaUrls',
+  tweettext: 'tweetText',
+  caption: 'tweetText',
+  text: 'tweetText',
+  replytotweetid: 'replyToTweetId',
+  replyto: 'replyToTweetId',
+  publishat: 'publishAt',
+  publishtime: 'publishAt',
+  account: 'account',
+};
+
+const normalizeColumn = (name: string) =>
+  name.toLowerCase().replace(/[\s_-]/g, '');
+
+/**
+ * Splits CSV text into records (RFC 4180: quoted fields may hold commas,
+ * quotes doubled and line breaks). A byte order mark is ignored.
+ */
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      records.push([...record, field]);
+      record = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (quoted) {
+    throw new UnprocessableEntityException('The CSV has an unclosed quote');
+  }
+  if (field !== '' || record.length > 0) {
+    records.push([...record, field]);
+  }
+
+  // Spreadsheets export blank lines between and after the rows
+  return records.filter((fields) => fields.some((value) => value.trim()));
+}
+
+/**
+ * Renders records as CSV. Cells starting like a formula are prefixed with
+ * a quote, so spreadsheets opening the results show them as text.
+ */
+export function toCsv(records: (string | number | undefined)[][]): string {
+  return records
+    .map((record) =>
+      record
+        .map((value) => {
+          let cell = value === undefined ? '' : String(value);
+          if (/^[=+\-@\t\r]/.test(cell)) {
+            cell = `'${cell}`;
+          }
+          return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+        })
+        .join(','),
+    )
+    .map((line) => `${line}\r\n`)
+    .join('');
+}
+
+/**
+ * Reads the rows of a CSV manifest with a header line, or of a JSON array
+ * of row objects (or { rows: [...] }), into row inputs.
+ */
+export function parseBatchManifest(
+  content: string,
+  format: 'csv' | 'json',
+): BatchRowInput[] {
+  if (format === 'csv') {
+    const [header = [], ...lines] = parseCsv(content);
+    return batchRowsOf(
+      lines.map((fields) =>
+        Object.fromEntries(
+          header.map((name, column) => [name, fields[column]]),
+        ),
+      ),
+    );
+  }
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new UnprocessableEntityException('The manifest is not valid JSON');
+  }
+  return batchRowsOf(Array.isArray(parsed) ? parsed : parsed?.rows);
+}
+
+/**
+ * Maps manifest records to row inputs by their column names. Unknown
+ * columns are ignored; the rows themselves are checked by the controller.
+ */
+export function batchRowsOf(records: unknown): BatchRowInput[] {
+  if (!Array.isArray(records)) {
+    throw new UnprocessableEntityException(
+      'A JSON manifest is an array of rows or an object with rows',
+    );
+  }
+  if (records.length === 0) {
+    throw new UnprocessableEntityException('The manifest has no rows');
+  }
+  if (records.length > MAX_BATCH_ROWS) {
+    throw new UnprocessableEntityException(
+      `A manifest can hold at most ${MAX_BATCH_ROWS} rows`,
+    );
+  }
+
+  const errors: BatchRowError[] = [];
+  const rows = records.map((record, index) => {
+    const row: BatchRowInput = { mediaUrls: [] };
+    for (const [name, value] of Object.entries(record ?? {})) {
+      const field = COLUMN_ALIASES[normalizeColumn(name)];
+      if (field === 'mediaUrls') {
+        const urls = mediaUrlsOf(value);
+        if (urls) {
+          row.mediaUrls = urls;
+        } else {
+          errors.push({
+            row: index,
+            message: `${name} must be a URL, a list of URLs or an array of URLs`,
+          });
+        }
+      } else if (field && typeof value === 'string' && value.trim()) {
+        row[field] = value.trim();
+      }
+    }
+    return row;
+  });
+
+  if (errors.length > 0) {
+    throw new BatchManifestException(errors);
+  }
+  return rows;
+}
+
+// Undefined unless `value` is a string of URLs or an array of strings
+function mediaUrlsOf(value: unknown): string[] | undefined {
+  if (
+    value != null &&
+    typeof value !== 'string' &&
+    !(Array.isArray(value) && value.every((url) => typeof url === 'string'))
+  ) {
+    return undefined;
+  }
+  try {
+    const urls = parseUrlList(value ?? undefined);
+    return urls.every((url) => typeof url === 'string') ? urls : undefined;
+  } catch {
+    // A string that looks like a JSON array but is not one
+    return undefined;
+  }
+}
@@ -0,0 +1,47 @@
+import { PostOrigin } from '../history/post-attempt.interface';
+
+// `scheduled` rows have a publish time and belong to a scheduled post
+export type BatchRowStatus =
+  | 'queued'
+  | 'running'
+  | 'scheduled'
+  | 'posted'
+  | 'failed';
+
+// `waiting` batches only have scheduled rows left
+export type BatchStatus = 'running' | 'waiting' | 'done' | 'failed';
+
+// One row of a manifest, as checked before the batch is accepted
+export interface BatchRowInput {
+  mediaUrls: string[];
+  tweetText?: string;
+  replyToTweetId?: string;
+  publishAt?: string;
+  account?: string;
+}
+
+export interface BatchRow extends BatchRowInput {
+  // Position in the manifest, from 0
+  index: number;
+  status: BatchRowStatus;
+  tweetId?: string;
+  scheduledPostId?: string;
+  error?: string;
+  errorCode?: string;
+  // Posting attempts, rate-limited ones included
+  attempts: number;
+  finishedAt?: string;
+}
+
+export interface Batch {
+  id: string;
+  status: BatchStatus;
+  rows: BatchRow[];
+  // Rows per status
+  counts: Partial<Record<BatchRowStatus, number>>;
+  origin?: PostOrigin;
+  // Set while rows wait for an exhausted Twitter rate limit to reset
+  pausedUntil?: string;
+  createdAt: string;
+  updatedAt: string;
+}
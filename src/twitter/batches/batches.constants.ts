@@ -0,0 +1 @@
+export const BATCH_STORE = 'BATCH_STORE';
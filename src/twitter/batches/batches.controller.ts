@@ -0,0 +1,212 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+  UploadedFile,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileInterceptor } from '@nestjs/platform-express';
+import * as fs from 'fs';
+import { TwitterAccountsService } from '../accounts/twitter-accounts.service';
+import { ApiAccessService } from '../auth/api-access.service';
+import { ApiRequest } from '../auth/api-client.interface';
+import { PostReservation } from '../auth/api-usage-record.interface';
+import { RequireScope } from '../auth/require-scope.decorator';
+import { MediaDownloaderService } from '../downloads/media-downloader.service';
+import { postOriginOf } from '../history/post-origin';
+import { DiscardUploadsInterceptor } from '../media/discard-uploads.interceptor';
+import { assertValidMediaSet } from '../media/media-set';
+import { MulterFile } from '../media/uploaded-file';
+import { assertTweetTextFits } from '../text/tweet-text';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import {
+  BatchManifestException,
+  batchRowsOf,
+  BatchRowError,
+  parseBatchManifest,
+} from './batch-manifest';
+import { Batch, BatchRowInput } from './batch.interface';
+import { BatchesService } from './batches.service';
+
+interface BatchAccepted {
+  batchId: string;
+  status: Batch['status'];
+  rows: number;
+}
+
+@Controller('twitter/batch')
+@RequireScope('upload')
+export class BatchesController {
+  constructor(
+    private readonly batches: BatchesService,
+    private readonly accounts: TwitterAccountsService,
+    private readonly downloader: MediaDownloaderService,
+    private readonly apiAccess: ApiAccessService,
+    private readonly webhooks: WebhooksService,
+  ) {}
+
+  // The manifest is a `manifest` file (.csv or .json), `rows` or `csv`
+  @Post()
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(FileInterceptor('manifest'), DiscardUploadsInterceptor)
+  async create(
+    @Req() request: ApiRequest,
+    @UploadedFile() file?: MulterFile,
+    @Body('rows') rows?: unknown,
+    @Body('csv') csv?: string,
+    @Body('callbackUrl') callbackUrl?: string,
+  ): Promise<BatchAccepted> {
+    const inputs = await this.readManifest(file, rows, csv);
+    const callback = await this.webhooks.assertCallbackUrl(callbackUrl);
+    const reservation = await this.checkRows(request, inputs);
+
+    try {
+      const batch = await this.batches.create(
+        inputs,
+        postOriginOf(request, callback),
+      );
+      return { batchId: batch.id, status: batch.status, rows: inputs.length };
+    } catch (error) {
+      // A batch that could not be created posts and schedules nothing
+      await this.apiAccess.refundPosts(reservation);
+      throw error;
+    }
+  }
+
+  @Get(':id')
+  get(@Req() request: ApiRequest, @Param('id') id: string): Promise<Batch> {
+    return this.getOwned(request, id);
+  }
+
+  @Get(':id/results.csv')
+  @Header('Content-Type', 'text/csv; charset=utf-8')
+  @Header('Content-Disposition', 'attachment; filename="batch-results.csv"')
+  async results(
+    @Req() request: ApiRequest,
+    @Param('id') id: string,
+  ): Promise<string> {
+    await this.getOwned(request, id);
+    return this.batches.results(id);
+  }
+
+  // Posted rows are left alone; the others count against the quotas again
+  @Post(':id/retry')
+  @HttpCode(HttpStatus.ACCEPTED)
+  async retry(
+    @Req() request: ApiRequest,
+    @Param('id') id: string,
+  ): Promise<Batch> {
+    await this.getOwned(request, id);
+    let reservation: PostReservation | undefined;
+    try {
+      // Only the rows this retry picks up; getOwned checked every account
+      // and the quota is one per key
+      return await this.batches.retry(id, async (rows) => {
+        reservation = await this.apiAccess.authorizePosts(
+          request,
+          rows[0].account,
+          rows.length,
+        );
+      });
+    } catch (error) {
+      await this.apiAccess.refundPosts(reservation);
+      throw error;
+    }
+  }
+
+  // A batch belongs to every account one of its rows posts as
+  private async getOwned(request: ApiRequest, id: string): Promise<Batch> {
+    const batch = await this.batches.get(id);
+    for (const account of new Set(batch.rows.map((row) => row.account))) {
+      this.apiAccess.assertAccount(request, account);
+    }
+    return batch;
+  }
+
+  private async readManifest(
+    file: MulterFile | undefined,
+    rows: unknown,
+    csv: string | undefined,
+  ): Promise<BatchRowInput[]> {
+    if (file) {
+      const json =
+        file.originalname.toLowerCase().endsWith('.json') ||
+        file.mimetype.includes('json');
+      const content = await fs.promises.readFile(file.path, 'utf8');
+      return parseBatchManifest(content, json ? 'json' : 'csv');
+    }
+    if (rows !== undefined) {
+      return batchRowsOf(rows);
+    }
+    if (csv) {
+      return parseBatchManifest(csv, 'csv');
+    }
+    throw new BadRequestException(
+      'A manifest file, rows or csv must be provided',
+    );
+  }
+
+  /**
+   * Checks every row before anything is posted and rejects the manifest
+   * with all problems at once, then counts the rows against the quotas.
+   */
+  private async checkRows(
+    request: ApiRequest,
+    inputs: BatchRowInput[],
+  ): Promise<PostReservation | undefined> {
+    const errors: BatchRowError[] = [];
+
+    for (const [row, input] of inputs.entries()) {
+      try {
+        if (input.mediaUrls.length === 0 && !input.tweetText) {
+          throw new Error('A row needs media URLs or a caption');
+        }
+        if (input.mediaUrls.length > 0) {
+          assertValidMediaSet(input.mediaUrls.map((source) => ({ source })));
+        }
+        if (input.tweetText !== undefined) {
+          assertTweetTextFits(input.tweetText);
+        }
+        if (input.replyToTweetId && !/^\d+$/.test(input.replyToTweetId)) {
+          throw new Error(`Invalid reply target: ${input.replyToTweetId}`);
+        }
+        if (input.publishAt !== undefined) {
+          const timestamp = Date.parse(input.publishAt);
+          if (Number.isNaN(timestamp)) {
+            throw new Error('publishAt must be a valid ISO 8601 timestamp');
+          }
+          input.publishAt = new Date(timestamp).toISOString();
+        }
+        this.accounts.resolve(input.account);
+        this.apiAccess.assertAccount(request, input.account);
+        await this.downloader.assertAllowedUrls(input.mediaUrls);
+      } catch (error) {
+        errors.push({
+          row,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new BatchManifestException(errors);
+    }
+    if (request.apiClient && inputs.some((input) => input.publishAt)) {
+      this.apiAccess.assertScope(request.apiClient, 'schedule');
+    }
+    // Every account was checked above; the quota is one per key, so the
+    // rows are reserved at once or not at all
+    return this.apiAccess.authorizePosts(
+      request,
+      inputs[0].account,
+      inputs.length,
+    );
+  }
+}
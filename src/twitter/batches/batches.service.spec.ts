@@ -0,0 +1,239 @@
+import { ConfigService } from '@nestjs/config';
+import { RateLimitExhaustedError } from '../errors/uploader-errors';
+import { PostHistoryService } from '../history/post-history.service';
+import { ScheduledPostsService } from '../scheduling/scheduled-posts.service';
+import { InMemoryRecordStore } from '../storage/memory-record.store';
+import { TwitterVideoUploaderService } from '../twitter-video-uploader.service';
+import { Batch } from './batch.interface';
+import { BatchesService } from './batches.service';
+
+// Runs the post without recording it
+const history = {
+  record: (_context: unknown, run: (onProgress: () => void) => unknown) =>
+    run(() => undefined),
+} as unknown as PostHistoryService;
+
+describe('BatchesService', () => {
+  let createTweet: jest.Mock;
+  let uploadToTwitter: jest.Mock;
+  let schedule: jest.Mock;
+  let cancel: jest.Mock;
+  let scheduledPosts: ScheduledPostsService;
+  let store: InMemoryRecordStore<Batch>;
+  let service: BatchesService;
+  let nextId: number;
+
+  // Lets the queue work until the batch has no queued or running rows
+  const settled = async (id: string): Promise<Batch> => {
+    for (;;) {
+      const batch = await service.get(id);
+      if (batch.status !== 'running') {
+        return batch;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 1));
+    }
+  };
+
+  beforeEach(() => {
+    nextId = 100;
+    createTweet = jest.fn(async () => ({ data: { id: String(nextId++) } }));
+    uploadToTwitter = jest.fn(async () => ({ data: { id: String(nextId++) } }));
+    schedule = jest.fn(async () => ({ id: 'scheduled-1' }));
+    cancel = jest.fn(async () => undefined);
+    scheduledPosts = {
+      schedule,
+      cancel,
+      get: async () => ({ status: 'pending', runs: [] }),
+    } as unknown as ScheduledPostsService;
+    store = new InMemoryRecordStore<Batch>();
+    service = new BatchesService(
+      store,
+      {
+        createTweet,
+        uploadToTwitter,
+      } as unknown as TwitterVideoUploaderService,
+      scheduledPosts,
+      new ConfigService({ twitter: { batches: { concurrency: 2 } } }),
+      history,
+    );
+  });
+
+  afterEach(() => service.onModuleDestroy());
+
+  it('posts rows now or schedules them and reports each row', async () => {
+    const { id } = await service.create([
+      { mediaUrls: ['https://x.test/a.mp4'], tweetText: 'one' },
+      { mediaUrls: [], tweetText: 'two', account: 'brand-a' },
+      {
+        mediaUrls: ['https://x.test/b.jpg'],
+        publishAt: '2030-01-01T09:00:00.000Z',
+      },
+    ]);
+
+    const batch = await settled(id);
+    expect(batch).toMatchObject({
+      status: 'waiting',
+      counts: { posted: 2, scheduled: 1 },
+    });
+    expect(uploadToTwitter).toHaveBeenCalledWith(
+      [{ source: 'https://x.test/a.mp4' }],
+      expect.objectContaining({ tweetText: 'one' }),
+    );
+    expect(createTweet).toHaveBeenCalledWith([], 'two', undefined, 'brand-a');
+    expect(schedule).toHaveBeenCalledWith(
+      expect.objectContaining({
+        publishAt: '2030-01-01T09:00:00.000Z',
+        media: [{ source: 'https://x.test/b.jpg', owned: false }],
+      }),
+    );
+
+    const lines = (await service.results(id)).split('\r\n');
+    expect(lines[0]).toBe(
+      'row,status,tweetId,scheduledPostId,publishAt,account,mediaUrls,error,errorCode',
+    );
+    expect(lines[3]).toBe(
+      '2,scheduled,,scheduled-1,2030-01-01T09:00:00.000Z,,https://x.test/b.jpg,,',
+    );
+  });
+
+  it('cancels the posts it scheduled when a batch cannot be created', async () => {
+    schedule
+      .mockResolvedValueOnce({ id: 'scheduled-1' })
+      .mockRejectedValueOnce(new Error('disk full'));
+
+    await expect(
+      service.create([
+        { mediaUrls: [], tweetText: 'one', publishAt: '2030-01-01T09:00:00Z' },
+        { mediaUrls: [], tweetText: 'two', publishAt: '2030-01-02T09:00:00Z' },
+      ]),
+    ).rejects.toThrow('disk full');
+
+    expect(cancel).toHaveBeenCalledTimes(1);
+    expect(cancel).toHaveBeenCalledWith('scheduled-1');
+  });
+
+  it('waits out an exhausted rate limit instead of failing the row', async () => {
+    createTweet.mockRejectedValueOnce(
+      new RateLimitExhaustedError('Rate limit exhausted', 0),
+    );
+
+    const { id } = await service.create([{ mediaUrls: [], tweetText: 'one' }]);
+
+    const batch = await settled(id);
+    expect(batch.status).toBe('done');
+    expect(batch.rows[0]).toMatchObject({
+      status: 'posted',
+      tweetId: '100',
+      attempts: 2,
+    });
+  });
+
+  it('retries only the rows that failed', async () => {
+    createTweet
+      .mockImplementationOnce(async () => ({ data: { id: '1' } }))
+      .mockRejectedValueOnce(new Error('Twitter is down'));
+
+    const { id } = await service.create([
+      { mediaUrls: [], tweetText: 'one' },
+      { mediaUrls: [], tweetText: 'two' },
+    ]);
+    const failed = await settled(id);
+    expect(failed.status).toBe('failed');
+    expect(failed.rows[1]).toMatchObject({
+      status: 'failed',
+      error: 'Twitter is down',
+    });
+
+    await service.retry(id);
+    const batch = await settled(id);
+    expect(batch.status).toBe('done');
+    expect(batch.rows.map((row) => row.tweetId)).toEqual(['1', '100']);
+    expect(createTweet).toHaveBeenCalledTimes(3);
+  });
+
+  it('lets one of two concurrent retries pick up the failed rows', async () => {
+    createTweet.mockRejectedValueOnce(new Error('Twitter is down'));
+    const { id } = await service.create([{ mediaUrls: [], tweetText: 'one' }]);
+    await settled(id);
+
+    const authorize = jest.fn(async () => undefined);
+    await Promise.all([
+      service.retry(id, authorize),
+      service.retry(id, authorize),
+    ]);
+
+    expect(authorize).toHaveBeenCalledTimes(1);
+    expect(authorize).toHaveBeenCalledWith([
+      expect.objectContaining({ index: 0, tweetText: 'one' }),
+    ]);
+    expect((await settled(id)).status).toBe('done');
+    expect(createTweet).toHaveBeenCalledTimes(2);
+  });
+
+  it('schedules retried rows again while their publish time is ahead', async () => {
+    const { id } = await service.create([
+      {
+        mediaUrls: [],
+        tweetText: 'later',
+        publishAt: '2030-01-01T09:00:00.000Z',
+      },
+    ]);
+    // The scheduled post failed, e.g. its media could not be uploaded
+    jest.spyOn(scheduledPosts, 'get').mockResolvedValueOnce({
+      status: 'failed',
+      runs: [{ error: 'Upload failed' }],
+    } as any);
+    expect((await service.get(id)).rows[0].status).toBe('failed');
+    schedule.mockResolvedValueOnce({ id: 'scheduled-2' });
+
+    const batch = await service.retry(id);
+
+    expect(batch.rows[0]).toMatchObject({
+      status: 'scheduled',
+      scheduledPostId: 'scheduled-2',
+      publishAt: '2030-01-01T09:00:00.000Z',
+    });
+    expect(schedule).toHaveBeenCalledTimes(2);
+    expect(createTweet).not.toHaveBeenCalled();
+  });
+
+  it('fails rows cut off by a restart and picks up queued ones', async () => {
+    const now = new Date().toISOString();
+    await store.save({
+      id: 'left-over',
+      status: 'running',
+      rows: [
+        {
+          index: 0,
+          mediaUrls: [],
+          tweetText: 'mid-flight',
+          status: 'running',
+          attempts: 1,
+        },
+        {
+          index: 1,
+          mediaUrls: [],
+          tweetText: 'waiting',
+          status: 'queued',
+          attempts: 0,
+        },
+      ],
+      counts: { running: 1, queued: 1 },
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    await service.onModuleInit();
+    const batch = await settled('left-over');
+
+    expect(batch.rows.map((row) => row.status)).toEqual(['failed', 'posted']);
+    expect(batch.rows[0]).toMatchObject({ errorCode: 'outcome_unknown' });
+    expect(createTweet).toHaveBeenCalledTimes(1);
+    expect(createTweet).toHaveBeenCalledWith(
+      [],
+      'waiting',
+      undefined,
+      undefined,
+    );
+  });
+});
@@ -0,0 +1,492 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import { KeyedLock } from '../concurrency/keyed-lock';
+import {
+  errorCodeOf,
+  PostOutcomeUnknownError,
+  RateLimitExhaustedError,
+} from '../errors/uploader-errors';
+import { PostOrigin } from '../history/post-attempt.interface';
+import { PostHistoryService } from '../history/post-history.service';
+import { MediaSetUploadError } from '../media/media-set';
+import { ScheduledPostsService } from '../scheduling/scheduled-posts.service';
+import { RecordStore } from '../storage/record-store';
+import {
+  tweetIdOf,
+  TwitterVideoUploaderService,
+} from '../twitter-video-uploader.service';
+import { toCsv } from './batch-manifest';
+import {
+  Batch,
+  BatchRow,
+  BatchRowInput,
+  BatchRowStatus,
+} from './batch.interface';
+import { BATCH_STORE } from './batches.constants';
+
+// Rate-limited rows are put back this often before they count as failed
+const MAX_ROW_ATTEMPTS = 5;
+// For rate limits that did not say when they reset
+const DEFAULT_PAUSE_SECS = 60;
+
+const isQueued = (row: BatchRow) => row.status === 'queued';
+
+const RESULT_COLUMNS = [
+  'row',
+  'status',
+  'tweetId',
+  'scheduledPostId',
+  'publishAt',
+  'account',
+  'mediaUrls',
+  'error',
+  'errorCode',
+];
+
+/**
+ * Posts the rows of a manifest. Rows with a publish time become scheduled
+ * posts; the others are posted a few at a time, and a batch whose rows hit
+ * an exhausted Twitter rate limit waits for it to reset. Posted rows are
+ * never posted again, retries only pick up failed ones.
+ */
+@Injectable()
+export class BatchesService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(BatchesService.name);
+  private readonly concurrency: number;
+  // Batches with queued or running rows; their rows are updated in place
+  private readonly active = new Map<string, Batch>();
+  private readonly pending: { batchId: string; index: number }[] = [];
+  private readonly running = new Map<string, AbortController>();
+  // Serializes retries of each batch
+  private readonly locks = new KeyedLock();
+  private resumeTimer?: NodeJS.Timeout;
+  private shuttingDown = false;
+
+  constructor(
+    @Inject(BATCH_STORE) private readonly store: RecordStore<Batch>,
+    private readonly twitterService: TwitterVideoUploaderService,
+    private readonly scheduledPosts: ScheduledPostsService,
+    configService: ConfigService,
+    private readonly history: PostHistoryService,
+  ) {
+    this.concurrency = Math.max(
+      1,
+      configService.get<number>('twitter.batches.concurrency') ?? 2,
+    );
+  }
+
+  async onModuleInit(): Promise<void> {
+    // Queued rows are picked up again. Rows that were mid-flight when the
+    // process stopped may have posted already, so they fail and are left
+    // to a retry.
+    for (const batch of await this.store.list()) {
+      const interrupted = batch.rows.filter((row) => row.status === 'running');
+      if (interrupted.length === 0 && !batch.rows.some(isQueued)) {
+        continue;
+      }
+
+      const error = new PostOutcomeUnknownError(
+        'Interrupted by a service restart; the tweet may already exist',
+      );
+      for (const row of interrupted) {
+        Object.assign(row, {
+          status: 'failed',
+          error: error.message,
+          errorCode: error.code,
+          finishedAt: new Date().toISOString(),
+        });
+      }
+      await this.save(batch);
+      this.enqueue(batch, batch.rows.filter(isQueued));
+    }
+  }
+
+  onModuleDestroy(): void {
+    // Leave running rows marked as running; a restart fails them
+    this.shuttingDown = true;
+    clearTimeout(this.resumeTimer);
+    for (const controller of this.running.values()) {
+      controller.abort();
+    }
+  }
+
+  async create(rows: BatchRowInput[], origin?: PostOrigin): Promise<Batch> {
+    const now = new Date().toISOString();
+    const batch: Batch = {
+      id: randomUUID(),
+      status: 'running',
+      rows: rows.map((row, index) => ({
+        ...row,
+        index,
+        status: 'queued',
+        attempts: 0,
+      })),
+      counts: {},
+      origin,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    const postIds = await this.schedulePosts(
+      batch,
+      batch.rows.filter((row) => row.publishAt),
+    );
+    for (const [row, postId] of postIds) {
+      row.status = 'scheduled';
+      row.scheduledPostId = postId;
+    }
+    try {
+      await this.save(batch);
+    } catch (error) {
+      await this.cancelPosts(postIds);
+      throw error;
+    }
+    this.enqueue(
+      batch,
+      batch.rows.filter((row) => row.status === 'queued'),
+    );
+    return batch;
+  }
+
+  /** The batch, with its scheduled rows brought up to date. */
+  async get(id: string): Promise<Batch> {
+    const batch = this.active.get(id) ?? (await this.store.get(id));
+    if (!batch) {
+      throw new NotFoundException(`Batch ${id} not found`);
+    }
+
+    let changed = false;
+    for (const row of batch.rows) {
+      if (row.status === 'scheduled') {
+        changed = (await this.syncScheduledRow(row)) || changed;
+      }
+    }
+    if (changed) {
+      await this.save(batch);
+    }
+    return batch;
+  }
+
+  /**
+   * Queues the failed rows again, or schedules them again if their publish
+   * time is still ahead. `authorize` is called with those rows first, under
+   * the batch's lock, so concurrent retries cannot both pick them up.
+   */
+  async retry(
+    id: string,
+    authorize: (rows: BatchRow[]) => Promise<void> = async () => undefined,
+  ): Promise<Batch> {
+    return this.locks.run(id, async () => {
+      const batch = await this.get(id);
+      const failed = batch.rows.filter((row) => row.status === 'failed');
+      if (failed.length === 0) {
+        return batch;
+      }
+      await authorize(failed);
+
+      const now = Date.now();
+      const postIds = await this.schedulePosts(
+        batch,
+        failed.filter(
+          (row) => row.publishAt && Date.parse(row.publishAt) > now,
+        ),
+      );
+      for (const row of failed) {
+        Object.assign(row, {
+          status: postIds.has(row) ? 'scheduled' : 'queued',
+          attempts: 0,
+          error: undefined,
+          errorCode: undefined,
+          scheduledPostId: postIds.get(row),
+          finishedAt: undefined,
+        });
+      }
+      try {
+        await this.save(batch);
+      } catch (error) {
+        await this.cancelPosts(postIds);
+        throw error;
+      }
+      this.enqueue(batch, failed.filter(isQueued));
+      return batch;
+    });
+  }
+
+  /** One line per row, for spreadsheets. */
+  async results(id: string): Promise<string> {
+    const batch = await this.get(id);
+    return toCsv([
+      RESULT_COLUMNS,
+      ...batch.rows.map((row) => [
+        row.index,
+        row.status,
+        row.tweetId,
+        row.scheduledPostId,
+        row.publishAt,
+        row.account,
+        row.mediaUrls.join(' '),
+        row.error,
+        row.errorCode,
+      ]),
+    ]);
+  }
+
+  private enqueue(batch: Batch, rows: BatchRow[]): void {
+    if (rows.length === 0) {
+      return;
+    }
+    this.active.set(batch.id, batch);
+    for (const row of rows) {
+      this.pending.push({ batchId: batch.id, index: row.index });
+    }
+    this.drain();
+  }
+
+  private drain(): void {
+    while (!this.shuttingDown && this.running.size < this.concurrency) {
+      const now = Date.now();
+      const next = this.pending.findIndex(
+        ({ batchId }) => !this.isPaused(this.active.get(batchId)!, now),
+      );
+      if (next === -1) {
+        break;
+      }
+
+      const [{ batchId, index }] = this.pending.splice(next, 1);
+      const batch = this.active.get(batchId)!;
+      const key = `${batchId}:${index}`;
+      const controller = new AbortController();
+      this.running.set(key, controller);
+
+      this.runRow(batch, batch.rows[index], controller)
+        .catch((error) =>
+          this.logger.error(`Batch ${batchId} row ${index} crashed`, error),
+        )
+        .finally(() => {
+          this.running.delete(key);
+          this.drain();
+        });
+    }
+    this.scheduleResume();
+  }
+
+  private isPaused(batch: Batch, now: number): boolean {
+    return !!batch.pausedUntil && Date.parse(batch.pausedUntil) > now;
+  }
+
+  // Wakes the queue when the earliest paused batch may go on
+  private scheduleResume(): void {
+    clearTimeout(this.resumeTimer);
+    const resumeAt = Math.min(
+      ...this.pending
+        .map(({ batchId }) =>
+          Date.parse(this.active.get(batchId)!.pausedUntil ?? ''),
+        )
+        .filter((time) => !Number.isNaN(time)),
+    );
+    if (this.shuttingDown || !Number.isFinite(resumeAt)) {
+      return;
+    }
+    this.resumeTimer = setTimeout(
+      () => this.drain(),
+      Math.max(0, resumeAt - Date.now()),
+    );
+    this.resumeTimer.unref();
+  }
+
+  private async runRow(
+    batch: Batch,
+    row: BatchRow,
+    controller: AbortController,
+  ): Promise<void> {
+    await this.updateRow(batch, row, {
+      status: 'running',
+      attempts: row.attempts + 1,
+    });
+    const { signal } = controller;
+
+    try {
+      const response = await this.history.record(
+        {
+          ...batch.origin,
+          kind: 'batch',
+          sourceId: batch.id,
+          account: row.account,
+          media: row.mediaUrls.map((source) => ({ source, owned: false })),
+          signal,
+        },
+        (onProgress) =>
+          row.mediaUrls.length > 0
+            ? this.twitterService.uploadToTwitter(
+                row.mediaUrls.map((source) => ({ source })),
+                {
+                  tweetText: row.tweetText,
+                  replyToTweetId: row.replyToTweetId,
+                  account: row.account,
+                  signal,
+                  onProgress,
+                },
+              )
+            : this.twitterService.createTweet(
+                [],
+                row.tweetText,
+                row.replyToTweetId,
+                row.account,
+              ),
+      );
+
+      await this.updateRow(batch, row, {
+        status: 'posted',
+        tweetId: tweetIdOf(response),
+        error: undefined,
+        errorCode: undefined,
+        finishedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      if (signal.aborted) {
+        return;
+      }
+
+      const cause =
+        error instanceof MediaSetUploadError ? error.originalError : error;
+      const message = error instanceof Error ? error.message : 'Post failed';
+      if (
+        cause instanceof RateLimitExhaustedError &&
+        row.attempts < MAX_ROW_ATTEMPTS
+      ) {
+        const pausedUntil =
+          Date.now() + (cause.retryAfterSecs ?? DEFAULT_PAUSE_SECS) * 1000;
+        this.logger.warn(
+          `Batch ${batch.id} is rate limited; pausing until ${new Date(pausedUntil).toISOString()}`,
+        );
+        batch.pausedUntil = new Date(
+          Math.max(pausedUntil, Date.parse(batch.pausedUntil ?? '') || 0),
+        ).toISOString();
+        await this.updateRow(batch, row, {
+          status: 'queued',
+          error: message,
+          errorCode: errorCodeOf(error),
+        });
+        this.pending.push({ batchId: batch.id, index: row.index });
+        return;
+      }
+
+      await this.updateRow(batch, row, {
+        status: 'failed',
+        error: message,
+        errorCode: errorCodeOf(error),
+        finishedAt: new Date().toISOString(),
+      });
+    }
+  }
+
+  /**
+   * Schedules a post per row and returns their ids. If one cannot be
+   * scheduled, the ones before it are cancelled again.
+   */
+  private async schedulePosts(
+    batch: Batch,
+    rows: BatchRow[],
+  ): Promise<Map<BatchRow, string>> {
+    const postIds = new Map<BatchRow, string>();
+    try {
+      for (const row of rows) {
+        const post = await this.scheduledPosts.schedule({
+          publishAt: row.publishAt!,
+          media: row.mediaUrls.map((source) => ({ source, owned: false })),
+          tweetText: row.tweetText,
+          replyToTweetId: row.replyToTweetId,
+          account: row.account,
+          origin: batch.origin,
+        });
+        postIds.set(row, post.id);
+      }
+    } catch (error) {
+      await this.cancelPosts(postIds);
+      throw error;
+    }
+    return postIds;
+  }
+
+  // No batch row refers to these posts; they must not publish
+  private async cancelPosts(postIds: Map<BatchRow, string>): Promise<void> {
+    for (const postId of postIds.values()) {
+      await this.scheduledPosts
+        .cancel(postId)
+        .catch((cancelError) =>
+          this.logger.error(
+            `Failed to cancel scheduled post ${postId} of a batch`,
+            cancelError,
+          ),
+        );
+    }
+  }
+
+  // True when the row changed
+  private async syncScheduledRow(row: BatchRow): Promise<boolean> {
+    const post = await this.scheduledPosts
+      .get(row.scheduledPostId!)
+      .catch(() => undefined);
+
+    if (post?.status === 'published') {
+      Object.assign(row, {
+        status: 'posted',
+        tweetId: post.tweetId,
+        finishedAt: post.updatedAt,
+      });
+      return true;
+    }
+    if (!post || ['failed', 'missed', 'cancelled'].includes(post.status)) {
+      const lastRun = post?.runs[post.runs.length - 1];
+      Object.assign(row, {
+        status: 'failed',
+        error:
+          lastRun?.error ??
+          `Scheduled post ${post ? `was ${post.status}` : 'no longer exists'}`,
+        finishedAt: post?.updatedAt ?? new Date().toISOString(),
+      });
+      return true;
+    }
+    return false;
+  }
+
+  private async updateRow(
+    batch: Batch,
+    row: BatchRow,
+    changes: Partial<BatchRow>,
+  ): Promise<void> {
+    Object.assign(row, changes);
+    await this.save(batch);
+  }
+
+  private async save(batch: Batch): Promise<void> {
+    const counts: Partial<Record<BatchRowStatus, number>> = {};
+    for (const row of batch.rows) {
+      counts[row.status] = (counts[row.status] ?? 0) + 1;
+    }
+
+    batch.counts = counts;
+    batch.status =
+      counts.queued || counts.running
+        ? 'running'
+        : counts.scheduled
+          ? 'waiting'
+          : counts.failed
+            ? 'failed'
+            : 'done';
+    if (batch.status !== 'running') {
+      batch.pausedUntil = undefined;
+      this.active.delete(batch.id);
+    }
+    batch.updatedAt = new Date().toISOString();
+    await this.store.save(batch);
+  }
+}
@@ -0,0 +1,9 @@
+// What Twitter last reported in x-rate-limit-* for one endpoint and account
+export interface RateLimitBudget {
+  // `<METHOD> <path>`, e.g. `POST /1.1/media/upload.json`
+  endpoint: string;
+  account: string;
+  limit: number;
+  remaining: number;
+  resetAt: string;
+}
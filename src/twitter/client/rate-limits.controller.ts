@@ -0,0 +1,16 @@
+import { Controller, Get } from '@nestjs/common';
+import { RequireScope } from '../auth/require-scope.decorator';
+import { RateLimitBudget } from './rate-limit-budget.interface';
+import { TwitterClient } from './twitter-client.service';
+
+@Controller('twitter/rate-limits')
+@RequireScope('admin')
+export class RateLimitsController {
+  constructor(private readonly twitter: TwitterClient) {}
+
+  // Endpoints appear once Twitter has answered a request to them
+  @Get()
+  list(): { budgets: RateLimitBudget[] } {
+    return { budgets: this.twitter.listBudgets() };
+  }
+}
@@ -0,0 +1,298 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosError, AxiosInstance, AxiosResponse } from 'axios';
+import * as crypto from 'crypto';
+import * as OAuth from 'oauth-1.0a';
+import { TwitterAccountsService } from '../accounts/twitter-accounts.service';
+import { delay } from '../concurrency/delay';
+import { PlannedRequest } from '../dry-run/upload-plan';
+import {
+  RateLimitExhaustedError,
+  SandboxModeError,
+} from '../errors/uploader-errors';
+import { RateLimitBudget } from './rate-limit-budget.interface';
+
+export const RETRYABLE_STATUS_CODES = [
+  429, // Too Many Requests
+  500, // Internal Server Error
+  502, // Bad Gateway
+  503, // Service Unavailable
+  504, // Gateway Timeout
+];
+
+export interface TwitterRequest {
+  method: 'GET' | 'POST' | 'DELETE';
+  url: string;
+  // Named account to sign with; the default account when omitted
+  account?: string;
+  // Query or form fields; both are part of the OAuth 1.0a signature
+  params?: Record<string, string | number>;
+  form?: Record<string, string | number>;
+  // JSON and multipart bodies are not signed
+  json?: object;
+  multipart?: FormData;
+  signal?: AbortSignal;
+  // False for requests that must not be repeated after a network error or
+  // 5xx, e.g. creating a tweet; rate limited (429) requests are still retried
+  idempotent?: boolean;
+}
+
+interface Budget {
+  limit: number;
+  remaining: number;
+  // Epoch milliseconds
+  resetAt: number;
+}
+
+/**
+ * The one way to call Twitter: signs requests for a named account, keeps
+ * the x-rate-limit-* budget of every endpoint and account, holds requests
+ * back while a budget is exhausted and retries failures a bounded number
+ * of times. Rejects with the AxiosError of the last attempt, or with a
+ * RateLimitExhaustedError when a budget resets, or Retry-After asks to wait,
+ * too far in the future.
+ * In sandbox mode only GET requests are sent.
+ */
+@Injectable()
+export class TwitterClient {
+  private readonly logger = new Logger(TwitterClient.name);
+  private readonly oauth: OAuth;
+  private readonly http: AxiosInstance;
+  private readonly maxRetries: number;
+  private readonly maxRateLimitWaitMs: number;
+  private readonly sandbox: boolean;
+  private readonly budgets = new Map<string, Budget>();
+
+  constructor(
+    configService: ConfigService,
+    private readonly accounts: TwitterAccountsService,
+  ) {
+    const consumerKey = configService.get<string>('twitter.consumerKey');
+    const consumerSecret = configService.get<string>('twitter.consumerSecret');
+    if (!consumerKey || !consumerSecret) {
+      throw new Error(
+        `Missing credential: twitter.${consumerKey ? 'consumerSecret' : 'consumerKey'}`,
+      );
+    }
+
+    this.oauth = new OAuth({
+      consumer: { key: consumerKey, secret: consumerSecret },
+      signature_method: 'HMAC-SHA1',
+      hash_function: (baseString: string, key: string) =>
+        crypto.createHmac('sha1', key).update(baseString).digest('base64'),
+    });
+    this.http = axios.create({
+      timeout: configService.get<number>('twitter.client.timeoutMs') ?? 30000,
+    });
+    this.maxRetries =
+      configService.get<number>('twitter.client.maxRetries') ?? 3;
+    this.maxRateLimitWaitMs =
+      configService.get<number>('twitter.client.maxRateLimitWaitMs') ??
+      15 * 60 * 1000;
+    this.sandbox = configService.get<boolean>('twitter.sandbox') ?? false;
+  }
+
+  /** Sends a request and returns the response body. */
+  async request<T = any>(request: TwitterRequest): Promise<T> {
+    const { method, url, signal, idempotent = true } = request;
+    if (this.sandbox && method !== 'GET') {
+      throw new SandboxModeError(
+        `Sandbox mode is on; ${method} ${new URL(url).pathname} was not sent`,
+      );
+    }
+    const account = request.account || this.accounts.list().defaultAccount;
+    const token = this.tokenFor(account);
+    const key = this.budgetKey(account, method, url);
+
+    for (let attempt = 0; ; attempt++) {
+      signal?.throwIfAborted();
+      await this.awaitBudget(key, signal);
+
+      try {
+        const response = await this.http.request<T>({
+          method,
+          url,
+          params: request.params,
+          data: request.form ?? request.json ?? request.multipart,
+          // Signed per attempt: the nonce and timestamp must be fresh
+          headers: this.headersFor(request, token),
+          signal,
+        });
+        this.recordBudget(key, response.headers);
+        return response.data;
+      } catch (error) {
+        signal?.throwIfAborted();
+        if (
+          !axios.isAxiosError(error) ||
+          error.code === AxiosError.ERR_CANCELED
+        ) {
+          throw error;
+        }
+
+        const response = error.response;
+        if (response) {
+          this.recordBudget(key, response.headers);
+        }
+        // Without a response the request may still have reached Twitter
+        const retryable = response
+          ? response.status === 429 ||
+            (idempotent && RETRYABLE_STATUS_CODES.includes(response.status))
+          : idempotent;
+        if (!retryable || attempt >= this.maxRetries) {
+          throw error;
+        }
+
+        const waitTime = this.retryDelay(response, key, attempt);
+        this.logger.warn(
+          `${key} failed (${response?.status ?? error.message}); retry ${attempt + 1}/${this.maxRetries} in ${Math.round(waitTime)}ms`,
+        );
+        await this.delay(waitTime, signal);
+      }
+    }
+  }
+
+  /**
+   * Signs a request without sending it, for dry runs. The signature is
+   * left out of the result so a plan cannot be replayed against Twitter.
+   */
+  sign(request: TwitterRequest): PlannedRequest {
+    const { method, url, params, form, json } = request;
+    const account = request.account || this.accounts.list().defaultAccount;
+    const headers = this.headersFor(request, this.tokenFor(account));
+    headers.Authorization = headers.Authorization.replace(
+      /oauth_signature="[^"]*"/,
+      'oauth_signature="<redacted>"',
+    );
+    return { method, url, headers, params, form, json };
+  }
+
+  /** The last reported budgets, for GET /twitter/rate-limits. */
+  listBudgets(): RateLimitBudget[] {
+    return [...this.budgets.entries()]
+      .map(([key, budget]) => {
+        const [account, endpoint] = key.split('|');
+        return {
+          endpoint,
+          account,
+          limit: budget.limit,
+          remaining: budget.remaining,
+          resetAt: new Date(budget.resetAt).toISOString(),
+        };
+      })
+      .sort(
+        (a, b) =>
+          a.account.localeCompare(b.account) ||
+          a.endpoint.localeCompare(b.endpoint),
+      );
+  }
+
+  private tokenFor(account: string): OAuth.Token {
+    const { accessToken, accessTokenSecret } = this.accounts.resolve(account);
+    return { key: accessToken, secret: accessTokenSecret };
+  }
+
+  // JSON and multipart bodies are not part of the signature
+  private headersFor(
+    request: TwitterRequest,
+    token: OAuth.Token,
+  ): Record<string, string> {
+    const { url, method } = request;
+    return {
+      ...this.oauth.toHeader(
+        this.oauth.authorize(
+          { url, method, data: request.form ?? request.params },
+          token,
+        ),
+      ),
+      ...(request.form && {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      }),
+      ...(request.json && { 'Content-Type': 'application/json' }),
+    };
+  }
+
+  private budgetKey(account: string, method: string, url: string): string {
+    return `${account}|${method} ${new URL(url).pathname}`;
+  }
+
+  /**
+   * Waits for an exhausted budget to reset before sending. Each request
+   * takes a call off the budget up front, so concurrent requests do not
+   * all go out on the last remaining call.
+   */
+  private async awaitBudget(key: string, signal?: AbortSignal): Promise<void> {
+    const budget = this.budgets.get(key);
+    if (!budget) {
+      return;
+    }
+    if (budget.remaining > 0) {
+      budget.remaining--;
+      return;
+    }
+
+    const waitTime = budget.resetAt - Date.now();
+    if (waitTime > this.maxRateLimitWaitMs) {
+      throw new RateLimitExhaustedError(
+        `Twitter rate limit for ${key.replace('|', ' ')} is exhausted until ${new Date(budget.resetAt).toISOString()}`,
+        Math.ceil(waitTime / 1000),
+      );
+    }
+    if (waitTime > 0) {
+      this.logger.warn(
+        `Rate limit for ${key} exhausted; waiting ${Math.round(waitTime)}ms for it to reset`,
+      );
+      await this.delay(waitTime, signal);
+    }
+
+    // The window is over; the next response reports the new one
+    if (this.budgets.get(key) === budget) {
+      this.budgets.delete(key);
+    }
+  }
+
+  private recordBudget(key: string, headers: AxiosResponse['headers']): void {
+    const limit = parseInt(headers['x-rate-limit-limit'], 10);
+    const remaining = parseInt(headers['x-rate-limit-remaining'], 10);
+    const reset = parseInt(headers['x-rate-limit-reset'], 10);
+    if ([limit, remaining, reset].some(Number.isNaN)) {
+      return;
+    }
+    this.budgets.set(key, { limit, remaining, resetAt: reset * 1000 });
+  }
+
+  // Retry-After when Twitter sent one, within maxRateLimitWaitMs like a
+  // budget reset; an exhausted budget is waited for by awaitBudget, so it
+  // needs no extra delay here
+  private retryDelay(
+    response: AxiosResponse | undefined,
+    key: string,
+    attempt: number,
+  ): number {
+    if (response?.status === 429) {
+      const retryAfter = parseInt(response.headers['retry-after'], 10);
+      if (retryAfter * 1000 > this.maxRateLimitWaitMs) {
+        throw new RateLimitExhaustedError(
+          `Twitter rate limit for ${key.replace('|', ' ')} is exhausted for ${retryAfter}s`,
+          retryAfter,
+        );
+      }
+      if (!Number.isNaN(retryAfter)) {
+        return retryAfter * 1000;
+      }
+      if (this.budgets.get(key)?.remaining === 0) {
+        return 0;
+      }
+    }
+    return this.calculateBackoffTime(attempt);
+  }
+
+  // Exponential backoff from 1 second up to 1 minute, with jitter
+  private calculateBackoffTime(attempt: number): number {
+    const delay = Math.min(60000, 1000 * Math.pow(2, Math.min(attempt, 5)));
+    return delay + Math.random() * 0.5 * delay;
+  }
+
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return delay(ms, signal);
+  }
+}
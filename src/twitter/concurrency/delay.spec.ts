@@ -0,0 +1,21 @@
+import { delay } from './delay';
+
+describe('delay', () => {
+  it('removes its abort listener once the time is up', async () => {
+    const controller = new AbortController();
+    const remove = jest.spyOn(controller.signal, 'removeEventListener');
+
+    await delay(1, controller.signal);
+
+    expect(remove).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+
+  it('rejects with the reason of an abort', async () => {
+    const controller = new AbortController();
+    const waiting = delay(60_000, controller.signal);
+
+    controller.abort(new Error('cancelled'));
+
+    await expect(waiting).rejects.toThrow('cancelled');
+  });
+});
@@ -0,0 +1,18 @@
+/**
+ * Resolves after `ms`, or rejects with the signal's reason once aborted.
+ * The abort listener is removed when the time is up, so a long-lived
+ * signal does not collect one per wait.
+ */
+export function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,35 @@
+import { KeyedLock } from './keyed-lock';
+
+describe('KeyedLock', () => {
+  it('runs the tasks of a key in turn, even after a failure', async () => {
+    const lock = new KeyedLock();
+    const order: string[] = [];
+    const task =
+      (name: string, fail = false) =>
+      async () => {
+        order.push(`${name} start`);
+        await new Promise((resolve) => setImmediate(resolve));
+        order.push(`${name} end`);
+        if (fail) throw new Error(name);
+        return name;
+      };
+
+    const results = await Promise.allSettled([
+      lock.run('a', task('first', true)),
+      lock.run('a', task('second')),
+      lock.run('b', task('other')),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual([
+      'rejected',
+      'fulfilled',
+      'fulfilled',
+    ]);
+    expect(order.indexOf('second start')).toBeGreaterThan(
+      order.indexOf('first end'),
+    );
+    expect(order.indexOf('other start')).toBeLessThan(
+      order.indexOf('first end'),
+    );
+  });
+});
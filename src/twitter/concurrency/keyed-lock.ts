@@ -0,0 +1,21 @@
+/**
+ * Runs tasks one at a time per key, e.g. the read-then-write of a record
+ * within this process. Tasks of different keys do not wait for each other.
+ */
+export class KeyedLock {
+  private readonly tails = new Map<string, Promise<unknown>>();
+
+  async run<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.tails.get(key) ?? Promise.resolve();
+    const current = previous.catch(() => undefined).then(task);
+    this.tails.set(key, current);
+
+    try {
+      return await current;
+    } finally {
+      if (this.tails.get(key) === current) {
+        this.tails.delete(key);
+      }
+    }
+  }
+}
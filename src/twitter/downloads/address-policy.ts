@@ -0,0 +1,104 @@
+import { BlockList, isIP } from 'net';
+import { DownloadPolicy } from './download-policy.interface';
+import { DownloadFailedError } from './download-failed.error';
+
+// Addresses a URL from a client must never make the server connect to
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, cloud metadata services
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, broadcast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], // unspecified
+  ['::1', 128], // loopback
+  ['64:ff9b::', 96], // NAT64
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['ff00::', 8], // multicast
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  return (
+    family !== 0 &&
+    BLOCKED_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6')
+  );
+}
+
+// "*.example.com" matches example.com and any of its subdomains
+function matchesHost(hostname: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => {
+    const normalized = pattern.toLowerCase();
+    if (!normalized.startsWith('*.')) {
+      return hostname === normalized;
+    }
+    const domain = normalized.slice(2);
+    return hostname === domain || hostname.endsWith(`.${domain}`);
+  });
+}
+
+/**
+ * Checks a URL's scheme and host against the policy, and its host too when
+ * it is a literal IP. Host names are checked again once resolved.
+ */
+export function assertAllowedUrl(value: string, policy: DownloadPolicy): URL {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new DownloadFailedError('invalid_url', `Invalid media URL ${value}`);
+  }
+
+  const scheme = url.protocol.replace(/:$/, '');
+  if (!policy.allowedSchemes.includes(scheme)) {
+    throw new DownloadFailedError(
+      'scheme_not_allowed',
+      `Media URL scheme ${scheme} is not allowed`,
+    );
+  }
+
+  // Brackets wrap IPv6 literals; a trailing dot still names the same host
+  const hostname = url.hostname
+    .toLowerCase()
+    .replace(/^\[|\]$/g, '')
+    .replace(/\.$/, '');
+  if (
+    matchesHost(hostname, policy.deniedHosts) ||
+    (policy.allowedHosts.length > 0 &&
+      !matchesHost(hostname, policy.allowedHosts))
+  ) {
+    throw new DownloadFailedError(
+      'host_not_allowed',
+      `Media URL host ${hostname} is not allowed`,
+    );
+  }
+
+  assertPublicAddress(hostname, hostname, policy);
+  return url;
+}
+
+export function assertPublicAddress(
+  address: string,
+  hostname: string,
+  policy: DownloadPolicy,
+): void {
+  if (!policy.allowPrivateAddresses && isPrivateAddress(address)) {
+    throw new DownloadFailedError(
+      'private_address',
+      `Media URL host ${hostname} resolves to a private address`,
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { HttpStatus } from '@nestjs/common';
+import { UploaderError } from '../errors/uploader-errors';
+
+export type DownloadFailureReason =
+  | 'invalid_url'
+  | 'scheme_not_allowed'
+  | 'host_not_allowed'
+  | 'private_address'
+  | 'too_many_redirects'
+  | 'too_large'
+  | 'timeout'
+  | 'content_type_not_allowed'
+  | 'unreachable';
+
+const STATUS_BY_REASON: Record<DownloadFailureReason, HttpStatus> = {
+  invalid_url: HttpStatus.BAD_REQUEST,
+  scheme_not_allowed: HttpStatus.BAD_REQUEST,
+  host_not_allowed: HttpStatus.FORBIDDEN,
+  private_address: HttpStatus.FORBIDDEN,
+  too_many_redirects: HttpStatus.BAD_REQUEST,
+  too_large: HttpStatus.PAYLOAD_TOO_LARGE,
+  timeout: HttpStatus.REQUEST_TIMEOUT,
+  content_type_not_allowed: HttpStatus.UNSUPPORTED_MEDIA_TYPE,
+  // The remote server failed or answered with an error status
+  unreachable: HttpStatus.UNPROCESSABLE_ENTITY,
+};
+
+/** A media URL that was refused or could not be fetched within limits. */
+export class DownloadFailedError extends UploaderError {
+  constructor(
+    readonly reason: DownloadFailureReason,
+    message: string,
+  ) {
+    super(`download_${reason}`, STATUS_BY_REASON[reason], message);
+  }
+}
@@ -0,0 +1,12 @@
+export interface DownloadPolicy {
+  allowedSchemes: string[];
+  // Exact host names or "*.example.com"; empty allows any host
+  allowedHosts: string[];
+  deniedHosts: string[];
+  allowPrivateAddresses: boolean;
+  maxRedirects: number;
+  maxBytes: number;
+  timeoutMs: number;
+  // Content-Type prefixes, e.g. "video/"
+  allowedContentTypes: string[];
+}
@@ -0,0 +1,193 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as path from 'path';
+import { buildMp4 } from '../../../test/fake-twitter/media-fixtures';
+import { isPrivateAddress } from './address-policy';
+import { DownloadPolicy } from './download-policy.interface';
+import { MediaDownloaderService } from './media-downloader.service';
+
+describe('MediaDownloaderService', () => {
+  const video = buildMp4(2);
+  const downloaded: string[] = [];
+  let server: http.Server;
+  let origin: string;
+
+  const policy: DownloadPolicy = {
+    allowedSchemes: ['http', 'https'],
+    allowedHosts: [],
+    deniedHosts: ['denied.test'],
+    allowPrivateAddresses: true,
+    maxRedirects: 2,
+    maxBytes: 64 * 1024,
+    timeoutMs: 500,
+    allowedContentTypes: ['video/', 'image/'],
+  };
+
+  const createDownloader = (overrides: Partial<DownloadPolicy> = {}) =>
+    new MediaDownloaderService(
+      new ConfigService({
+        twitter: { downloads: { ...policy, ...overrides } },
+      }),
+    );
+
+  const download = async (url: string, overrides?: Partial<DownloadPolicy>) => {
+    const filePath = await createDownloader(overrides).download(url);
+    downloaded.push(filePath);
+    return filePath;
+  };
+
+  const failure = (promise: Promise<unknown>) =>
+    promise.then(
+      () => {
+        throw new Error('Expected the download to fail');
+      },
+      (error) => ({ status: error.status, reason: error.reason }),
+    );
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const hops = /^\/hops\/(\d+)$/.exec(req.url ?? '');
+      if (hops) {
+        const left = parseInt(hops[1], 10);
+        res.writeHead(302, {
+          location: left > 0 ? `/hops/${left - 1}` : '/video',
+        });
+        return res.end();
+      }
+
+      switch (req.url) {
+        case '/video':
+          res.writeHead(200, { 'content-type': 'video/mp4' });
+          return res.end(video);
+        case '/page':
+          res.writeHead(200, { 'content-type': 'text/html; charset=utf-8' });
+          return res.end('<html></html>');
+        case '/declared-huge':
+          res.writeHead(200, {
+            'content-type': 'video/mp4',
+            'content-length': String(1024 * 1024),
+          });
+          return res.end();
+        case '/endless':
+          // No Content-Length: only the streamed byte count can stop it
+          res.writeHead(200, { 'content-type': 'video/mp4' });
+          res.write(Buffer.alloc(48 * 1024));
+          return res.end(Buffer.alloc(48 * 1024));
+        case '/stalled':
+          res.writeHead(200, { 'content-type': 'video/mp4' });
+          return res.write(video);
+        case '/to-denied':
+          res.writeHead(301, { location: 'http://denied.test/video' });
+          return res.end();
+        default:
+          res.writeHead(404);
+          return res.end();
+      }
+    });
+    await new Promise<void>((resolve) =>
+      server.listen(0, '127.0.0.1', resolve),
+    );
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+    await Promise.all(downloaded.map((file) => fs.promises.rm(file)));
+  });
+
+  it('downloads a video and names it after its content', async () => {
+    const filePath = await download(`${origin}/hops/1`);
+
+    expect(path.extname(filePath)).toBe('.mp4');
+    expect(await fs.promises.readFile(filePath)).toEqual(video);
+  });
+
+  it('reports the bytes received', async () => {
+    const onProgress = jest.fn();
+
+    const filePath = await createDownloader().download(
+      `${origin}/video`,
+      undefined,
+      onProgress,
+    );
+    downloaded.push(filePath);
+
+    expect(onProgress).toHaveBeenLastCalledWith(video.length, undefined);
+  });
+
+  it.each([
+    ['ftp://example.com/a.mp4', 400, 'scheme_not_allowed'],
+    ['not a url', 400, 'invalid_url'],
+    ['http://Denied.test./a.mp4', 403, 'host_not_allowed'],
+    ['http://169.254.169.254/latest/meta-data', 403, 'private_address'],
+    ['http://[::1]/a.mp4', 403, 'private_address'],
+  ])('refuses %s before fetching it', async (url, status, reason) => {
+    await expect(
+      failure(
+        createDownloader({ allowPrivateAddresses: false }).assertAllowedUrls([
+          url,
+        ]),
+      ),
+    ).resolves.toEqual({ status, reason });
+  });
+
+  it('refuses host names that resolve to private addresses', async () => {
+    const url = origin.replace('127.0.0.1', 'localhost');
+
+    await expect(
+      failure(download(`${url}/video`, { allowPrivateAddresses: false })),
+    ).resolves.toEqual({ status: 403, reason: 'private_address' });
+  });
+
+  it('only accepts allow-listed hosts when a list is set', async () => {
+    await expect(
+      failure(
+        createDownloader({
+          allowedHosts: ['*.cdn.test'],
+        }).assertAllowedUrls(['https://cdn.test.evil.example/a.mp4']),
+      ),
+    ).resolves.toEqual({ status: 403, reason: 'host_not_allowed' });
+    await expect(
+      download(`${origin}/video`, { allowedHosts: ['127.0.0.1'] }),
+    ).resolves.toMatch(/\.mp4$/);
+  });
+
+  it.each([
+    ['/to-denied', 403, 'host_not_allowed'],
+    ['/hops/5', 400, 'too_many_redirects'],
+    ['/page', 415, 'content_type_not_allowed'],
+    ['/declared-huge', 413, 'too_large'],
+    ['/endless', 413, 'too_large'],
+    ['/stalled', 408, 'timeout'],
+    ['/missing', 422, 'unreachable'],
+  ])('rejects %s', async (route, status, reason) => {
+    await expect(failure(download(`${origin}${route}`))).resolves.toEqual({
+      status,
+      reason,
+    });
+  });
+
+  it('leaves no partial file behind', async () => {
+    const uploads = path.join(process.cwd(), 'uploads');
+    const before = await fs.promises.readdir(uploads);
+
+    await failure(download(`${origin}/endless`));
+
+    expect(await fs.promises.readdir(uploads)).toEqual(before);
+  });
+
+  it('classifies addresses', () => {
+    expect(isPrivateAddress('10.1.2.3')).toBe(true);
+    expect(isPrivateAddress('172.31.255.255')).toBe(true);
+    expect(isPrivateAddress('192.168.0.1')).toBe(true);
+    expect(isPrivateAddress('fd00::1')).toBe(true);
+    expect(isPrivateAddress('fe80::1')).toBe(true);
+    expect(isPrivateAddress('::ffff:127.0.0.1')).toBe(true);
+    expect(isPrivateAddress('8.8.8.8')).toBe(false);
+    expect(isPrivateAddress('172.32.0.1')).toBe(false);
+    expect(isPrivateAddress('2606:4700::1111')).toBe(false);
+  });
+});
@@ -0,0 +1,252 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios from 'axios';
+import * as crypto from 'crypto';
+import * as dns from 'dns';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { sniffFile } from '../media/media-type';
+import { assertAllowedUrl, assertPublicAddress } from './address-policy';
+import { DownloadPolicy } from './download-policy.interface';
+import { DownloadFailedError } from './download-failed.error';
+
+const REDIRECT_STATUS_CODES = [301, 302, 303, 307, 308];
+
+// Download progress is reported at most once per this many bytes
+const PROGRESS_STEP_BYTES = 256 * 1024;
+
+export type DownloadProgressListener = (
+  bytes: number,
+  totalBytes?: number,
+) => void;
+
+/**
+ * Fetches media URLs supplied by clients. Every redirect hop is checked
+ * against the download policy, and host names are resolved and checked
+ * right before connecting so DNS cannot point a vetted name elsewhere.
+ */
+@Injectable()
+export class MediaDownloaderService {
+  private readonly logger = new Logger(MediaDownloaderService.name);
+  private readonly policy: DownloadPolicy;
+
+  constructor(configService: ConfigService) {
+    this.policy = configService.getOrThrow<DownloadPolicy>('twitter.downloads');
+  }
+
+  // Rejects refused URLs while the client is still waiting for a response
+  async assertAllowedUrls(urls: string[]): Promise<void> {
+    for (const value of urls) {
+      const url = assertAllowedUrl(value, this.policy);
+      await this.resolvePublicAddresses(url.hostname);
+    }
+  }
+
+  /** Downloads a URL into uploads/, named with the extension of its content. */
+  async download(
+    value: string,
+    signal?: AbortSignal,
+    onProgress?: DownloadProgressListener,
+  ): Promise<string> {
+    const timeout = AbortSignal.timeout(this.policy.timeoutMs);
+    const combined = signal ? AbortSignal.any([signal, timeout]) : timeout;
+
+    const uploadsDir = path.join(process.cwd(), 'uploads');
+    await fs.promises.mkdir(uploadsDir, { recursive: true });
+    const baseName = `media-${Date.now()}-${crypto.randomUUID()}`;
+    const localFilePath = path.join(uploadsDir, baseName);
+
+    try {
+      const { body, totalBytes } = await this.fetch(value, combined);
+      const received = await this.transfer(
+        body,
+        localFilePath,
+        combined,
+        totalBytes,
+        onProgress,
+      );
+      onProgress?.(received, totalBytes);
+    } catch (error) {
+      await fs.promises.rm(localFilePath, { force: true });
+      signal?.throwIfAborted();
+      if (timeout.aborted) {
+        throw new DownloadFailedError(
+          'timeout',
+          `Downloading ${value} took longer than ${this.policy.timeoutMs}ms`,
+        );
+      }
+      throw this.toDownloadError(error, value);
+    }
+
+    const detected = await sniffFile(localFilePath);
+    if (!detected) {
+      // Left as is; type detection rejects it before upload
+      return localFilePath;
+    }
+    const namedPath = `${localFilePath}.${detected.extension}`;
+    await fs.promises.rename(localFilePath, namedPath);
+    return namedPath;
+  }
+
+  // Follows redirects by hand so each hop goes through the policy
+  private async fetch(
+    value: string,
+    signal: AbortSignal,
+  ): Promise<{ body: Readable; totalBytes?: number }> {
+    let current = value;
+
+    for (let redirects = 0; ; redirects++) {
+      const url = assertAllowedUrl(current, this.policy);
+      const response = await axios.get<Readable>(url.href, {
+        responseType: 'stream',
+        maxRedirects: 0,
+        validateStatus: () => true,
+        signal,
+        lookup: async (hostname: string) => [
+          await this.resolvePublicAddresses(hostname),
+        ],
+      });
+
+      if (REDIRECT_STATUS_CODES.includes(response.status)) {
+        response.data.destroy();
+        const location = response.headers['location'];
+        if (!location) {
+          throw new DownloadFailedError(
+            'unreachable',
+            `${url.href} redirected without a location`,
+          );
+        }
+        if (redirects >= this.policy.maxRedirects) {
+          throw new DownloadFailedError(
+            'too_many_redirects',
+            `${value} redirected more than ${this.policy.maxRedirects} times`,
+          );
+        }
+        current = new URL(location, url).href;
+        continue;
+      }
+
+      if (response.status < 200 || response.status >= 300) {
+        response.data.destroy();
+        throw new DownloadFailedError(
+          'unreachable',
+          `${url.href} responded with status ${response.status}`,
+        );
+      }
+
+      const contentLength = response.headers['content-length'];
+      this.assertAcceptable(
+        response.headers['content-type'],
+        contentLength,
+        url.href,
+        response.data,
+      );
+      return {
+        body: response.data,
+        totalBytes: contentLength ? parseInt(contentLength, 10) : undefined,
+      };
+    }
+  }
+
+  private assertAcceptable(
+    contentType: string | undefined,
+    contentLength: string | undefined,
+    href: string,
+    body: Readable,
+  ): void {
+    const mimeType = (contentType ?? '').split(';')[0].trim().toLowerCase();
+    if (
+      !this.policy.allowedContentTypes.some((prefix) =>
+        mimeType.startsWith(prefix.toLowerCase()),
+      )
+    ) {
+      body.destroy();
+      throw new DownloadFailedError(
+        'content_type_not_allowed',
+        `${href} has content type ${mimeType || 'none'}; expected ${this.policy.allowedContentTypes.join(', ')}`,
+      );
+    }
+
+    if (contentLength && parseInt(contentLength, 10) > this.policy.maxBytes) {
+      body.destroy();
+      throw this.tooLarge(href);
+    }
+  }
+
+  /**
+   * Streams the body to disk and returns the byte count. Content-Length
+   * may be missing or wrong, so the size limit is checked while streaming.
+   */
+  private async transfer(
+    body: Readable,
+    filePath: string,
+    signal: AbortSignal,
+    totalBytes: number | undefined,
+    onProgress?: DownloadProgressListener,
+  ): Promise<number> {
+    let received = 0;
+    let reported = 0;
+    const counter = new Transform({
+      transform: (chunk: Buffer, _encoding, callback) => {
+        received += chunk.length;
+        if (received > this.policy.maxBytes) {
+          return callback(this.tooLarge());
+        }
+        if (received - reported >= PROGRESS_STEP_BYTES) {
+          reported = received;
+          onProgress?.(received, totalBytes);
+        }
+        callback(null, chunk);
+      },
+    });
+
+    await pipeline(body, counter, fs.createWriteStream(filePath), { signal });
+    return received;
+  }
+
+  private tooLarge(href?: string): DownloadFailedError {
+    return new DownloadFailedError(
+      'too_large',
+      `${href ?? 'Media URL'} is larger than ${this.policy.maxBytes} bytes`,
+    );
+  }
+
+  private async resolvePublicAddresses(
+    hostname: string,
+  ): Promise<dns.LookupAddress[]> {
+    const bare = hostname.replace(/^\[|\]$/g, '');
+    let addresses: dns.LookupAddress[];
+    try {
+      addresses = await dns.promises.lookup(bare, { all: true });
+    } catch {
+      throw new DownloadFailedError(
+        'unreachable',
+        `Could not resolve media URL host ${bare}`,
+      );
+    }
+
+    for (const { address } of addresses) {
+      assertPublicAddress(address, bare, this.policy);
+    }
+    return addresses;
+  }
+
+  private toDownloadError(error: unknown, value: string): Error {
+    // Axios wraps errors thrown by the lookup hook
+    const cause = axios.isAxiosError(error) ? error.cause : undefined;
+    if (error instanceof DownloadFailedError) {
+      return error;
+    }
+    if (cause instanceof DownloadFailedError) {
+      return cause;
+    }
+
+    this.logger.error(`Failed to download ${value}`, error);
+    return new DownloadFailedError(
+      'unreachable',
+      `Downloading ${value} failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { MediaCategory } from '../media/media-type';
+
+// A Twitter request as a dry run would have sent it
+export interface PlannedRequest {
+  method: 'GET' | 'POST' | 'DELETE';
+  url: string;
+  // The OAuth 1.0a header, with its signature left out
+  headers: Record<string, string>;
+  params?: Record<string, string | number>;
+  form?: Record<string, string | number>;
+  json?: object;
+  // Multipart fields; binary parts are described by their size
+  multipart?: Record<string, string>;
+}
+
+// One APPEND of a chunked upload
+export interface PlannedSegment {
+  index: number;
+  offset: number;
+  bytes: number;
+}
+
+export interface MediaPlan {
+  // Stands in for the media id Twitter would have returned
+  mediaId: string;
+  fileName: string;
+  mediaType: string;
+  mediaCategory: MediaCategory;
+  totalBytes: number;
+  chunkSize: number;
+  segments: PlannedSegment[];
+  // INIT, every APPEND and FINALIZE, then alt text or subtitle requests
+  requests: PlannedRequest[];
+}
+
+export interface TweetPlan {
+  // The body POST /2/tweets would have been sent
+  payload: object;
+  weightedLength: number;
+  maxWeightedLength: number;
+  request: PlannedRequest;
+}
+
+/**
+ * What an upload would have done: every file was downloaded, sniffed and
+ * validated like for a real upload, but nothing was sent to Twitter.
+ */
+export interface UploadPlan {
+  dryRun: true;
+  // Whether the global sandbox mode forced the dry run
+  sandbox: boolean;
+  account: string;
+  media: MediaPlan[];
+  // Set once the media is planned
+  tweet?: TweetPlan;
+}
+
+export interface ThreadPlan {
+  dryRun: true;
+  sandbox: boolean;
+  account: string;
+  entries: UploadPlan[];
+}
+
+// Placeholders for the ids Twitter would have assigned
+export const plannedMediaId = (index: number) => `dry-run-media-${index + 1}`;
+export const plannedTweetId = (index: number) => `dry-run-tweet-${index + 1}`;
@@ -0,0 +1,91 @@
+import axios from 'axios';
+import {
+  MediaRejectedError,
+  RateLimitExhaustedError,
+  TweetRejectedError,
+  TwitterAuthError,
+  TwitterErrorDetails,
+  TwitterUnavailableError,
+} from './uploader-errors';
+
+// The first human-readable message in a v1.1 or v2 error body
+function twitterMessage(body: any): string | undefined {
+  return (
+    body?.errors?.[0]?.message ??
+    body?.detail ??
+    body?.title ??
+    (typeof body?.error === 'string' ? body.error : undefined)
+  );
+}
+
+function retryAfterSecs(headers: Record<string, any>): number | undefined {
+  if (headers['retry-after']) {
+    return parseInt(headers['retry-after'], 10);
+  }
+  if (headers['x-rate-limit-reset']) {
+    const resetAt = parseInt(headers['x-rate-limit-reset'], 10) * 1000;
+    return Math.max(0, Math.ceil((resetAt - Date.now()) / 1000));
+  }
+  return undefined;
+}
+
+/**
+ * Turns a failed Twitter API call into the matching UploaderError.
+ * `target` tells media endpoints from tweet creation, which reject
+ * requests for different reasons. Anything else is returned unchanged.
+ */
+export function fromTwitterError(
+  error: unknown,
+  target: 'media' | 'tweet',
+): unknown {
+  if (!axios.isAxiosError(error)) {
+    return error;
+  }
+  if (!error.response) {
+    return new TwitterUnavailableError(
+      `Could not reach Twitter: ${error.message}`,
+    );
+  }
+
+  const { status, data, headers } = error.response;
+  const details: TwitterErrorDetails = { status, body: data };
+  const message = twitterMessage(data) ?? error.message;
+
+  if (status === 401) {
+    return new TwitterAuthError(
+      `Twitter rejected the credentials: ${message}`,
+      details,
+    );
+  }
+  if (status === 429) {
+    return new RateLimitExhaustedError(
+      `Twitter rate limit exhausted: ${message}`,
+      retryAfterSecs(headers),
+      details,
+    );
+  }
+  if (status >= 500) {
+    return new TwitterUnavailableError(
+      `Twitter is unavailable (${status}): ${message}`,
+      details,
+    );
+  }
+  if (target === 'tweet') {
+    return new TweetRejectedError(
+      `Twitter rejected the tweet: ${message}`,
+      details,
+      /duplicate/i.test(message),
+    );
+  }
+  // A 403 on media endpoints means the app lacks write access
+  if (status === 403) {
+    return new TwitterAuthError(
+      `Twitter refused the media upload: ${message}`,
+      details,
+    );
+  }
+  return new MediaRejectedError(
+    `Twitter rejected the media: ${message}`,
+    details,
+  );
+}
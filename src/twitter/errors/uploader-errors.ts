@@ -0,0 +1,129 @@
+import { HttpStatus } from '@nestjs/common';
+import { MediaSetUploadError } from '../media/media-set';
+
+// What Twitter answered, passed on to clients as is
+export interface TwitterErrorDetails {
+  status?: number;
+  body?: unknown;
+}
+
+/**
+ * Base of the errors the uploader raises on purpose. `code` is part of
+ * the API: clients branch on it, so existing codes must not change.
+ */
+export class UploaderError extends Error {
+  constructor(
+    readonly code: string,
+    readonly status: HttpStatus,
+    message: string,
+    readonly twitter?: TwitterErrorDetails,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+// The code of an error, looking through media set failures
+export function errorCodeOf(error: unknown): string | undefined {
+  const cause =
+    error instanceof MediaSetUploadError ? error.originalError : error;
+  return cause instanceof UploaderError ? cause.code : undefined;
+}
+
+// Twitter refused our credentials or the app's permissions
+export class TwitterAuthError extends UploaderError {
+  constructor(message: string, twitter?: TwitterErrorDetails) {
+    super('twitter_auth_failed', HttpStatus.BAD_GATEWAY, message, twitter);
+  }
+}
+
+export class RateLimitExhaustedError extends UploaderError {
+  constructor(
+    message: string,
+    // When the limit resets, if Twitter said
+    readonly retryAfterSecs?: number,
+    twitter?: TwitterErrorDetails,
+  ) {
+    super(
+      'rate_limit_exhausted',
+      HttpStatus.TOO_MANY_REQUESTS,
+      message,
+      twitter,
+    );
+  }
+}
+
+// Twitter answered 5xx or could not be reached
+export class TwitterUnavailableError extends UploaderError {
+  constructor(message: string, twitter?: TwitterErrorDetails) {
+    super('twitter_unavailable', HttpStatus.BAD_GATEWAY, message, twitter);
+  }
+}
+
+// Twitter refused a media upload request
+export class MediaRejectedError extends UploaderError {
+  constructor(message: string, twitter?: TwitterErrorDetails) {
+    super('media_rejected', HttpStatus.UNPROCESSABLE_ENTITY, message, twitter);
+  }
+}
+
+export class MediaProcessingFailedError extends UploaderError {
+  constructor(message: string, twitter?: TwitterErrorDetails) {
+    super(
+      'media_processing_failed',
+      HttpStatus.UNPROCESSABLE_ENTITY,
+      message,
+      twitter,
+    );
+  }
+}
+
+export class MediaProcessingTimeoutError extends UploaderError {
+  constructor(message: string) {
+    super('media_processing_timeout', HttpStatus.GATEWAY_TIMEOUT, message);
+  }
+}
+
+// Duplicate content gets its own code so clients can treat it as done
+export class TweetRejectedError extends UploaderError {
+  constructor(
+    message: string,
+    twitter?: TwitterErrorDetails,
+    duplicate = false,
+  ) {
+    super(
+      duplicate ? 'duplicate_tweet' : 'tweet_rejected',
+      duplicate ? HttpStatus.CONFLICT : HttpStatus.UNPROCESSABLE_ENTITY,
+      message,
+      twitter,
+    );
+  }
+}
+
+// The request itself is unusable, e.g. it names a file that does not exist
+export class ValidationError extends UploaderError {
+  constructor(
+    message: string,
+    code = 'validation_failed',
+    status = HttpStatus.BAD_REQUEST,
+  ) {
+    super(code, status, message);
+  }
+}
+
+// Sandbox mode is on, so nothing may be posted to Twitter
+export class SandboxModeError extends UploaderError {
+  constructor(message: string) {
+    super('sandbox_mode', HttpStatus.CONFLICT, message);
+  }
+}
+
+// A restart cut a post off after it may have reached Twitter, so posting it
+// again could tweet twice
+export class PostOutcomeUnknownError extends UploaderError {
+  static readonly code = 'outcome_unknown';
+
+  constructor(message: string) {
+    super(PostOutcomeUnknownError.code, HttpStatus.CONFLICT, message);
+  }
+}
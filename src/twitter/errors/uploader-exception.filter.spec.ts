@@ -0,0 +1,157 @@
+import { ArgumentsHost, NotFoundException } from '@nestjs/common';
+import { AxiosError, AxiosHeaders } from 'axios';
+import { MediaSetUploadError } from '../media/media-set';
+import { MediaValidationException } from '../validation/media-validation.exception';
+import { fromTwitterError } from './twitter-error.mapper';
+import { UploaderExceptionFilter } from './uploader-exception.filter';
+import { MediaProcessingFailedError } from './uploader-errors';
+
+describe('UploaderExceptionFilter', () => {
+  const filter = new UploaderExceptionFilter();
+
+  const render = (exception: unknown, headers: Record<string, string> = {}) => {
+    const response = {
+      headers: {} as Record<string, string>,
+      statusCode: 0,
+      body: undefined as any,
+      setHeader(name: string, value: string) {
+        this.headers[name.toLowerCase()] = value;
+        return this;
+      },
+      status(code: number) {
+        this.statusCode = code;
+        return this;
+      },
+      json(body: unknown) {
+        this.body = body;
+        return this;
+      },
+    };
+    const host = {
+      switchToHttp: () => ({
+        getRequest: () => ({ method: 'POST', url: '/twitter/upload', headers }),
+        getResponse: () => response,
+      }),
+    } as unknown as ArgumentsHost;
+
+    filter.catch(exception, host);
+    return response;
+  };
+
+  const twitterFailure = (
+    status: number,
+    data: unknown,
+    headers: Record<string, string> = {},
+  ) =>
+    new AxiosError('Request failed', 'ERR_BAD_RESPONSE', undefined, undefined, {
+      status,
+      data,
+      headers: new AxiosHeaders(headers),
+    } as any);
+
+  it.each([
+    [401, 'media', 502, 'twitter_auth_failed'],
+    [403, 'media', 502, 'twitter_auth_failed'],
+    [400, 'media', 422, 'media_rejected'],
+    [403, 'tweet', 422, 'tweet_rejected'],
+    [503, 'tweet', 502, 'twitter_unavailable'],
+  ] as const)(
+    'maps Twitter %i on %s requests to %i %s',
+    (twitterStatus, target, status, code) => {
+      const body = { errors: [{ code: 1, message: 'Nope' }] };
+
+      const response = render(
+        fromTwitterError(twitterFailure(twitterStatus, body), target),
+      );
+
+      expect(response.statusCode).toBe(status);
+      expect(response.body).toMatchObject({
+        statusCode: status,
+        code,
+        twitter: { status: twitterStatus, body },
+      });
+      expect(response.body.message).toContain('Nope');
+    },
+  );
+
+  it('recognizes duplicate tweets', () => {
+    const response = render(
+      fromTwitterError(
+        twitterFailure(403, {
+          detail:
+            'You are not allowed to create a Tweet with duplicate content.',
+        }),
+        'tweet',
+      ),
+    );
+
+    expect(response.statusCode).toBe(409);
+    expect(response.body.code).toBe('duplicate_tweet');
+  });
+
+  it('tells clients when to retry after a rate limit', () => {
+    const response = render(
+      fromTwitterError(
+        twitterFailure(
+          429,
+          { title: 'Too Many Requests' },
+          { 'retry-after': '42' },
+        ),
+        'tweet',
+      ),
+    );
+
+    expect(response.statusCode).toBe(429);
+    expect(response.body.code).toBe('rate_limit_exhausted');
+    expect(response.headers['retry-after']).toBe('42');
+  });
+
+  it('reports the cause of a media set failure with the uploaded ids', () => {
+    const response = render(
+      new MediaSetUploadError(
+        'Media item 2 of 2 failed: Unsupported',
+        ['m-1'],
+        1,
+        new MediaProcessingFailedError('Unsupported'),
+      ),
+    );
+
+    expect(response.statusCode).toBe(422);
+    expect(response.body).toMatchObject({
+      code: 'media_processing_failed',
+      message: 'Media item 2 of 2 failed: Unsupported',
+      uploadedMediaIds: ['m-1'],
+    });
+  });
+
+  it('keeps Nest exceptions and their extra fields', () => {
+    expect(
+      render(new NotFoundException('Upload job x not found')).body,
+    ).toEqual({
+      statusCode: 404,
+      code: 'not_found',
+      message: 'Upload job x not found',
+      requestId: expect.any(String),
+    });
+    expect(render(new MediaValidationException([])).body).toMatchObject({
+      statusCode: 422,
+      code: 'media_validation_failed',
+      media: [],
+    });
+  });
+
+  it('hides unexpected errors and echoes the request id', () => {
+    const response = render(new Error('secret detail'), {
+      'x-request-id': 'req-1',
+    });
+
+    expect(response.statusCode).toBe(500);
+    expect(response.body).toEqual({
+      statusCode: 500,
+      code: 'internal_error',
+      message: 'Internal server error',
+      requestId: 'req-1',
+    });
+    expect(response.headers['x-request-id']).toBe('req-1');
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  ArgumentsHost,
+  Catch,
+  ExceptionFilter,
+  HttpException,
+  HttpStatus,
+  Logger,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { Request, Response } from 'express';
+import { ApiLimitExceededError } from '../auth/api-access.errors';
+import { MediaSetUploadError } from '../media/media-set';
+import {
+  RateLimitExhaustedError,
+  TwitterErrorDetails,
+  UploaderError,
+} from './uploader-errors';
+
+export const REQUEST_ID_HEADER = 'x-request-id';
+
+export interface ErrorResponseBody {
+  statusCode: number;
+  code: string;
+  message: string | string[];
+  twitter?: TwitterErrorDetails;
+  requestId: string;
+  // Extra fields of the exception, e.g. validation reports
+  [key: string]: unknown;
+}
+
+// BAD_REQUEST -> bad_request, for HttpExceptions without an explicit code
+const codeForStatus = (status: number) =>
+  (HttpStatus[status] ?? 'error').toLowerCase();
+
+/**
+ * Renders every error as { statusCode, code, message, twitter?, requestId }.
+ * The request id comes from X-Request-Id when the client sent one and is
+ * echoed back, so a response can be matched to the server logs.
+ */
+@Catch()
+export class UploaderExceptionFilter implements ExceptionFilter {
+  private readonly logger = new Logger(UploaderExceptionFilter.name);
+
+  catch(exception: unknown, host: ArgumentsHost): void {
+    const context = host.switchToHttp();
+    const request = context.getRequest<Request>();
+    const response = context.getResponse<Response>();
+
+    const requestId =
+      (request.headers[REQUEST_ID_HEADER] as string | undefined) ??
+      randomUUID();
+    const body = this.toBody(exception, requestId);
+
+    if (body.statusCode >= 500) {
+      this.logger.error(
+        `${request.method} ${request.url} failed [${requestId}]`,
+        exception instanceof Error ? exception.stack : exception,
+      );
+    }
+
+    const cause =
+      exception instanceof MediaSetUploadError
+        ? exception.originalError
+        : exception;
+    if (
+      (cause instanceof RateLimitExhaustedError ||
+        cause instanceof ApiLimitExceededError) &&
+      cause.retryAfterSecs !== undefined
+    ) {
+      response.setHeader('Retry-After', String(cause.retryAfterSecs));
+    }
+
+    response
+      .setHeader(REQUEST_ID_HEADER, requestId)
+      .status(body.statusCode)
+      .json(body);
+  }
+
+  private toBody(exception: unknown, requestId: string): ErrorResponseBody {
+    if (exception instanceof MediaSetUploadError) {
+      // Report the cause, and which media reached Twitter before it
+      return {
+        ...this.toBody(exception.originalError, requestId),
+        message: exception.message,
+        uploadedMediaIds: exception.uploadedMediaIds,
+      };
+    }
+
+    if (exception instanceof UploaderError) {
+      return {
+        statusCode: exception.status,
+        code: exception.code,
+        message: exception.message,
+        ...(exception.twitter && { twitter: exception.twitter }),
+        requestId,
+      };
+    }
+
+    if (exception instanceof HttpException) {
+      const status = exception.getStatus();
+      const payload = exception.getResponse();
+      const { statusCode, error, code, message, ...extra } =
+        typeof payload === 'string'
+          ? { message: payload }
+          : (payload as Record<string, any>);
+      return {
+        ...extra,
+        statusCode: status,
+        code: code ?? codeForStatus(status),
+        message: message ?? exception.message,
+        requestId,
+      };
+    }
+
+    return {
+      statusCode: HttpStatus.INTERNAL_SERVER_ERROR,
+      code: 'internal_error',
+      message: 'Internal server error',
+      requestId,
+    };
+  }
+}
@@ -0,0 +1,42 @@
+import { UploadStage } from '../interfaces/upload-options.interface';
+
+// Who asked for a post; kept with jobs, threads and scheduled posts
+export interface PostOrigin {
+  // X-Request-Id of the request that created the post
+  requestId?: string;
+  // Name of the API key the request authenticated with
+  client?: string;
+  // Where WebhooksService reports the outcome; not part of the history
+  callbackUrl?: string;
+}
+
+// Which feature made the attempt. `sourceId` is the id of its job, thread,
+// scheduled post or batch; for tweets of already uploaded media, the
+// request id
+export type PostAttemptKind =
+  | 'upload'
+  | 'thread'
+  | 'scheduled'
+  | 'tweet'
+  | 'batch';
+
+export type PostAttemptStatus = 'posted' | 'failed' | 'cancelled';
+
+export interface PostAttempt extends PostOrigin {
+  id: string;
+  kind: PostAttemptKind;
+  sourceId: string;
+  account: string;
+  // File names of uploads and media URLs
+  sources: string[];
+  mediaIds: string[];
+  tweetId?: string;
+  status: PostAttemptStatus;
+  error?: string;
+  errorCode?: string;
+  // Milliseconds spent in each stage, summed over the media of the tweet
+  timings: Partial<Record<UploadStage, number>>;
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+}
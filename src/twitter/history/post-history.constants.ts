@@ -0,0 +1 @@
+export const POST_HISTORY_LOG = 'POST_HISTORY_LOG';
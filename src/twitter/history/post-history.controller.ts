@@ -0,0 +1,70 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  Param,
+  Query,
+} from '@nestjs/common';
+import { RequireScope } from '../auth/require-scope.decorator';
+import { PostAttempt, PostAttemptStatus } from './post-attempt.interface';
+import { PostHistoryPage, PostHistoryService } from './post-history.service';
+
+const STATUSES: PostAttemptStatus[] = ['posted', 'failed', 'cancelled'];
+
+@Controller('twitter/history')
+@RequireScope('admin')
+export class PostHistoryController {
+  constructor(private readonly history: PostHistoryService) {}
+
+  @Get()
+  list(
+    @Query('status') status?: string,
+    @Query('account') account?: string,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('limit') limit?: string,
+    @Query('offset') offset?: string,
+  ): Promise<PostHistoryPage> {
+    if (status && !STATUSES.includes(status as PostAttemptStatus)) {
+      throw new BadRequestException(
+        `status must be one of ${STATUSES.join(', ')}`,
+      );
+    }
+    for (const [name, value] of Object.entries({ from, to })) {
+      if (value && Number.isNaN(Date.parse(value))) {
+        throw new BadRequestException(`${name} must be an ISO 8601 timestamp`);
+      }
+    }
+
+    return this.history.list({
+      status: status as PostAttemptStatus | undefined,
+      account,
+      from,
+      to,
+      limit: this.parseCount('limit', limit, 1),
+      offset: this.parseCount('offset', offset, 0),
+    });
+  }
+
+  @Get(':id')
+  get(@Param('id') id: string): Promise<PostAttempt> {
+    return this.history.get(id);
+  }
+
+  private parseCount(
+    name: string,
+    value: string | undefined,
+    min: number,
+  ): number | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < min) {
+      throw new BadRequestException(
+        `${name} must be an integer of at least ${min}`,
+      );
+    }
+    return count;
+  }
+}
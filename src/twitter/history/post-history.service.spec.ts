@@ -0,0 +1,133 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TwitterAccountsService } from '../accounts/twitter-accounts.service';
+import { RateLimitExhaustedError } from '../errors/uploader-errors';
+import { MediaSetUploadError } from '../media/media-set';
+import { JsonlLog } from '../storage/jsonl-log';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { PostAttempt } from './post-attempt.interface';
+import { PostHistoryService } from './post-history.service';
+
+describe('PostHistoryService', () => {
+  let dir: string;
+  let log: JsonlLog<PostAttempt>;
+  let service: PostHistoryService;
+  let notify: jest.Mock;
+
+  const context = {
+    kind: 'upload' as const,
+    sourceId: 'job-1',
+    requestId: 'request-1',
+    client: 'bot',
+    callbackUrl: 'https://cms.example.com/hooks',
+    media: [
+      { source: '/tmp/abc123', fileName: 'clip.mp4', owned: true },
+      { source: 'https://cdn.example.com/b.mp4', owned: false },
+    ],
+  };
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'post-history-'));
+    log = new JsonlLog<PostAttempt>(path.join(dir, 'post-history.jsonl'));
+    notify = jest.fn().mockResolvedValue(undefined);
+    service = new PostHistoryService(
+      log,
+      new TwitterAccountsService(
+        new ConfigService({ twitter: { defaultAccount: 'brand-a' } }),
+      ),
+      { notify } as unknown as WebhooksService,
+    );
+  });
+
+  afterEach(() => fs.promises.rm(dir, { recursive: true, force: true }));
+
+  it('records a posted tweet with its media and stage timings', async () => {
+    const result = await service.record(context, async (onProgress) => {
+      onProgress({ stage: 'init' });
+      onProgress({ stage: 'append', current: 1, total: 2 });
+      onProgress({ stage: 'tweeting', mediaIds: ['m1', 'm2'] });
+      return { data: { id: 'tweet-1', text: 'Hi' } };
+    });
+
+    expect(result).toEqual({ data: { id: 'tweet-1', text: 'Hi' } });
+    const [attempt] = await log.readAll();
+    expect(attempt).toMatchObject({
+      kind: 'upload',
+      sourceId: 'job-1',
+      requestId: 'request-1',
+      client: 'bot',
+      account: 'brand-a',
+      sources: ['clip.mp4', 'https://cdn.example.com/b.mp4'],
+      mediaIds: ['m1', 'm2'],
+      tweetId: 'tweet-1',
+      status: 'posted',
+    });
+    expect(Object.keys(attempt.timings)).toEqual([
+      'init',
+      'append',
+      'tweeting',
+    ]);
+    // The callback is reported to, not recorded
+    expect(attempt.callbackUrl).toBeUndefined();
+    expect(notify).toHaveBeenCalledWith(attempt, context.callbackUrl);
+  });
+
+  it('records failures with their code and the media already uploaded', async () => {
+    const error = new MediaSetUploadError(
+      'Media 2 failed',
+      ['m1'],
+      1,
+      new RateLimitExhaustedError('Rate limited', 60),
+    );
+
+    await expect(
+      service.record(context, async () => {
+        throw error;
+      }),
+    ).rejects.toBe(error);
+    expect(await log.readAll()).toEqual([
+      expect.objectContaining({
+        status: 'failed',
+        error: 'Media 2 failed',
+        errorCode: 'rate_limit_exhausted',
+        mediaIds: ['m1'],
+      }),
+    ]);
+  });
+
+  it('lists attempts newest first with filters and pages', async () => {
+    const base = {
+      ...context,
+      id: '',
+      account: 'brand-a',
+      sources: [],
+      mediaIds: [],
+      timings: {},
+      finishedAt: '',
+      durationMs: 0,
+    };
+    for (const [id, status, startedAt] of [
+      ['a', 'posted', '2026-03-01T10:00:00Z'],
+      ['b', 'failed', '2026-03-02T10:00:00Z'],
+      ['c', 'posted', '2026-03-03T10:00:00Z'],
+      ['d', 'posted', '2026-03-04T10:00:00Z'],
+    ] as const) {
+      await log.append({ ...base, id, status, startedAt });
+    }
+
+    const page = await service.list({
+      status: 'posted',
+      from: '2026-03-02T00:00:00Z',
+      limit: 1,
+      offset: 1,
+    });
+    expect(page).toMatchObject({ total: 2, limit: 1, offset: 1 });
+    expect(page.attempts.map((attempt) => attempt.id)).toEqual(['c']);
+    expect((await service.get('b')).status).toBe('failed');
+    await expect(service.get('missing')).rejects.toThrow(
+      'Post attempt missing not found',
+    );
+  });
+});
@@ -0,0 +1,191 @@
+import { Inject, Injectable, Logger, NotFoundException } from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { TwitterAccountsService } from '../accounts/twitter-accounts.service';
+import { errorCodeOf } from '../errors/uploader-errors';
+import {
+  UploadProgress,
+  UploadStage,
+} from '../interfaces/upload-options.interface';
+import { UploadJobMedia } from '../jobs/upload-job.interface';
+import { MediaSetUploadError } from '../media/media-set';
+import { JsonlLog } from '../storage/jsonl-log';
+import { TweetResponse, tweetIdOf } from '../twitter-video-uploader.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import {
+  PostAttempt,
+  PostAttemptKind,
+  PostAttemptStatus,
+  PostOrigin,
+} from './post-attempt.interface';
+import { POST_HISTORY_LOG } from './post-history.constants';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+export interface PostAttemptContext extends PostOrigin {
+  kind: PostAttemptKind;
+  sourceId: string;
+  account?: string;
+  media: UploadJobMedia[];
+  // Media uploaded beforehand, e.g. pre-uploaded for a scheduled post
+  mediaIds?: string[];
+  signal?: AbortSignal;
+}
+
+export interface PostHistoryQuery {
+  status?: PostAttemptStatus;
+  account?: string;
+  // ISO 8601 bounds on startedAt, both inclusive
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface PostHistoryPage {
+  attempts: PostAttempt[];
+  total: number;
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Records every attempt to post a tweet, successful or not, in an
+ * append-only log and reports it to webhooks. A failing log write or
+ * webhook is logged and never fails the post.
+ */
+@Injectable()
+export class PostHistoryService {
+  private readonly logger = new Logger(PostHistoryService.name);
+
+  constructor(
+    @Inject(POST_HISTORY_LOG) private readonly log: JsonlLog<PostAttempt>,
+    private readonly accounts: TwitterAccountsService,
+    private readonly webhooks: WebhooksService,
+  ) {}
+
+  /**
+   * Runs one post attempt and records its outcome. `run` receives a
+   * progress listener that times the stages and picks up the media ids.
+   */
+  async record<T extends TweetResponse>(
+    context: PostAttemptContext,
+    run: (onProgress: (progress: UploadProgress) => void) => Promise<T>,
+  ): Promise<T> {
+    const startedAt = Date.now();
+    const timings: PostAttempt['timings'] = {};
+    let mediaIds = context.mediaIds ?? [];
+    let stage: UploadStage | undefined;
+    let stageStartedAt = startedAt;
+
+    const closeStage = (now: number) => {
+      if (stage) {
+        timings[stage] = (timings[stage] ?? 0) + now - stageStartedAt;
+      }
+    };
+    const onProgress = (progress: UploadProgress) => {
+      if (progress.mediaIds) {
+        mediaIds = progress.mediaIds;
+      }
+      if (progress.stage !== stage) {
+        const now = Date.now();
+        closeStage(now);
+        stage = progress.stage;
+        stageStartedAt = now;
+      }
+    };
+    const finish = async (
+      outcome: Pick<PostAttempt, 'status' | 'tweetId' | 'error' | 'errorCode'>,
+    ) => {
+      const finishedAt = Date.now();
+      closeStage(finishedAt);
+      const attempt: PostAttempt = {
+        id: randomUUID(),
+        kind: context.kind,
+        sourceId: context.sourceId,
+        requestId: context.requestId,
+        client: context.client,
+        account: context.account || this.accounts.list().defaultAccount,
+        sources: context.media.map((item) => item.fileName ?? item.source),
+        mediaIds,
+        ...outcome,
+        timings,
+        startedAt: new Date(startedAt).toISOString(),
+        finishedAt: new Date(finishedAt).toISOString(),
+        durationMs: finishedAt - startedAt,
+      };
+
+      try {
+        await this.log.append(attempt);
+      } catch (error) {
+        this.logger.warn(
+          `Failed to record ${context.kind} ${context.sourceId} in the post history`,
+          error,
+        );
+      }
+      try {
+        await this.webhooks.notify(attempt, context.callbackUrl);
+      } catch (error) {
+        this.logger.warn(
+          `Failed to queue webhooks for ${context.kind} ${context.sourceId}`,
+          error,
+        );
+      }
+    };
+
+    try {
+      const result = await run(onProgress);
+      await finish({ status: 'posted', tweetId: tweetIdOf(result) });
+      return result;
+    } catch (error) {
+      if (error instanceof MediaSetUploadError) {
+        mediaIds = error.uploadedMediaIds;
+      }
+      await finish(
+        context.signal?.aborted
+          ? { status: 'cancelled' }
+          : {
+              status: 'failed',
+              error: error instanceof Error ? error.message : 'Post failed',
+              errorCode: errorCodeOf(error),
+            },
+      );
+      throw error;
+    }
+  }
+
+  // Newest first
+  async list(query: PostHistoryQuery = {}): Promise<PostHistoryPage> {
+    const limit = Math.min(query.limit ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+    const offset = query.offset ?? 0;
+    const from = query.from && Date.parse(query.from);
+    const to = query.to && Date.parse(query.to);
+
+    const attempts = (await this.log.readAll())
+      .filter(
+        (attempt) =>
+          (!query.status || attempt.status === query.status) &&
+          (!query.account || attempt.account === query.account) &&
+          (!from || Date.parse(attempt.startedAt) >= from) &&
+          (!to || Date.parse(attempt.startedAt) <= to),
+      )
+      .reverse();
+
+    return {
+      attempts: attempts.slice(offset, offset + limit),
+      total: attempts.length,
+      limit,
+      offset,
+    };
+  }
+
+  async get(id: string): Promise<PostAttempt> {
+    const attempt = (await this.log.readAll()).find(
+      (candidate) => candidate.id === id,
+    );
+    if (!attempt) {
+      throw new NotFoundException(`Post attempt ${id} not found`);
+    }
+    return attempt;
+  }
+}
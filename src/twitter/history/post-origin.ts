@@ -0,0 +1,24 @@
+import { randomUUID } from 'crypto';
+import { ApiRequest } from '../auth/api-client.interface';
+import { REQUEST_ID_HEADER } from '../errors/uploader-exception.filter';
+import { PostOrigin } from './post-attempt.interface';
+
+/**
+ * The request id and API key of a request that creates posts, with its
+ * checked callbackUrl. Requests without an X-Request-Id get one, echoed in
+ * the response and reused by UploaderExceptionFilter should the request
+ * fail later on.
+ */
+export function postOriginOf(
+  request: ApiRequest,
+  callbackUrl?: string,
+): PostOrigin {
+  let requestId = request.headers[REQUEST_ID_HEADER] as string | undefined;
+  if (!requestId) {
+    requestId = randomUUID();
+    request.headers[REQUEST_ID_HEADER] = requestId;
+  }
+  request.res?.setHeader(REQUEST_ID_HEADER, requestId);
+
+  return { requestId, client: request.apiClient?.name, callbackUrl };
+}
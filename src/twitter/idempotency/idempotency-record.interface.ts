@@ -0,0 +1,15 @@
+export type IdempotencyState = 'in_progress' | 'completed';
+
+export interface IdempotencyRecord {
+  // `<scope>:<key>`, so endpoints cannot collide on a client's key
+  id: string;
+  // SHA-256 over the request fields and uploaded file contents
+  requestHash: string;
+  state: IdempotencyState;
+  // Upload job the first request starts, saved with the claim
+  jobId?: string;
+  // Replayed to every later request with the same key
+  response?: unknown;
+  createdAt: string;
+  expiresAt: string;
+}
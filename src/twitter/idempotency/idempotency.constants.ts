@@ -0,0 +1,3 @@
+export const IDEMPOTENCY_STORE = 'IDEMPOTENCY_STORE';
+
+export const IDEMPOTENCY_KEY_HEADER = 'idempotency-key';
@@ -0,0 +1,137 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InMemoryRecordStore } from '../storage/memory-record.store';
+import { IdempotencyRecord } from './idempotency-record.interface';
+import { IdempotencyService } from './idempotency.service';
+
+describe('IdempotencyService', () => {
+  let store: InMemoryRecordStore<IdempotencyRecord>;
+  let service: IdempotencyService;
+
+  beforeEach(() => {
+    store = new InMemoryRecordStore<IdempotencyRecord>();
+    service = new IdempotencyService(
+      store,
+      new ConfigService({ twitter: { idempotency: { ttlMs: 60_000 } } }),
+    );
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('claims a new key and replays it for the same request', async () => {
+    const first = await service.begin('upload', 'k-1', 'hash-a', 'job-1');
+
+    const second = await service.begin('upload', 'k-1', 'hash-a');
+
+    expect(first.replay).toBe(false);
+    expect(second).toEqual({
+      replay: true,
+      record: expect.objectContaining({ state: 'in_progress', jobId: 'job-1' }),
+    });
+  });
+
+  it('rejects a key reused with a different request', async () => {
+    await service.begin('upload', 'k-1', 'hash-a');
+
+    await expect(service.begin('upload', 'k-1', 'hash-b')).rejects.toThrow(
+      'Idempotency-Key was already used with a different request',
+    );
+    // Keys are scoped per endpoint
+    await expect(service.begin('thread', 'k-1', 'hash-b')).resolves.toEqual(
+      expect.objectContaining({ replay: false }),
+    );
+  });
+
+  it('lets only one of two concurrent requests claim a key', async () => {
+    const results = await Promise.all([
+      service.begin('upload', 'k-1', 'hash-a'),
+      service.begin('upload', 'k-1', 'hash-a'),
+    ]);
+
+    expect(results.map((result) => result.replay).sort()).toEqual([
+      false,
+      true,
+    ]);
+  });
+
+  it('lets only one of two concurrent retries claim a freed key', async () => {
+    jest.useFakeTimers({ now: Date.parse('2026-01-01T00:00:00Z') });
+    await service.begin('upload', 'k-1', 'hash-a');
+    jest.setSystemTime(Date.parse('2026-01-01T00:00:05Z'));
+
+    // Both retries find the failed claim; the first frees it and claims the
+    // key again before the second gets to free it
+    const first = await service.begin('upload', 'k-1', 'hash-a');
+    const second = await service.begin('upload', 'k-1', 'hash-a');
+    await service.release(first.record);
+    const claimed = await service.begin('upload', 'k-1', 'hash-a');
+    await service.release(second.record);
+
+    expect(claimed.replay).toBe(false);
+    await expect(service.begin('upload', 'k-1', 'hash-a')).resolves.toEqual({
+      replay: true,
+      record: claimed.record,
+    });
+  });
+
+  it('tells claims with no request behind them apart', async () => {
+    const { record } = await service.begin('upload', 'k-1', 'hash-a');
+    expect(service.isAbandoned(record)).toBe(false);
+
+    // As after a restart, before the request got to finish
+    const restarted = new IdempotencyService(
+      store,
+      new ConfigService({ twitter: { idempotency: { ttlMs: 60_000 } } }),
+    );
+    const { record: found } = await restarted.begin('upload', 'k-1', 'hash-a');
+    expect(restarted.isAbandoned(found)).toBe(true);
+
+    service.finish(record);
+    expect(service.isAbandoned(record)).toBe(true);
+  });
+
+  it('forgets keys after their TTL', async () => {
+    jest.useFakeTimers({ now: Date.parse('2026-01-01T00:00:00Z') });
+    await service.begin('upload', 'k-1', 'hash-a');
+
+    jest.setSystemTime(Date.parse('2026-01-01T00:01:01Z'));
+
+    await expect(service.begin('upload', 'k-1', 'hash-b')).resolves.toEqual(
+      expect.objectContaining({ replay: false }),
+    );
+  });
+
+  it('refuses malformed keys', async () => {
+    await expect(service.begin('upload', '', 'hash')).rejects.toThrow(
+      'Idempotency-Key must be 1 to 255 printable ASCII characters',
+    );
+  });
+
+  it('hashes file contents rather than file names', async () => {
+    const dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'idem-'));
+    const write = async (name: string, content: string) => {
+      await fs.promises.writeFile(path.join(dir, name), content);
+      return path.join(dir, name);
+    };
+
+    try {
+      const a = await write('a', 'same');
+      const b = await write('b', 'same');
+      const c = await write('c', 'other');
+
+      const hash = (file: string, fields: Record<string, unknown>) =>
+        service.hashRequest(fields, { file: [file] });
+
+      expect(await hash(a, { text: 'x', account: undefined })).toBe(
+        await hash(b, { text: 'x' }),
+      );
+      expect(await hash(a, { text: 'x' })).not.toBe(
+        await hash(c, { text: 'x' }),
+      );
+    } finally {
+      await fs.promises.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,192 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  UnprocessableEntityException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { KeyedLock } from '../concurrency/keyed-lock';
+import { fingerprintFile } from '../media/fingerprint';
+import { RecordStore } from '../storage/record-store';
+import { IdempotencyRecord } from './idempotency-record.interface';
+import { IDEMPOTENCY_STORE } from './idempotency.constants';
+
+// Printable ASCII, as sent in an HTTP header
+const KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+// Expired keys are swept at most this often
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Remembers client Idempotency-Keys with a hash of the request they came
+ * with, so a retried request can be answered with the first one's result
+ * instead of being processed twice.
+ */
+@Injectable()
+export class IdempotencyService {
+  private readonly logger = new Logger(IdempotencyService.name);
+  private readonly ttlMs: number;
+  // Serializes the read-then-write of each key within this process
+  private readonly locks = new KeyedLock();
+  // createdAt of the claims requests of this process are still handling
+  private readonly held = new Map<string, string>();
+  private lastSweep = 0;
+
+  constructor(
+    @Inject(IDEMPOTENCY_STORE)
+    private readonly store: RecordStore<IdempotencyRecord>,
+    configService: ConfigService,
+  ) {
+    this.ttlMs =
+      configService.get<number>('twitter.idempotency.ttlMs') ??
+      24 * 60 * 60 * 1000;
+  }
+
+  /** Hashes request fields and the contents of uploaded files. */
+  async hashRequest(
+    fields: Record<string, unknown>,
+    filePaths: Record<string, string[]> = {},
+  ): Promise<string> {
+    const files: Record<string, string[]> = {};
+    for (const [field, paths] of Object.entries(filePaths)) {
+      files[field] = await Promise.all(paths.map(fingerprintFile));
+    }
+
+    const canonical = JSON.stringify(
+      [fields, files].map((value) =>
+        Object.fromEntries(
+          Object.entries(value)
+            .filter(([, entry]) => entry !== undefined)
+            .sort(([a], [b]) => a.localeCompare(b)),
+        ),
+      ),
+    );
+    return crypto.createHash('sha256').update(canonical).digest('hex');
+  }
+
+  /**
+   * Claims `key` for a request, with the job it is going to start.
+   * `replay` is set when an earlier request with the same payload holds
+   * the key; a different payload is rejected with a 422.
+   */
+  async begin(
+    scope: string,
+    key: string,
+    requestHash: string,
+    jobId?: string,
+  ): Promise<{ record: IdempotencyRecord; replay: boolean }> {
+    if (!KEY_PATTERN.test(key)) {
+      throw new BadRequestException(
+        'Idempotency-Key must be 1 to 255 printable ASCII characters',
+      );
+    }
+    await this.sweepExpired();
+
+    const id = `${scope}:${key}`;
+    return this.locks.run(id, async () => {
+      const existing = await this.store.get(id);
+      if (existing && !this.isExpired(existing)) {
+        if (existing.requestHash !== requestHash) {
+          throw new UnprocessableEntityException(
+            'Idempotency-Key was already used with a different request',
+          );
+        }
+        return { record: existing, replay: true };
+      }
+
+      const now = Date.now();
+      const record: IdempotencyRecord = {
+        id,
+        requestHash,
+        state: 'in_progress',
+        jobId,
+        createdAt: new Date(now).toISOString(),
+        expiresAt: new Date(now + this.ttlMs).toISOString(),
+      };
+      await this.store.save(record);
+      this.held.set(id, record.createdAt);
+      return { record, replay: false };
+    });
+  }
+
+  async update(
+    record: Pick<IdempotencyRecord, 'id'>,
+    changes: Partial<Omit<IdempotencyRecord, 'id'>>,
+  ): Promise<IdempotencyRecord | undefined> {
+    return this.locks.run(record.id, async () => {
+      const current = await this.store.get(record.id);
+      if (!current) {
+        return undefined;
+      }
+      const updated = { ...current, ...changes };
+      await this.store.save(updated);
+      return updated;
+    });
+  }
+
+  /**
+   * Frees the key so the request can be sent again, e.g. after a failure.
+   * Only the claim `record` came from is freed: when concurrent retries
+   * both find a failed claim, the later one leaves the fresh claim of the
+   * first alone.
+   */
+  async release(
+    record: Pick<IdempotencyRecord, 'id' | 'createdAt'>,
+  ): Promise<void> {
+    await this.locks.run(record.id, async () => {
+      const current = await this.store.get(record.id);
+      if (current?.createdAt === record.createdAt) {
+        await this.store.delete(record.id);
+      }
+    });
+    this.finish(record);
+  }
+
+  /**
+   * Called once the request that made the claim is done with it; the
+   * claim itself stays until it is released or expires.
+   */
+  finish(record: Pick<IdempotencyRecord, 'id' | 'createdAt'>): void {
+    if (this.held.get(record.id) === record.createdAt) {
+      this.held.delete(record.id);
+    }
+  }
+
+  /**
+   * Whether an in-progress claim has no request behind it anymore, e.g.
+   * because the process stopped before the request finished.
+   */
+  isAbandoned(record: IdempotencyRecord): boolean {
+    return (
+      record.state === 'in_progress' &&
+      this.held.get(record.id) !== record.createdAt
+    );
+  }
+
+  private isExpired(record: IdempotencyRecord): boolean {
+    return Date.parse(record.expiresAt) <= Date.now();
+  }
+
+  private async sweepExpired(): Promise<void> {
+    if (Date.now() - this.lastSweep < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastSweep = Date.now();
+
+    try {
+      for (const { id } of await this.store.list()) {
+        // Re-read under the lock: the key may have been claimed again
+        await this.locks.run(id, async () => {
+          const record = await this.store.get(id);
+          if (record && this.isExpired(record)) {
+            await this.store.delete(id);
+          }
+        });
+      }
+    } catch (error) {
+      this.logger.warn('Failed to sweep expired idempotency keys', error);
+    }
+  }
+}
@@ -0,0 +1,21 @@
+export interface MediaItem {
+  // Local file path or remote URL
+  source: string;
+  // Client-declared MIME type, when known
+  mimeType?: string;
+  // Applied through media/metadata/create after upload
+  altText?: string;
+}
+
+export interface UploadedMediaItem {
+  mediaId: string;
+  // Twitter drops the media id then unless a tweet uses it
+  expiresAt: string;
+}
+
+export interface UploadedMediaSet {
+  // In request order
+  mediaIds: string[];
+  // The earliest expiry of the set
+  expiresAt: string;
+}
@@ -0,0 +1,48 @@
+import { SubtitleTrack } from '../accessibility/subtitle-track.interface';
+import { UploadPlan } from '../dry-run/upload-plan';
+
+export type UploadStage =
+  | 'downloading'
+  | 'init'
+  | 'append'
+  | 'finalize'
+  | 'processing'
+  | 'metadata'
+  | 'tweeting';
+
+export interface UploadProgress {
+  stage: UploadStage;
+  // Set for APPEND: segment `current` of `total`
+  current?: number;
+  total?: number;
+  // Set while downloading: bytes received, and the size when announced
+  bytes?: number;
+  totalBytes?: number;
+  // Set while processing, when Twitter reports progress_percent
+  percent?: number;
+  // Which item of a multi-media tweet the stage refers to (1-based)
+  media?: { index: number; count: number };
+  // Set when tweeting: the uploaded media attached to the tweet
+  mediaIds?: string[];
+}
+
+export interface UploadContext {
+  // Named account from the credential registry; the default one when omitted
+  account?: string;
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+  // Set for dry runs: requests are recorded here instead of being sent
+  plan?: UploadPlan;
+}
+
+export interface UploadOptions extends UploadContext {
+  tweetText?: string;
+  replyToTweetId?: string;
+  mimeType?: string;
+  // Captions bound to the (single) video before tweeting
+  subtitles?: SubtitleTrack;
+  // Run the pipeline and return an UploadPlan instead of posting
+  dryRun?: boolean;
+  // Awaited right before the tweet is sent; a rejection keeps it unsent
+  beforeTweet?: (mediaIds: string[]) => Promise<void>;
+}
@@ -0,0 +1,47 @@
+import { UploadStage } from '../interfaces/upload-options.interface';
+import { MediaItem } from '../interfaces/media-item.interface';
+import { SubtitleTrack } from '../accessibility/subtitle-track.interface';
+import { PostOrigin } from '../history/post-attempt.interface';
+import { TweetResponse } from '../twitter-video-uploader.service';
+
+export type UploadJobStatus =
+  | 'queued'
+  | 'running'
+  | 'done'
+  | 'failed'
+  | 'cancelled';
+
+export interface UploadJobMedia extends MediaItem {
+  // Whether `source` is a temporary file owned by the job
+  owned: boolean;
+  // Client-side name of an uploaded file
+  fileName?: string;
+}
+
+export interface UploadJob {
+  id: string;
+  status: UploadJobStatus;
+  stage: UploadStage | UploadJobStatus;
+  progress?: { current: number; total: number };
+  // Which media item the current stage refers to, for multi-media tweets
+  mediaProgress?: { index: number; count: number };
+  media: UploadJobMedia[];
+  options: {
+    tweetText?: string;
+    replyToTweetId?: string;
+    account?: string;
+    // Always an uploaded file owned by the job
+    subtitles?: SubtitleTrack;
+  };
+  origin?: PostOrigin;
+  tweetId?: string;
+  // Raw response of the tweet creation call
+  result?: TweetResponse;
+  error?: string;
+  // Stable UploaderError code, when the failure has one
+  errorCode?: string;
+  // Media uploaded before a later item of the set failed
+  unattachedMediaIds?: string[];
+  createdAt: string;
+  updatedAt: string;
+}
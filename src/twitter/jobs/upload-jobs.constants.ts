@@ -0,0 +1 @@
+export const UPLOAD_JOB_STORE = 'UPLOAD_JOB_STORE';
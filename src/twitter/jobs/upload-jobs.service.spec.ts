@@ -0,0 +1,204 @@
+import { ConfigService } from '@nestjs/config';
+import { lastValueFrom, toArray } from 'rxjs';
+import { PostHistoryService } from '../history/post-history.service';
+import { UploadEventsService } from '../progress/upload-events.service';
+import { InMemoryRecordStore } from '../storage/memory-record.store';
+import { TwitterVideoUploaderService } from '../twitter-video-uploader.service';
+import { UploadJob } from './upload-job.interface';
+import { UploadJobsService } from './upload-jobs.service';
+
+// Runs the post without recording it
+const history = {
+  record: (_context: unknown, run: (onProgress: () => void) => unknown) =>
+    run(() => undefined),
+} as unknown as PostHistoryService;
+
+describe('UploadJobsService', () => {
+  let store: InMemoryRecordStore<UploadJob>;
+  let uploadToTwitter: jest.Mock;
+  let service: UploadJobsService;
+  let events: UploadEventsService;
+
+  const remote = (source: string) => [{ source, owned: false }];
+
+  const waitForStatus = async (id: string, status: UploadJob['status']) => {
+    for (let i = 0; i < 50; i++) {
+      if ((await store.get(id))?.status === status) return;
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    throw new Error(`Job ${id} never reached ${status}`);
+  };
+
+  beforeEach(() => {
+    store = new InMemoryRecordStore<UploadJob>();
+    uploadToTwitter = jest.fn();
+    events = new UploadEventsService();
+    service = new UploadJobsService(
+      store,
+      { uploadToTwitter } as unknown as TwitterVideoUploaderService,
+      new ConfigService({ twitter: { jobs: { concurrency: 1 } } }),
+      events,
+      history,
+    );
+  });
+
+  it('runs a queued job and records the tweet id', async () => {
+    uploadToTwitter.mockImplementation(async (_source, options) => {
+      options.onProgress({ stage: 'append', current: 1, total: 2 });
+      return { data: { id: '123' } };
+    });
+
+    const job = await service.enqueue(remote('https://example.com/a.mp4'), {});
+    await waitForStatus(job.id, 'done');
+
+    expect(await service.get(job.id)).toMatchObject({
+      stage: 'done',
+      tweetId: '123',
+    });
+  });
+
+  it('publishes the progress of a job as events', async () => {
+    uploadToTwitter.mockImplementation(async (_source, options) => {
+      options.onProgress({ stage: 'append', current: 1, total: 2 });
+      return { data: { id: '123' } };
+    });
+
+    const job = await service.enqueue(remote('https://example.com/a.mp4'), {});
+    const received = await lastValueFrom(events.stream(job).pipe(toArray()));
+
+    expect(received.map(({ type }) => type)).toEqual([
+      'queued',
+      'started',
+      'segment_sent',
+      'tweet_created',
+    ]);
+    expect(received[2]).toMatchObject({ segment: 1, segments: 2 });
+    expect(received[3]).toMatchObject({ tweetId: '123', sequence: 4 });
+  });
+
+  it('keeps progress in memory and saves only stage changes', async () => {
+    let resume: (() => void) | undefined;
+    uploadToTwitter.mockImplementation(async (_source, options) => {
+      for (let current = 1; current <= 3; current++) {
+        options.onProgress({ stage: 'append', current, total: 3 });
+      }
+      await new Promise<void>((resolve) => (resume = resolve));
+      return { data: { id: '123' } };
+    });
+    const save = jest.spyOn(store, 'save');
+
+    const job = await service.enqueue(remote('https://example.com/a.mp4'), {});
+    while (!resume) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+
+    expect(await service.get(job.id)).toMatchObject({
+      stage: 'append',
+      progress: { current: 3, total: 3 },
+    });
+    // Queued, running, then append
+    expect(save).toHaveBeenCalledTimes(3);
+
+    resume();
+    await waitForStatus(job.id, 'done');
+    expect(save).toHaveBeenCalledTimes(4);
+  });
+
+  it('saves the tweeting stage before the tweet is sent', async () => {
+    const saved: UploadJob['stage'][] = [];
+    const save = store.save.bind(store);
+    jest.spyOn(store, 'save').mockImplementation(async (job) => {
+      const stage = job.stage;
+      // A slow disk: the save lands well after it was started
+      await new Promise((resolve) => setTimeout(resolve, 20));
+      saved.push(stage);
+      return save(job);
+    });
+    let savedWhenTweeting: UploadJob['stage'][] = [];
+    uploadToTwitter.mockImplementation(async (_source, options) => {
+      options.onProgress({ stage: 'tweeting', mediaIds: ['m1'] });
+      await options.beforeTweet?.(['m1']);
+      savedWhenTweeting = [...saved];
+      return { data: { id: '123' } };
+    });
+
+    const job = await service.enqueue(remote('https://example.com/a.mp4'), {});
+    await waitForStatus(job.id, 'done');
+
+    expect(savedWhenTweeting).toContain('tweeting');
+  });
+
+  it('records the error of a failed job', async () => {
+    uploadToTwitter.mockRejectedValue(new Error('boom'));
+
+    const job = await service.enqueue(remote('https://example.com/a.mp4'), {});
+    await waitForStatus(job.id, 'failed');
+
+    expect((await service.get(job.id)).error).toBe('boom');
+  });
+
+  it('cancels queued and running jobs', async () => {
+    uploadToTwitter.mockImplementation(
+      (_source, options) =>
+        new Promise((_resolve, reject) =>
+          options.signal.addEventListener('abort', () =>
+            reject(new Error('aborted')),
+          ),
+        ),
+    );
+
+    const first = await service.enqueue(
+      remote('https://example.com/a.mp4'),
+      {},
+    );
+    const second = await service.enqueue(
+      remote('https://example.com/b.mp4'),
+      {},
+    );
+    await waitForStatus(first.id, 'running');
+
+    await service.cancel(second.id);
+    expect((await service.get(second.id)).status).toBe('cancelled');
+
+    await service.cancel(first.id);
+    await waitForStatus(first.id, 'cancelled');
+    expect(uploadToTwitter).toHaveBeenCalledTimes(1);
+  });
+
+  it('requeues unfinished jobs on startup', async () => {
+    uploadToTwitter.mockResolvedValue({ data: { id: '456' } });
+    await store.save({
+      id: 'left-over',
+      status: 'running',
+      stage: 'append',
+      media: remote('https://example.com/a.mp4'),
+      options: {},
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+
+    await service.onModuleInit();
+    await waitForStatus('left-over', 'done');
+  });
+
+  it('fails jobs that were cut off while tweeting instead of posting again', async () => {
+    await store.save({
+      id: 'tweeting',
+      status: 'running',
+      stage: 'tweeting',
+      media: remote('https://example.com/a.mp4'),
+      options: {},
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString(),
+    });
+
+    await service.onModuleInit();
+
+    expect(await store.get('tweeting')).toMatchObject({
+      status: 'failed',
+      stage: 'failed',
+      errorCode: 'outcome_unknown',
+    });
+    expect(uploadToTwitter).not.toHaveBeenCalled();
+  });
+});
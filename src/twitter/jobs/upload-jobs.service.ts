@@ -0,0 +1,313 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import { KeyedLock } from '../concurrency/keyed-lock';
+import { RecordStore } from '../storage/record-store';
+import {
+  tweetIdOf,
+  TwitterVideoUploaderService,
+} from '../twitter-video-uploader.service';
+import { UploadProgress } from '../interfaces/upload-options.interface';
+import { MediaSetUploadError } from '../media/media-set';
+import {
+  errorCodeOf,
+  PostOutcomeUnknownError,
+} from '../errors/uploader-errors';
+import { UploadEventsService } from '../progress/upload-events.service';
+import { PostOrigin } from '../history/post-attempt.interface';
+import { PostHistoryService } from '../history/post-history.service';
+import { UploadJob, UploadJobMedia } from './upload-job.interface';
+import { UPLOAD_JOB_STORE } from './upload-jobs.constants';
+
+@Injectable()
+export class UploadJobsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(UploadJobsService.name);
+  private readonly concurrency: number;
+  private readonly pending: string[] = [];
+  private readonly running = new Map<string, AbortController>();
+  // Running jobs, whose progress is only saved when their stage changes
+  private readonly live = new Map<string, UploadJob>();
+  private readonly saves = new KeyedLock();
+  private shuttingDown = false;
+
+  constructor(
+    @Inject(UPLOAD_JOB_STORE) private readonly store: RecordStore<UploadJob>,
+    private readonly twitterService: TwitterVideoUploaderService,
+    configService: ConfigService,
+    private readonly events: UploadEventsService,
+    private readonly history: PostHistoryService,
+  ) {
+    this.concurrency = Math.max(
+      1,
+      configService.get<number>('twitter.jobs.concurrency') ?? 2,
+    );
+  }
+
+  async onModuleInit(): Promise<void> {
+    // Anything that was queued or still uploading when the process stopped
+    // is started over from the beginning. A job cut off while tweeting may
+    // have posted already, so it fails instead and is left to the client.
+    const jobs = await this.store.list();
+    const unfinished = jobs
+      .filter((job) => job.status === 'queued' || job.status === 'running')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    for (const job of unfinished) {
+      if (job.status === 'running' && job.stage === 'tweeting') {
+        const error = new PostOutcomeUnknownError(
+          'Interrupted by a service restart while tweeting; the tweet may already exist',
+        );
+        await this.finish(job, {
+          status: 'failed',
+          stage: 'failed',
+          progress: undefined,
+          mediaProgress: undefined,
+          error: error.message,
+          errorCode: error.code,
+        });
+        this.events.publish(job.id, {
+          type: 'failed',
+          error: error.message,
+          code: error.code,
+        });
+        continue;
+      }
+
+      await this.update(job, {
+        status: 'queued',
+        stage: 'queued',
+        progress: undefined,
+        mediaProgress: undefined,
+      });
+      this.events.publish(job.id, { type: 'queued' });
+      this.pending.push(job.id);
+    }
+
+    if (this.pending.length > 0) {
+      this.logger.log(
+        `Resuming ${this.pending.length} unfinished upload job(s)`,
+      );
+    }
+    this.drain();
+  }
+
+  onModuleDestroy(): void {
+    // Leave running jobs marked as running so they are picked up on restart
+    this.shuttingDown = true;
+    for (const controller of this.running.values()) {
+      controller.abort();
+    }
+  }
+
+  async enqueue(
+    media: UploadJobMedia[],
+    options: UploadJob['options'],
+    origin?: PostOrigin,
+    // Chosen up front when it is recorded before the job is queued
+    id: string = randomUUID(),
+  ): Promise<UploadJob> {
+    const now = new Date().toISOString();
+    const job: UploadJob = {
+      id,
+      status: 'queued',
+      stage: 'queued',
+      media,
+      options,
+      origin,
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.save(job);
+    this.events.publish(job.id, { type: 'queued' });
+    this.pending.push(job.id);
+    this.drain();
+
+    return job;
+  }
+
+  async get(id: string): Promise<UploadJob> {
+    const job = this.live.get(id) ?? (await this.store.get(id));
+    if (!job) {
+      throw new NotFoundException(`Upload job ${id} not found`);
+    }
+    return job;
+  }
+
+  async cancel(id: string): Promise<UploadJob> {
+    const job = await this.get(id);
+
+    if (job.status === 'queued') {
+      const index = this.pending.indexOf(id);
+      if (index !== -1) {
+        this.pending.splice(index, 1);
+      }
+      await this.finish(job, { status: 'cancelled', stage: 'cancelled' });
+      this.events.publish(id, { type: 'cancelled' });
+    } else if (job.status === 'running') {
+      // run() records the cancellation once the pipeline unwinds
+      this.running.get(id)?.abort();
+    }
+
+    return job;
+  }
+
+  private drain(): void {
+    while (
+      !this.shuttingDown &&
+      this.running.size < this.concurrency &&
+      this.pending.length > 0
+    ) {
+      const id = this.pending.shift()!;
+      const controller = new AbortController();
+      this.running.set(id, controller);
+
+      this.run(id, controller)
+        .catch((error) =>
+          this.logger.error(`Upload job ${id} crashed`, error as Error),
+        )
+        .finally(() => {
+          this.running.delete(id);
+          this.drain();
+        });
+    }
+  }
+
+  private async run(id: string, controller: AbortController): Promise<void> {
+    const job = await this.get(id);
+    this.live.set(id, job);
+    await this.update(job, { status: 'running' });
+    this.events.publish(id, { type: 'started' });
+
+    try {
+      const result = await this.history.record(
+        {
+          ...job.origin,
+          kind: 'upload',
+          sourceId: job.id,
+          account: job.options.account,
+          media: job.media,
+          signal: controller.signal,
+        },
+        (trackProgress) =>
+          this.twitterService.uploadToTwitter(
+            job.media.map(({ source, mimeType, altText }) => ({
+              source,
+              mimeType,
+              altText,
+            })),
+            {
+              ...job.options,
+              signal: controller.signal,
+              onProgress: (progress) => {
+                trackProgress(progress);
+                void this.recordProgress(job, progress);
+              },
+              // On disk before the tweet is sent, so a restart fails the
+              // job instead of posting it again
+              beforeTweet: () => this.update(job, { stage: 'tweeting' }),
+            },
+          ),
+      );
+
+      await this.finish(job, {
+        status: 'done',
+        stage: 'done',
+        progress: undefined,
+        mediaProgress: undefined,
+        tweetId: tweetIdOf(result),
+        result,
+      });
+      this.events.publish(id, { type: 'tweet_created', tweetId: job.tweetId! });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        if (!this.shuttingDown) {
+          await this.finish(job, { status: 'cancelled', stage: 'cancelled' });
+          this.events.publish(id, { type: 'cancelled' });
+        }
+        return;
+      }
+
+      await this.finish(job, {
+        status: 'failed',
+        stage: 'failed',
+        error: error instanceof Error ? error.message : 'Upload failed',
+        errorCode: errorCodeOf(error),
+        unattachedMediaIds:
+          error instanceof MediaSetUploadError
+            ? error.uploadedMediaIds
+            : undefined,
+      });
+      this.events.publish(id, {
+        type: 'failed',
+        error: job.error!,
+        code: job.errorCode,
+      });
+    } finally {
+      this.live.delete(id);
+    }
+  }
+
+  private async recordProgress(
+    job: UploadJob,
+    progress: UploadProgress,
+  ): Promise<void> {
+    this.events.publishProgress(job.id, progress);
+    const stageChanged = progress.stage !== job.stage;
+    Object.assign(job, {
+      stage: progress.stage,
+      progress:
+        progress.total !== undefined
+          ? { current: progress.current ?? 0, total: progress.total }
+          : undefined,
+      mediaProgress: progress.media,
+    });
+    // The tweeting stage is saved by beforeTweet, which is awaited
+    if (!stageChanged || progress.stage === 'tweeting') {
+      return;
+    }
+
+    try {
+      await this.update(job, {});
+    } catch (error) {
+      this.logger.warn(`Failed to record progress for job ${job.id}`, error);
+    }
+  }
+
+  private async finish(
+    job: UploadJob,
+    changes: Partial<UploadJob>,
+  ): Promise<void> {
+    await this.update(job, changes);
+
+    const ownedFiles = [
+      ...job.media.filter((media) => media.owned).map((media) => media.source),
+      ...(job.options.subtitles ? [job.options.subtitles.source] : []),
+    ];
+    for (const filePath of ownedFiles) {
+      try {
+        await fs.promises.unlink(filePath);
+      } catch (cleanupError) {
+        this.logger.warn('Failed to clean up temporary file', cleanupError);
+      }
+    }
+  }
+
+  // Progress saves are not awaited; saves of a job still land in order
+  private async update(
+    job: UploadJob,
+    changes: Partial<UploadJob>,
+  ): Promise<void> {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() });
+
+    await this.saves.run(job.id, () => this.store.save(job));
+  }
+}
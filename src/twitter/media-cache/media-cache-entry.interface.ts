@@ -0,0 +1,29 @@
+// A media id Twitter holds for some content, reusable by one account
+export interface MediaCacheEntry {
+  // `<account>:<sha256>`
+  id: string;
+  // SHA-256 of the file content
+  hash: string;
+  account: string;
+  mediaId: string;
+  bytes: number;
+  // How long the upload took, processing included
+  uploadMs: number;
+  // From expires_after_secs; the media id is useless afterwards
+  expiresAt: string;
+  hits: number;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+// Savings are counted since the process started
+export interface MediaCacheStats {
+  enabled: boolean;
+  entries: number;
+  expiredEntries: number;
+  hits: number;
+  misses: number;
+  bytesSaved: number;
+  uploadTimeSavedMs: number;
+  since: string;
+}
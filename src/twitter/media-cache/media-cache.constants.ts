@@ -0,0 +1 @@
+export const MEDIA_CACHE_STORE = 'MEDIA_CACHE_STORE';
@@ -0,0 +1,28 @@
+import { Controller, Delete, Get, Query } from '@nestjs/common';
+import { RequireScope } from '../auth/require-scope.decorator';
+import { MediaCacheStats } from './media-cache-entry.interface';
+import { MediaCacheService } from './media-cache.service';
+
+@Controller('twitter/media-cache')
+@RequireScope('admin')
+export class MediaCacheController {
+  constructor(private readonly mediaCache: MediaCacheService) {}
+
+  @Get()
+  stats(): Promise<MediaCacheStats> {
+    return this.mediaCache.stats();
+  }
+
+  // ?expired=true keeps media ids that can still be reused
+  @Delete()
+  async purge(
+    @Query('account') account?: string,
+    @Query('expired') expired?: string,
+  ): Promise<{ purged: number }> {
+    const purged = await this.mediaCache.purge({
+      account,
+      expiredOnly: expired === 'true',
+    });
+    return { purged };
+  }
+}
@@ -0,0 +1,91 @@
+import { ConfigService } from '@nestjs/config';
+import { TwitterAccountsService } from '../accounts/twitter-accounts.service';
+import { InMemoryRecordStore } from '../storage/memory-record.store';
+import { MediaCacheEntry } from './media-cache-entry.interface';
+import { MediaCacheService } from './media-cache.service';
+
+describe('MediaCacheService', () => {
+  let store: InMemoryRecordStore<MediaCacheEntry>;
+  let service: MediaCacheService;
+
+  const uploaded = (
+    account: string,
+    mediaId: string,
+    expiresAfterSecs = 3600,
+  ) =>
+    service.remember({
+      hash: 'abc',
+      account,
+      mediaId,
+      bytes: 1000,
+      uploadMs: 250,
+      expiresAfterSecs,
+      reportedAt: Date.now(),
+    });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: Date.parse('2026-03-01T12:00:00Z') });
+    store = new InMemoryRecordStore<MediaCacheEntry>();
+    const config = new ConfigService({
+      twitter: { defaultAccount: 'brand-a', mediaCache: { enabled: true } },
+    });
+    service = new MediaCacheService(
+      config,
+      new TwitterAccountsService(config),
+      store,
+    );
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  it('reuses media ids per account and counts the savings', async () => {
+    await uploaded('brand-a', 'm1');
+
+    // No account means the default one
+    await expect(service.find('abc')).resolves.toMatchObject({
+      mediaId: 'm1',
+      expiresAt: '2026-03-01T13:00:00.000Z',
+    });
+    await expect(service.find('abc', 'brand-b')).resolves.toBeUndefined();
+    expect(await service.stats()).toMatchObject({
+      entries: 1,
+      hits: 1,
+      misses: 1,
+      bytesSaved: 1000,
+      uploadTimeSavedMs: 250,
+    });
+    expect((await store.get('brand-a:abc'))?.hits).toBe(1);
+  });
+
+  it('stops reusing media ids shortly before they expire', async () => {
+    await uploaded('brand-a', 'm1', 3600);
+
+    jest.advanceTimersByTime(46 * 60 * 1000);
+    await expect(service.find('abc', 'brand-a')).resolves.toBeUndefined();
+    expect(await service.stats()).toMatchObject({
+      entries: 0,
+      expiredEntries: 1,
+    });
+  });
+
+  it('forgets reused media ids Twitter rejected', async () => {
+    await uploaded('brand-a', 'm1');
+    await uploaded('brand-b', 'm2');
+
+    // Only entries that were reused can be stale
+    await expect(service.forget(['m1', 'm2'])).resolves.toBe(0);
+    await service.find('abc', 'brand-a');
+    await expect(service.forget(['m1', 'm2'])).resolves.toBe(1);
+    await expect(service.find('abc', 'brand-a')).resolves.toBeUndefined();
+  });
+
+  it('purges expired entries or those of one account', async () => {
+    await uploaded('brand-a', 'm1', 60);
+    await uploaded('brand-b', 'm2');
+
+    await expect(service.purge({ expiredOnly: true })).resolves.toBe(1);
+    await expect(service.purge({ account: 'brand-a' })).resolves.toBe(0);
+    await expect(service.purge()).resolves.toBe(1);
+    expect(await store.list()).toEqual([]);
+  });
+});
@@ -0,0 +1,160 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { TwitterAccountsService } from '../accounts/twitter-accounts.service';
+import { RecordStore } from '../storage/record-store';
+import {
+  MediaCacheEntry,
+  MediaCacheStats,
+} from './media-cache-entry.interface';
+import { MEDIA_CACHE_STORE } from './media-cache.constants';
+
+// Leave enough time to process and tweet with a reused media id
+const MIN_REMAINING_MS = 15 * 60 * 1000;
+// Twitter's usual expires_after_secs, for responses without one
+const DEFAULT_EXPIRES_AFTER_SECS = 24 * 60 * 60;
+
+export interface UploadedMediaFacts {
+  hash: string;
+  account?: string;
+  mediaId: string;
+  bytes: number;
+  uploadMs: number;
+  expiresAfterSecs?: number;
+  // When Twitter reported expires_after_secs
+  reportedAt: number;
+}
+
+/**
+ * Remembers which media id Twitter holds for a file's content, per
+ * account, so posting the same media again skips INIT/APPEND/FINALIZE and
+ * processing while the media id is still valid.
+ */
+@Injectable()
+export class MediaCacheService {
+  private readonly logger = new Logger(MediaCacheService.name);
+  readonly enabled: boolean;
+  private readonly since = new Date().toISOString();
+  private hits = 0;
+  private misses = 0;
+  private bytesSaved = 0;
+  private uploadTimeSavedMs = 0;
+
+  constructor(
+    configService: ConfigService,
+    private readonly accounts: TwitterAccountsService,
+    @Inject(MEDIA_CACHE_STORE)
+    private readonly store: RecordStore<MediaCacheEntry>,
+  ) {
+    this.enabled =
+      configService.get<boolean>('twitter.mediaCache.enabled') ?? true;
+  }
+
+  /** The entry of earlier uploaded, identical content, if still valid. */
+  async find(
+    hash: string,
+    account?: string,
+  ): Promise<MediaCacheEntry | undefined> {
+    if (!this.enabled) {
+      return undefined;
+    }
+
+    const entry = await this.store.get(this.entryId(hash, account));
+    if (!entry || !this.isUsable(entry)) {
+      this.misses++;
+      return undefined;
+    }
+
+    this.hits++;
+    this.bytesSaved += entry.bytes;
+    this.uploadTimeSavedMs += entry.uploadMs;
+    entry.hits++;
+    entry.lastUsedAt = new Date().toISOString();
+    await this.store.save(entry);
+
+    this.logger.log(
+      `Reusing media ${entry.mediaId} for ${entry.account} (${entry.bytes} bytes)`,
+    );
+    return entry;
+  }
+
+  async remember(facts: UploadedMediaFacts): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    const expiresAfterSecs =
+      facts.expiresAfterSecs ?? DEFAULT_EXPIRES_AFTER_SECS;
+    await this.store.save({
+      id: this.entryId(facts.hash, facts.account),
+      hash: facts.hash,
+      account: this.accountName(facts.account),
+      mediaId: facts.mediaId,
+      bytes: facts.bytes,
+      uploadMs: facts.uploadMs,
+      expiresAt: new Date(
+        facts.reportedAt + expiresAfterSecs * 1000,
+      ).toISOString(),
+      hits: 0,
+      createdAt: new Date().toISOString(),
+    });
+  }
+
+  /**
+   * Drops reused media ids Twitter refused, so the next post uploads the
+   * content again. Returns how many were dropped.
+   */
+  async forget(mediaIds: string[]): Promise<number> {
+    const entries = (await this.store.list()).filter(
+      (entry) => entry.hits > 0 && mediaIds.includes(entry.mediaId),
+    );
+    for (const entry of entries) {
+      await this.store.delete(entry.id);
+    }
+    return entries.length;
+  }
+
+  async stats(): Promise<MediaCacheStats> {
+    const entries = await this.store.list();
+    const expiredEntries = entries.filter(
+      (entry) => !this.isUsable(entry),
+    ).length;
+
+    return {
+      enabled: this.enabled,
+      entries: entries.length - expiredEntries,
+      expiredEntries,
+      hits: this.hits,
+      misses: this.misses,
+      bytesSaved: this.bytesSaved,
+      uploadTimeSavedMs: this.uploadTimeSavedMs,
+      since: this.since,
+    };
+  }
+
+  /** Drops entries, optionally only expired ones or one account's. */
+  async purge(
+    options: { account?: string; expiredOnly?: boolean } = {},
+  ): Promise<number> {
+    const entries = (await this.store.list()).filter(
+      (entry) =>
+        (!options.account || entry.account === options.account) &&
+        (!options.expiredOnly || !this.isUsable(entry)),
+    );
+    for (const entry of entries) {
+      await this.store.delete(entry.id);
+    }
+    return entries.length;
+  }
+
+  private isUsable(entry: MediaCacheEntry): boolean {
+    return Date.parse(entry.expiresAt) - Date.now() > MIN_REMAINING_MS;
+  }
+
+  private accountName(account?: string): string {
+    return account || this.accounts.list().defaultAccount;
+  }
+
+  private entryId(hash: string, account?: string): string {
+    return `${this.accountName(account)}:${hash}`;
+  }
+}
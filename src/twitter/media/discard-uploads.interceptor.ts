@@ -0,0 +1,62 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Injectable,
+  Logger,
+  NestInterceptor,
+} from '@nestjs/common';
+import * as fs from 'fs';
+import { catchError, finalize, Observable } from 'rxjs';
+import { MulterFile } from './uploaded-file';
+
+const logger = new Logger('DiscardUploads');
+
+async function discardRequestFiles(request: any): Promise<void> {
+  await discardFiles([
+    ...(request.file ? [request.file] : []),
+    ...(Array.isArray(request.files)
+      ? request.files
+      : Object.values<MulterFile[]>(request.files ?? {}).flat()),
+  ]);
+}
+
+export async function discardFiles(files: MulterFile[]): Promise<void> {
+  for (const file of files) {
+    try {
+      await fs.promises.unlink(file.path);
+    } catch (cleanupError) {
+      logger.warn('Failed to discard uploaded file', cleanupError);
+    }
+  }
+}
+
+/**
+ * Multer writes request files to disk before the handler runs. Register
+ * this after the file interceptor so a rejected request leaves nothing
+ * behind in the uploads directory.
+ */
+@Injectable()
+export class DiscardUploadsOnErrorInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const request = context.switchToHttp().getRequest();
+
+    return next.handle().pipe(
+      catchError(async (error) => {
+        await discardRequestFiles(request);
+        throw error;
+      }),
+    );
+  }
+}
+
+// For handlers that only inspect request files and never keep them
+@Injectable()
+export class DiscardUploadsInterceptor implements NestInterceptor {
+  intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
+    const request = context.switchToHttp().getRequest();
+
+    return next
+      .handle()
+      .pipe(finalize(() => void discardRequestFiles(request)));
+  }
+}
@@ -0,0 +1,11 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+
+// SHA-256 of the file content, streamed so large videos stay out of memory
+export async function fingerprintFile(filePath: string): Promise<string> {
+  const hash = createHash('sha256');
+  for await (const chunk of fs.createReadStream(filePath)) {
+    hash.update(chunk as Buffer);
+  }
+  return hash.digest('hex');
+}
@@ -0,0 +1,52 @@
+import { BadRequestException } from '@nestjs/common';
+import { assertValidMediaSet, classifyMedia } from './media-set';
+
+describe('media-set', () => {
+  describe('classifyMedia', () => {
+    it('prefers the declared MIME type', () => {
+      expect(classifyMedia({ source: 'a.mp4', mimeType: 'image/png' })).toBe(
+        'image',
+      );
+      expect(classifyMedia({ source: 'a.png', mimeType: 'image/gif' })).toBe(
+        'gif',
+      );
+    });
+
+    it('falls back to the file or URL extension', () => {
+      expect(classifyMedia({ source: '/tmp/a.JPG' })).toBe('image');
+      expect(classifyMedia({ source: 'https://x.test/a.gif?size=1' })).toBe(
+        'gif',
+      );
+      expect(classifyMedia({ source: 'https://x.test/watch' })).toBe('video');
+    });
+  });
+
+  describe('assertValidMediaSet', () => {
+    const image = (name: string) => ({ source: `${name}.jpg` });
+
+    it('accepts up to four images or a single video', () => {
+      expect(assertValidMediaSet(['a', 'b', 'c', 'd'].map(image))).toEqual([
+        'image',
+        'image',
+        'image',
+        'image',
+      ]);
+      expect(assertValidMediaSet([{ source: 'a.mp4' }])).toEqual(['video']);
+    });
+
+    it('rejects more than four images', () => {
+      expect(() =>
+        assertValidMediaSet(['a', 'b', 'c', 'd', 'e'].map(image)),
+      ).toThrow(BadRequestException);
+    });
+
+    it('rejects mixing a video or GIF with other media', () => {
+      expect(() =>
+        assertValidMediaSet([image('a'), { source: 'b.mp4' }]),
+      ).toThrow(BadRequestException);
+      expect(() =>
+        assertValidMediaSet([{ source: 'a.gif' }, { source: 'b.gif' }]),
+      ).toThrow(BadRequestException);
+    });
+  });
+});
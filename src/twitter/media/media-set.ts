@@ -0,0 +1,69 @@
+import { BadRequestException } from '@nestjs/common';
+import * as path from 'path';
+import { MediaItem } from '../interfaces/media-item.interface';
+
+export type MediaKind = 'image' | 'gif' | 'video';
+
+export const MAX_IMAGES_PER_TWEET = 4;
+
+const IMAGE_EXTENSIONS = ['.jpg', '.jpeg', '.png', '.bmp', '.webp'];
+
+export function classifyMedia(item: MediaItem): MediaKind {
+  if (item.mimeType) {
+    if (item.mimeType === 'image/gif') return 'gif';
+    return item.mimeType.startsWith('image/') ? 'image' : 'video';
+  }
+
+  // URLs are classified by the extension of their path
+  const pathname = /^https?:\/\//.test(item.source)
+    ? new URL(item.source).pathname
+    : item.source;
+  const fileExt = path.extname(pathname).toLowerCase();
+
+  if (fileExt === '.gif') return 'gif';
+  return IMAGE_EXTENSIONS.includes(fileExt) ? 'image' : 'video';
+}
+
+/**
+ * Enforces the platform's attachment rules: up to four images, or exactly
+ * one video or GIF, never both. Returns the kind of every item.
+ */
+export function assertValidMediaSet(items: MediaItem[]): MediaKind[] {
+  if (items.length === 0) {
+    throw new BadRequestException('At least one media item is required');
+  }
+
+  const kinds = items.map(classifyMedia);
+  const hasVideoOrGif = kinds.some((kind) => kind !== 'image');
+
+  if (hasVideoOrGif && items.length > 1) {
+    throw new BadRequestException(
+      'A tweet can carry either one video/GIF or up to 4 images, not a mix',
+    );
+  }
+
+  if (items.length > MAX_IMAGES_PER_TWEET) {
+    throw new BadRequestException(
+      `A tweet can carry at most ${MAX_IMAGES_PER_TWEET} images`,
+    );
+  }
+
+  return kinds;
+}
+
+/**
+ * Raised when an item of a media set fails after earlier items were already
+ * uploaded. Twitter has no API to delete unattached media, so the ids are
+ * reported instead; they expire on their own.
+ */
+export class MediaSetUploadError extends Error {
+  constructor(
+    message: string,
+    readonly uploadedMediaIds: string[],
+    readonly failedIndex: number,
+    readonly originalError: unknown,
+  ) {
+    super(message);
+    this.name = 'MediaSetUploadError';
+  }
+}
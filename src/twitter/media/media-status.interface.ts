@@ -0,0 +1,24 @@
+// STATUS of an uploaded media item, as GET /twitter/media/:id reports it
+export interface MediaStatus {
+  mediaId: string;
+  // Absent for media Twitter does not process, such as images
+  state?: 'pending' | 'in_progress' | 'failed' | 'succeeded';
+  progressPercent?: number;
+  checkAfterSecs?: number;
+  error?: string;
+  // When Twitter forgets the media unless a tweet uses it
+  expiresAt?: string;
+}
+
+// INIT, FINALIZE and STATUS responses of Twitter's media upload endpoint
+export interface MediaUploadResponse {
+  media_id_string: string;
+  expires_after_secs?: number;
+  // Only for media Twitter processes after FINALIZE
+  processing_info?: {
+    state: 'pending' | 'in_progress' | 'failed' | 'succeeded';
+    progress_percent?: number;
+    check_after_secs?: number;
+    error?: { message?: string };
+  };
+}
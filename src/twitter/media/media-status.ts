@@ -0,0 +1,20 @@
+import { MediaStatus, MediaUploadResponse } from './media-status.interface';
+
+// Maps a STATUS response of Twitter's media upload endpoint
+export function toMediaStatus(
+  mediaId: string,
+  body: MediaUploadResponse,
+): MediaStatus {
+  const info = body.processing_info;
+  return {
+    mediaId: body.media_id_string ?? mediaId,
+    state: info?.state,
+    progressPercent: info?.progress_percent,
+    checkAfterSecs: info?.check_after_secs,
+    error: info?.error?.message,
+    expiresAt:
+      body.expires_after_secs !== undefined
+        ? new Date(Date.now() + body.expires_after_secs * 1000).toISOString()
+        : undefined,
+  };
+}
@@ -0,0 +1,74 @@
+import { BadRequestException } from '@nestjs/common';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  detectMediaType,
+  mediaCategoryFor,
+  sniffMediaType,
+} from './media-type';
+
+describe('media type detection', () => {
+  const header = (hex: string, ascii = '') =>
+    Buffer.concat([Buffer.from(hex, 'hex'), Buffer.from(ascii, 'latin1')]);
+
+  it('recognizes supported formats by their magic bytes', () => {
+    const cases: [Buffer, string][] = [
+      [header('ffd8ffe0'), 'image/jpeg'],
+      [header('89504e470d0a1a0a'), 'image/png'],
+      [header('', 'GIF89a'), 'image/gif'],
+      [header('', 'RIFF\0\0\0\0WEBPVP8 '), 'image/webp'],
+      [header('00000018', 'ftypmp42'), 'video/mp4'],
+      [header('00000014', 'ftypqt  '), 'video/quicktime'],
+      [header('00000008', 'wide'), 'video/quicktime'],
+    ];
+
+    for (const [bytes, mimeType] of cases) {
+      expect(sniffMediaType(bytes)?.mimeType).toBe(mimeType);
+    }
+    expect(sniffMediaType(Buffer.from('%PDF-1.7'))).toBeUndefined();
+  });
+
+  it('maps kinds to media categories', () => {
+    expect(mediaCategoryFor('image')).toBe('tweet_image');
+    expect(mediaCategoryFor('gif')).toBe('tweet_gif');
+    expect(mediaCategoryFor('video')).toBe('tweet_video');
+  });
+
+  describe('detectMediaType', () => {
+    let dir: string;
+    let pngPath: string;
+
+    beforeAll(async () => {
+      dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'media-type-'));
+      pngPath = path.join(dir, 'upload');
+      await fs.promises.writeFile(pngPath, header('89504e470d0a1a0a0000'));
+    });
+
+    afterAll(() => fs.promises.rm(dir, { recursive: true, force: true }));
+
+    it('accepts content matching the declared type', async () => {
+      await expect(
+        detectMediaType(pngPath, { source: 'a.png', mimeType: 'image/png' }),
+      ).resolves.toMatchObject({ kind: 'image', extension: 'png' });
+    });
+
+    it('rejects content that contradicts the MIME type or extension', async () => {
+      await expect(
+        detectMediaType(pngPath, { source: 'a.png', mimeType: 'video/mp4' }),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        detectMediaType(pngPath, { source: 'https://cdn.test/a.jpg' }),
+      ).rejects.toThrow('declared as image/jpeg but contains image/png');
+    });
+
+    it('rejects unrecognized content', async () => {
+      const textPath = path.join(dir, 'notes.mp4');
+      await fs.promises.writeFile(textPath, 'just some text');
+
+      await expect(detectMediaType(textPath)).rejects.toThrow(
+        'Unsupported media content',
+      );
+    });
+  });
+});
@@ -0,0 +1,134 @@
+import { BadRequestException } from '@nestjs/common';
+import * as fs from 'fs';
+import * as path from 'path';
+import { MediaItem } from '../interfaces/media-item.interface';
+import { MediaKind } from './media-set';
+
+export type MediaCategory =
+  | 'tweet_image'
+  | 'tweet_gif'
+  | 'tweet_video'
+  // Caption files bound to a video
+  | 'subtitles';
+
+export interface DetectedMediaType {
+  mimeType: string;
+  kind: MediaKind;
+  // Without the dot, used to name downloaded files
+  extension: string;
+}
+
+// Enough to cover every signature below
+const HEADER_BYTES = 16;
+
+const VIDEO_MIME_TYPES = ['video/mp4', 'video/quicktime'];
+
+// What a file name or URL path claims to contain
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.mp4': 'video/mp4',
+  '.m4v': 'video/mp4',
+  '.mov': 'video/quicktime',
+};
+
+// QuickTime files without an ftyp box start with one of these atoms
+const QUICKTIME_ATOMS = ['moov', 'mdat', 'wide', 'free', 'skip', 'pnot'];
+
+/** Identifies a supported media format from the first bytes of a file. */
+export function sniffMediaType(header: Buffer): DetectedMediaType | undefined {
+  const ascii = (start: number, end: number) =>
+    header.subarray(start, end).toString('latin1');
+
+  if (header[0] === 0xff && header[1] === 0xd8 && header[2] === 0xff) {
+    return { mimeType: 'image/jpeg', kind: 'image', extension: 'jpg' };
+  }
+  if (
+    header
+      .subarray(0, 8)
+      .equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))
+  ) {
+    return { mimeType: 'image/png', kind: 'image', extension: 'png' };
+  }
+  if (ascii(0, 6) === 'GIF87a' || ascii(0, 6) === 'GIF89a') {
+    return { mimeType: 'image/gif', kind: 'gif', extension: 'gif' };
+  }
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') {
+    return { mimeType: 'image/webp', kind: 'image', extension: 'webp' };
+  }
+  if (ascii(4, 8) === 'ftyp') {
+    return ascii(8, 12) === 'qt  '
+      ? { mimeType: 'video/quicktime', kind: 'video', extension: 'mov' }
+      : { mimeType: 'video/mp4', kind: 'video', extension: 'mp4' };
+  }
+  if (QUICKTIME_ATOMS.includes(ascii(4, 8))) {
+    return { mimeType: 'video/quicktime', kind: 'video', extension: 'mov' };
+  }
+  return undefined;
+}
+
+export async function sniffFile(
+  filePath: string,
+): Promise<DetectedMediaType | undefined> {
+  const fileHandle = await fs.promises.open(filePath, 'r');
+  try {
+    const header = Buffer.alloc(HEADER_BYTES);
+    const { bytesRead } = await fileHandle.read(header, 0, HEADER_BYTES, 0);
+    return sniffMediaType(header.subarray(0, bytesRead));
+  } finally {
+    await fileHandle.close();
+  }
+}
+
+export function mediaCategoryFor(kind: MediaKind): MediaCategory {
+  return kind === 'image'
+    ? 'tweet_image'
+    : kind === 'gif'
+      ? 'tweet_gif'
+      : 'tweet_video';
+}
+
+// The explicit MIME type, else the one implied by the extension
+export function declaredMimeType(item: MediaItem): string | undefined {
+  if (item.mimeType) {
+    return item.mimeType === 'image/jpg' ? 'image/jpeg' : item.mimeType;
+  }
+
+  const pathname = /^https?:\/\//.test(item.source)
+    ? new URL(item.source).pathname
+    : item.source;
+  return EXTENSION_MIME_TYPES[path.extname(pathname).toLowerCase()];
+}
+
+/**
+ * Sniffs a local file and checks it against what `declared` claims it is.
+ * MP4 and MOV share a container format, so either satisfies the other.
+ */
+export async function detectMediaType(
+  filePath: string,
+  declared: MediaItem = { source: filePath },
+): Promise<DetectedMediaType> {
+  const detected = await sniffFile(filePath);
+  if (!detected) {
+    throw new BadRequestException(
+      `Unsupported media content in ${path.basename(declared.source)}; expected MP4, MOV, JPEG, PNG, GIF or WEBP`,
+    );
+  }
+
+  const expected = declaredMimeType(declared);
+  const matches =
+    !expected ||
+    expected === detected.mimeType ||
+    (VIDEO_MIME_TYPES.includes(expected) &&
+      VIDEO_MIME_TYPES.includes(detected.mimeType));
+
+  if (!matches) {
+    throw new BadRequestException(
+      `${path.basename(declared.source)} is declared as ${expected} but contains ${detected.mimeType}`,
+    );
+  }
+  return detected;
+}
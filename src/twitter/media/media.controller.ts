@@ -0,0 +1,134 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+  Req,
+  UploadedFiles,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileFieldsInterceptor } from '@nestjs/platform-express';
+import {
+  assertValidAccessibility,
+  parseAltTexts,
+} from '../accessibility/alt-text';
+import { TwitterAccountsService } from '../accounts/twitter-accounts.service';
+import { ApiAccessService } from '../auth/api-access.service';
+import { ApiRequest } from '../auth/api-client.interface';
+import { RequireScope } from '../auth/require-scope.decorator';
+import { MediaDownloaderService } from '../downloads/media-downloader.service';
+import { fromTwitterError } from '../errors/twitter-error.mapper';
+import { UploadedMediaSet } from '../interfaces/media-item.interface';
+import { TwitterVideoUploaderService } from '../twitter-video-uploader.service';
+import { DiscardUploadsInterceptor } from './discard-uploads.interceptor';
+import { MAX_IMAGES_PER_TWEET } from './media-set';
+import { toMediaStatus } from './media-status';
+import { MediaStatus, MediaUploadResponse } from './media-status.interface';
+import { MulterFile, parseUrlList, prepareMediaSet } from './uploaded-file';
+
+interface UploadedMedia extends UploadedMediaSet {
+  // Post the media ids with POST /twitter/tweets
+  account: string;
+}
+
+/**
+ * Uploads media without tweeting, so it can be reviewed and published
+ * later through POST /twitter/tweets.
+ */
+@Controller('twitter/media')
+@RequireScope('upload')
+export class MediaController {
+  constructor(
+    private readonly twitterService: TwitterVideoUploaderService,
+    private readonly accounts: TwitterAccountsService,
+    private readonly downloader: MediaDownloaderService,
+    private readonly apiAccess: ApiAccessService,
+  ) {}
+
+  // Same media fields as /twitter/upload; answers once Twitter has
+  // processed every item
+  @Post()
+  @UseInterceptors(
+    FileFieldsInterceptor([
+      { name: 'file', maxCount: 1 },
+      { name: 'files', maxCount: MAX_IMAGES_PER_TWEET },
+    ]),
+    DiscardUploadsInterceptor,
+  )
+  async upload(
+    @Req() request: ApiRequest,
+    @Body('videoUrl') videoUrl?: string,
+    @Body('mediaUrls') mediaUrls?: string | string[],
+    @Body('altText') altText?: string | string[],
+    @Body('account') account?: string,
+    @UploadedFiles()
+    uploaded: { file?: MulterFile[]; files?: MulterFile[] } = {},
+  ): Promise<UploadedMedia> {
+    const files = [...(uploaded.file ?? []), ...(uploaded.files ?? [])];
+    const urls = [...(videoUrl ? [videoUrl] : []), ...parseUrlList(mediaUrls)];
+
+    if (urls.length === 0 && files.length === 0) {
+      throw new HttpException(
+        'Either a media URL or a file must be provided',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    this.accounts.resolve(account);
+    this.apiAccess.assertAccount(request, account);
+    await this.downloader.assertAllowedUrls(urls);
+
+    const media = await prepareMediaSet(files, urls);
+    const altTexts = parseAltTexts(altText);
+    if (altTexts.length > media.length) {
+      throw new HttpException(
+        `altText has ${altTexts.length} entries for ${media.length} media item(s)`,
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    altTexts.forEach((text, index) => (media[index].altText = text));
+    await assertValidAccessibility(media);
+
+    const { mediaIds, expiresAt } = await this.twitterService.uploadMediaSet(
+      media.map(({ source, mimeType, altText }) => ({
+        source,
+        mimeType,
+        altText,
+      })),
+      { account },
+    );
+
+    return {
+      mediaIds,
+      account: account || this.accounts.list().defaultAccount,
+      expiresAt,
+    };
+  }
+
+  @Get(':id')
+  async status(
+    @Req() request: ApiRequest,
+    @Param('id') id: string,
+    @Query('account') account?: string,
+  ): Promise<MediaStatus> {
+    if (!/^\d+$/.test(id)) {
+      throw new BadRequestException(`Invalid media id: ${id}`);
+    }
+    this.accounts.resolve(account);
+    this.apiAccess.assertAccount(request, account);
+
+    let body: MediaUploadResponse;
+    try {
+      body = await this.twitterService.checkMediaStatus(id, account);
+    } catch (error) {
+      throw fromTwitterError(error, 'media');
+    }
+
+    return toMediaStatus(id, body);
+  }
+}
@@ -0,0 +1,93 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { UploadJobMedia } from '../jobs/upload-job.interface';
+import { assertValidMediaSet } from './media-set';
+import { detectMediaType } from './media-type';
+
+// Add type definition
+export interface MulterFile {
+  fieldname: string;
+  originalname: string;
+  encoding: string;
+  mimetype: string;
+  // Multer disk storage: where the request file was streamed to
+  path: string;
+  size: number;
+}
+
+// Accepts repeated form fields, a JSON array or a comma-separated list
+export function parseUrlList(value?: string | string[]): string[] {
+  if (!value) {
+    return [];
+  }
+  if (Array.isArray(value)) {
+    return value.filter(Boolean);
+  }
+
+  const trimmed = value.trim();
+  if (trimmed.startsWith('[')) {
+    try {
+      return (JSON.parse(trimmed) as string[]).filter(Boolean);
+    } catch {
+      throw new HttpException(
+        'mediaUrls must be a JSON array or a comma-separated list',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+  }
+  return trimmed
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean);
+}
+
+export function assertAllowedMimeType(file: MulterFile): void {
+  const allowedMimeTypes = [
+    'video/mp4',
+    'video/quicktime',
+    'image/jpeg',
+    'image/png',
+    'image/gif',
+    'image/webp',
+  ];
+
+  if (!allowedMimeTypes.includes(file.mimetype)) {
+    throw new HttpException(
+      'Unsupported file type. Only MP4, QuickTime videos, JPEG, PNG, GIF, and WEBP are allowed',
+      HttpStatus.BAD_REQUEST,
+    );
+  }
+}
+
+// Checks the declared type and the file content; returns the sniffed type
+export async function inspectUploadedFile(file: MulterFile): Promise<string> {
+  assertAllowedMimeType(file);
+  const detected = await detectMediaType(file.path, {
+    source: file.originalname,
+    mimeType: file.mimetype,
+  });
+  return detected.mimeType;
+}
+
+/**
+ * Validates uploaded files and URLs as the media set of one tweet. Files
+ * keep their upload order and come first.
+ */
+export async function prepareMediaSet(
+  files: MulterFile[],
+  urls: string[],
+): Promise<UploadJobMedia[]> {
+  const media: UploadJobMedia[] = [];
+  for (const file of files) {
+    media.push({
+      source: file.path,
+      mimeType: await inspectUploadedFile(file),
+      owned: true,
+      fileName: file.originalname,
+    });
+  }
+
+  media.push(...urls.map((url) => ({ source: url, owned: false })));
+  assertValidMediaSet(media);
+
+  return media;
+}
@@ -0,0 +1,33 @@
+import { UploadStage } from '../interfaces/upload-options.interface';
+
+interface MediaRef {
+  // Which item of a multi-media tweet the event refers to (1-based)
+  media?: { index: number; count: number };
+}
+
+export type UploadEventBody =
+  | { type: 'queued' }
+  | { type: 'started' }
+  | ({ type: 'downloading'; bytes: number; totalBytes?: number } & MediaRef)
+  // Segment `segment` of `segments` was acknowledged by Twitter
+  | ({ type: 'segment_sent'; segment: number; segments: number } & MediaRef)
+  // Twitter reports `percent` only for some media
+  | ({ type: 'processing'; percent?: number } & MediaRef)
+  // Steps without a measurable amount: init, finalize, metadata, tweeting
+  | ({ type: 'stage'; stage: UploadStage } & MediaRef)
+  | { type: 'tweet_created'; tweetId: string }
+  | { type: 'failed'; error: string; code?: string }
+  | { type: 'cancelled' };
+
+export type UploadEvent = UploadEventBody & {
+  uploadId: string;
+  // Increases by one per event of an upload
+  sequence: number;
+  at: string;
+};
+
+export const TERMINAL_EVENT_TYPES: UploadEvent['type'][] = [
+  'tweet_created',
+  'failed',
+  'cancelled',
+];
@@ -0,0 +1,30 @@
+import { Controller, MessageEvent, Param, Req, Sse } from '@nestjs/common';
+import { map, Observable } from 'rxjs';
+import { ApiAccessService } from '../auth/api-access.service';
+import { ApiRequest } from '../auth/api-client.interface';
+import { RequireScope } from '../auth/require-scope.decorator';
+import { UploadJobsService } from '../jobs/upload-jobs.service';
+import { UploadEventsService } from './upload-events.service';
+
+@Controller('twitter/uploads')
+@RequireScope('upload')
+export class UploadEventsController {
+  constructor(
+    private readonly uploadJobs: UploadJobsService,
+    private readonly events: UploadEventsService,
+    private readonly apiAccess: ApiAccessService,
+  ) {}
+
+  // Unnamed SSE messages, so EventSource#onmessage sees every event type
+  @Sse(':id/events')
+  async streamEvents(
+    @Req() request: ApiRequest,
+    @Param('id') id: string,
+  ): Promise<Observable<MessageEvent>> {
+    const job = await this.uploadJobs.get(id);
+    this.apiAccess.assertAccount(request, job.options.account);
+    return this.events
+      .stream(job)
+      .pipe(map((event) => ({ id: String(event.sequence), data: event })));
+  }
+}
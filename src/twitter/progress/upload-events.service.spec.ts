@@ -0,0 +1,80 @@
+import { lastValueFrom, toArray } from 'rxjs';
+import { UploadJob } from '../jobs/upload-job.interface';
+import { UploadEventsService } from './upload-events.service';
+
+describe('UploadEventsService', () => {
+  let events: UploadEventsService;
+
+  const job = (changes: Partial<UploadJob> = {}): UploadJob => ({
+    id: 'job-1',
+    status: 'running',
+    stage: 'append',
+    media: [],
+    options: {},
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...changes,
+  });
+
+  beforeEach(() => {
+    events = new UploadEventsService();
+  });
+
+  afterEach(() => events.onModuleDestroy());
+
+  it('starts late subscribers at the latest event', async () => {
+    events.publish('job-1', { type: 'started' });
+    events.publishProgress('job-1', {
+      stage: 'append',
+      current: 2,
+      total: 5,
+    });
+
+    const received = lastValueFrom(events.stream(job()).pipe(toArray()));
+    events.publishProgress('job-1', { stage: 'processing', percent: 40 });
+    events.publish('job-1', { type: 'tweet_created', tweetId: 't-1' });
+
+    expect(await received).toEqual([
+      expect.objectContaining({
+        type: 'segment_sent',
+        segment: 2,
+        sequence: 2,
+      }),
+      expect.objectContaining({ type: 'processing', percent: 40 }),
+      expect.objectContaining({ type: 'tweet_created', tweetId: 't-1' }),
+    ]);
+  });
+
+  it('replays the final event after the upload finished', async () => {
+    events.publish('job-1', {
+      type: 'failed',
+      error: 'Unsupported',
+      code: 'media_processing_failed',
+    });
+    // Nothing is published after a terminal event
+    events.publish('job-1', { type: 'started' });
+
+    expect(await lastValueFrom(events.stream(job()).pipe(toArray()))).toEqual([
+      expect.objectContaining({
+        type: 'failed',
+        code: 'media_processing_failed',
+      }),
+    ]);
+  });
+
+  it('rebuilds the state of jobs it has no events for', async () => {
+    expect(
+      await lastValueFrom(
+        events.stream(job({ status: 'done', tweetId: 't-9' })).pipe(toArray()),
+      ),
+    ).toEqual([
+      {
+        type: 'tweet_created',
+        tweetId: 't-9',
+        uploadId: 'job-1',
+        sequence: 0,
+        at: '2026-01-01T00:00:00.000Z',
+      },
+    ]);
+  });
+});
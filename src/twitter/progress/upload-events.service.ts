@@ -0,0 +1,147 @@
+import { Injectable, OnModuleDestroy } from '@nestjs/common';
+import { concat, defer, Observable, of, Subject } from 'rxjs';
+import { UploadProgress } from '../interfaces/upload-options.interface';
+import { UploadJob } from '../jobs/upload-job.interface';
+import {
+  TERMINAL_EVENT_TYPES,
+  UploadEvent,
+  UploadEventBody,
+} from './upload-event.interface';
+
+// How long the final event stays available to late subscribers
+const FINISHED_RETENTION_MS = 5 * 60 * 1000;
+
+interface EventStream {
+  subject: Subject<UploadEvent>;
+  latest?: UploadEvent;
+  sequence: number;
+  cleanup?: NodeJS.Timeout;
+}
+
+/**
+ * Publishes the progress of uploads as typed events. Subscribers receive
+ * the latest event first, then everything after it; streams complete on
+ * tweet_created, failed or cancelled.
+ */
+@Injectable()
+export class UploadEventsService implements OnModuleDestroy {
+  private readonly streams = new Map<string, EventStream>();
+
+  publish(uploadId: string, body: UploadEventBody): void {
+    const stream = this.streamFor(uploadId);
+    if (stream.subject.closed || stream.subject.isStopped) {
+      return;
+    }
+
+    const event: UploadEvent = {
+      ...body,
+      uploadId,
+      sequence: ++stream.sequence,
+      at: new Date().toISOString(),
+    };
+    stream.latest = event;
+    stream.subject.next(event);
+
+    if (TERMINAL_EVENT_TYPES.includes(event.type)) {
+      stream.subject.complete();
+      stream.cleanup = setTimeout(
+        () => this.streams.delete(uploadId),
+        FINISHED_RETENTION_MS,
+      );
+      stream.cleanup.unref();
+    }
+  }
+
+  /** Maps the uploader's progress callback to an event. */
+  publishProgress(uploadId: string, progress: UploadProgress): void {
+    const { stage, media } = progress;
+    switch (stage) {
+      case 'downloading':
+        return this.publish(uploadId, {
+          type: 'downloading',
+          bytes: progress.bytes ?? 0,
+          totalBytes: progress.totalBytes,
+          media,
+        });
+      case 'append':
+        return this.publish(uploadId, {
+          type: 'segment_sent',
+          segment: progress.current ?? 0,
+          segments: progress.total ?? 0,
+          media,
+        });
+      case 'processing':
+        return this.publish(uploadId, {
+          type: 'processing',
+          percent: progress.percent,
+          media,
+        });
+      default:
+        return this.publish(uploadId, { type: 'stage', stage, media });
+    }
+  }
+
+  /**
+   * Events of an upload job, starting with its current state. Jobs that
+   * finished before the last restart or retention period only get a final
+   * event rebuilt from the job record.
+   */
+  stream(job: UploadJob): Observable<UploadEvent> {
+    return defer(() => {
+      let stream = this.streams.get(job.id);
+      if (!stream) {
+        const snapshot = this.snapshot(job);
+        if (TERMINAL_EVENT_TYPES.includes(snapshot.type)) {
+          return of({
+            ...snapshot,
+            uploadId: job.id,
+            sequence: 0,
+            at: job.updatedAt,
+          } as UploadEvent);
+        }
+        this.publish(job.id, snapshot);
+        stream = this.streams.get(job.id)!;
+      }
+
+      return stream.latest
+        ? concat(of(stream.latest), stream.subject)
+        : stream.subject;
+    });
+  }
+
+  onModuleDestroy(): void {
+    for (const stream of this.streams.values()) {
+      clearTimeout(stream.cleanup);
+      stream.subject.complete();
+    }
+    this.streams.clear();
+  }
+
+  private streamFor(uploadId: string): EventStream {
+    let stream = this.streams.get(uploadId);
+    if (!stream) {
+      stream = { subject: new Subject<UploadEvent>(), sequence: 0 };
+      this.streams.set(uploadId, stream);
+    }
+    return stream;
+  }
+
+  private snapshot(job: UploadJob): UploadEventBody {
+    switch (job.status) {
+      case 'done':
+        return { type: 'tweet_created', tweetId: job.tweetId ?? '' };
+      case 'failed':
+        return {
+          type: 'failed',
+          error: job.error ?? 'Upload failed',
+          code: job.errorCode,
+        };
+      case 'cancelled':
+        return { type: 'cancelled' };
+      case 'queued':
+        return { type: 'queued' };
+      default:
+        return { type: 'started' };
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import { ConfigService } from '@nestjs/config';
+import { AxiosError } from 'axios';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TwitterAccountsService } from '../accounts/twitter-accounts.service';
+import { TwitterClient } from '../client/twitter-client.service';
+import { MediaDownloaderService } from '../downloads/media-downloader.service';
+import { MediaCacheService } from '../media-cache/media-cache.service';
+import { InMemoryRecordStore } from '../storage/memory-record.store';
+import { TwitterVideoUploaderService } from '../twitter-video-uploader.service';
+import { MediaValidationService } from '../validation/media-validation.service';
+import { UploadSession } from './upload-session.interface';
+
+describe('resumable chunked uploads', () => {
+  let dir: string;
+  let filePath: string;
+  let sessions: InMemoryRecordStore<UploadSession>;
+  let service: TwitterVideoUploaderService;
+  let post: jest.SpyInstance;
+
+  const config = new ConfigService({
+    twitter: {
+      consumerKey: 'key',
+      consumerSecret: 'secret',
+      defaultAccount: 'main',
+      accounts: { main: { accessToken: 'token', accessTokenSecret: 'ts' } },
+      upload: { chunkSizeBytes: 4, maxChunksInFlight: 1 },
+      client: { maxRetries: 2 },
+    },
+  });
+
+  const commandOf = (body: unknown) =>
+    body instanceof FormData
+      ? `APPEND:${body.get('segment_index')}`
+      : (body as { command: string }).command;
+
+  const sentCommands = () =>
+    post.mock.calls.map(([{ data }]) => commandOf(data));
+
+  const twitterError = (status: number) =>
+    new AxiosError('failed', String(status), undefined, undefined, {
+      status,
+      data: { errors: [{ message: 'Invalid or expired media_id' }] },
+      headers: {},
+    } as any);
+
+  const respond = async ({ data }: { data: unknown }) => ({
+    headers: {},
+    data:
+      commandOf(data) === 'INIT'
+        ? { media_id_string: 'm-1', expires_after_secs: 3600 }
+        : { media_id_string: 'm-1' },
+  });
+
+  beforeEach(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'resumable-'));
+    filePath = path.join(dir, 'clip.mp4');
+    // An MP4 ftyp header, 3 segments of up to 4 bytes
+    await fs.promises.writeFile(
+      filePath,
+      Buffer.from('\0\0\0\x0cftypisom', 'latin1'),
+    );
+
+    sessions = new InMemoryRecordStore<UploadSession>();
+    const accounts = new TwitterAccountsService(config);
+    const client = new TwitterClient(config, accounts);
+    service = new TwitterVideoUploaderService(
+      config,
+      accounts,
+      sessions,
+      {} as MediaValidationService,
+      {} as MediaDownloaderService,
+      client,
+      {} as MediaCacheService,
+    );
+    jest.spyOn(client as any, 'calculateBackoffTime').mockReturnValue(0);
+    post = jest
+      .spyOn((client as any).http, 'request')
+      .mockImplementation(respond);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  // Leaves a saved session behind by failing the upload at `failAt`
+  const interruptUpload = async (failAt: string): Promise<UploadSession> => {
+    post.mockImplementation(async (config) => {
+      if (commandOf(config.data) === failAt) {
+        throw twitterError(413);
+      }
+      return respond(config);
+    });
+    await expect(service.uploadVideo(filePath)).rejects.toThrow();
+
+    post.mockReset().mockImplementation(respond);
+    const [session] = await sessions.list();
+    return session;
+  };
+
+  it('uploads every segment and forgets the session once finalized', async () => {
+    await service.uploadVideo(filePath);
+
+    expect(sentCommands()).toEqual([
+      'INIT',
+      'APPEND:0',
+      'APPEND:1',
+      'APPEND:2',
+      'FINALIZE',
+    ]);
+    expect(post.mock.calls[0][0].data).toMatchObject({
+      media_type: 'video/mp4',
+      media_category: 'tweet_video',
+    });
+    expect(await sessions.list()).toEqual([]);
+  });
+
+  it('continues after the last acknowledged segment', async () => {
+    const session = await interruptUpload('APPEND:2');
+    expect(session.acknowledgedSegments).toEqual([0, 1]);
+
+    await service.uploadVideo(filePath);
+
+    expect(sentCommands()).toEqual(['APPEND:2', 'FINALIZE']);
+    expect(post.mock.calls[0][0].data.get('media_id')).toBe('m-1');
+  });
+
+  it('starts over when the saved media session has expired', async () => {
+    const session = await interruptUpload('APPEND:1');
+    session.expiresAt = new Date(Date.now() - 1000).toISOString();
+
+    await service.uploadVideo(filePath);
+
+    expect(sentCommands()[0]).toBe('INIT');
+  });
+
+  it('re-initializes once when Twitter no longer knows the media id', async () => {
+    await interruptUpload('APPEND:1');
+    post.mockImplementationOnce(async () => {
+      throw twitterError(400);
+    });
+
+    await service.uploadVideo(filePath);
+
+    expect(sentCommands()).toEqual([
+      'APPEND:1',
+      'INIT',
+      'APPEND:0',
+      'APPEND:1',
+      'APPEND:2',
+      'FINALIZE',
+    ]);
+  });
+
+  it('retries a failed segment without restarting the upload', async () => {
+    post.mockImplementationOnce(respond).mockImplementationOnce(async () => {
+      throw twitterError(503);
+    });
+
+    await service.uploadVideo(filePath);
+
+    expect(sentCommands()).toEqual([
+      'INIT',
+      'APPEND:0',
+      'APPEND:0',
+      'APPEND:1',
+      'APPEND:2',
+      'FINALIZE',
+    ]);
+  });
+
+  it('keeps progress when segments keep failing', async () => {
+    post.mockImplementation(async (config) => {
+      if (commandOf(config.data) === 'APPEND:2') {
+        throw twitterError(503);
+      }
+      return respond(config);
+    });
+
+    await expect(service.uploadVideo(filePath)).rejects.toThrow();
+
+    const [session] = await sessions.list();
+    expect(session.acknowledgedSegments).toEqual([0, 1]);
+  });
+});
@@ -0,0 +1,15 @@
+export interface UploadSession {
+  // Hash of the signing account, media type and file fingerprint
+  id: string;
+  fingerprint: string;
+  mediaId: string;
+  mediaType: string;
+  totalBytes: number;
+  chunkSize: number;
+  // segment_index values Twitter has acknowledged so far
+  acknowledgedSegments: number[];
+  // From INIT's expires_after_secs; the media id is useless afterwards
+  expiresAt: string;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1 @@
+export const UPLOAD_SESSION_STORE = 'UPLOAD_SESSION_STORE';
@@ -0,0 +1,41 @@
+import { PostOrigin } from '../history/post-attempt.interface';
+import { UploadJobMedia } from '../jobs/upload-job.interface';
+
+export type ScheduledPostStatus =
+  | 'scheduled'
+  | 'publishing'
+  | 'published'
+  | 'failed'
+  | 'missed'
+  | 'cancelled';
+
+export type MissedPostPolicy = 'publish' | 'skip';
+
+export interface ScheduledPostRun {
+  startedAt: string;
+  finishedAt: string;
+  outcome: 'published' | 'failed' | 'skipped' | 'interrupted';
+  // How late the run started relative to publishAt
+  latenessMs: number;
+  tweetId?: string;
+  error?: string;
+}
+
+export interface ScheduledPost {
+  id: string;
+  status: ScheduledPostStatus;
+  publishAt: string;
+  media: UploadJobMedia[];
+  tweetText?: string;
+  replyToTweetId?: string;
+  account?: string;
+  origin?: PostOrigin;
+  // Upload media ahead of time and only create the tweet at publishAt
+  preUpload: boolean;
+  preUploadedMediaIds?: string[];
+  preUploadedAt?: string;
+  tweetId?: string;
+  runs: ScheduledPostRun[];
+  createdAt: string;
+  updatedAt: string;
+}
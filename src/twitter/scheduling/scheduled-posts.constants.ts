@@ -0,0 +1 @@
+export const SCHEDULED_POST_STORE = 'SCHEDULED_POST_STORE';
@@ -0,0 +1,224 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpException,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UploadedFiles,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileFieldsInterceptor } from '@nestjs/platform-express';
+import { TwitterAccountsService } from '../accounts/twitter-accounts.service';
+import { ApiAccessService } from '../auth/api-access.service';
+import { ApiRequest } from '../auth/api-client.interface';
+import { PostReservation } from '../auth/api-usage-record.interface';
+import { RequireScope } from '../auth/require-scope.decorator';
+import { MediaDownloaderService } from '../downloads/media-downloader.service';
+import { postOriginOf } from '../history/post-origin';
+import { DiscardUploadsOnErrorInterceptor } from '../media/discard-uploads.interceptor';
+import { MAX_IMAGES_PER_TWEET } from '../media/media-set';
+import {
+  MulterFile,
+  parseUrlList,
+  prepareMediaSet,
+} from '../media/uploaded-file';
+import { TweetTemplatesService } from '../text/tweet-templates.service';
+import { assertTweetTextFits } from '../text/tweet-text';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { ScheduledPost, ScheduledPostStatus } from './scheduled-post.interface';
+import {
+  ScheduledPostChanges,
+  ScheduledPostsService,
+} from './scheduled-posts.service';
+
+@Controller('twitter/scheduled')
+@RequireScope('schedule')
+export class ScheduledPostsController {
+  constructor(
+    private readonly scheduledPosts: ScheduledPostsService,
+    private readonly accounts: TwitterAccountsService,
+    private readonly downloader: MediaDownloaderService,
+    private readonly apiAccess: ApiAccessService,
+    private readonly templates: TweetTemplatesService,
+    private readonly webhooks: WebhooksService,
+  ) {}
+
+  @Post()
+  @UseInterceptors(
+    FileFieldsInterceptor([
+      { name: 'file', maxCount: 1 },
+      { name: 'files', maxCount: MAX_IMAGES_PER_TWEET },
+    ]),
+    DiscardUploadsOnErrorInterceptor,
+  )
+  async schedule(
+    @Req() request: ApiRequest,
+    @Body('publishAt') publishAt?: string,
+    @Body('videoUrl') videoUrl?: string,
+    @Body('mediaUrls') mediaUrls?: string | string[],
+    @Body('tweetText') tweetText?: string,
+    @Body('replyToTweetId') replyToTweetId?: string,
+    @Body('account') account?: string,
+    @Body('preUpload') preUpload?: string | boolean,
+    @Body('template') template?: string,
+    @Body('templateVars') templateVars?: string | Record<string, unknown>,
+    @Body('callbackUrl') callbackUrl?: string,
+    @UploadedFiles()
+    uploaded: { file?: MulterFile[]; files?: MulterFile[] } = {},
+  ): Promise<ScheduledPost> {
+    const files = [...(uploaded.file ?? []), ...(uploaded.files ?? [])];
+    const urls = [...(videoUrl ? [videoUrl] : []), ...parseUrlList(mediaUrls)];
+
+    if (urls.length === 0 && files.length === 0) {
+      throw new HttpException(
+        'Either a media URL or a file must be provided',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    const publishDate = this.parsePublishAt(publishAt);
+    this.accounts.resolve(account);
+    this.apiAccess.assertAccount(request, account);
+    // {{date}} is the day the post goes out
+    const text = this.templates.compose(
+      { tweetText, template, templateVars },
+      {
+        filename: files[0]?.originalname ?? urls[0],
+        account,
+        date: new Date(publishDate),
+      },
+    );
+    if (text !== undefined) {
+      assertTweetTextFits(text);
+    }
+    const callback = await this.webhooks.assertCallbackUrl(callbackUrl);
+    await this.downloader.assertAllowedUrls(urls);
+
+    // Files stay on disk until the post is published or cancelled
+    const media = await prepareMediaSet(files, urls);
+
+    // Counted against today's quota, whatever day it is published on
+    const reservation = await this.apiAccess.authorizePosts(
+      request,
+      account,
+      1,
+    );
+    try {
+      return await this.scheduledPosts.schedule({
+        publishAt: publishDate,
+        media,
+        tweetText: text,
+        replyToTweetId,
+        account,
+        preUpload: preUpload === true || preUpload === 'true',
+        origin: postOriginOf(request, callback),
+      });
+    } catch (error) {
+      // Nothing was stored, so nothing will be published
+      await this.apiAccess.refundPosts(reservation);
+      throw error;
+    }
+  }
+
+  // Only posts of the accounts the key may use
+  @Get()
+  async list(
+    @Req() request: ApiRequest,
+    @Query('status') status?: ScheduledPostStatus,
+  ): Promise<ScheduledPost[]> {
+    const posts = await this.scheduledPosts.list(status);
+    return posts.filter((post) =>
+      this.apiAccess.mayUseAccount(request, post.account),
+    );
+  }
+
+  @Get(':id')
+  get(
+    @Req() request: ApiRequest,
+    @Param('id') id: string,
+  ): Promise<ScheduledPost> {
+    return this.getOwned(request, id);
+  }
+
+  @Patch(':id')
+  async update(
+    @Req() request: ApiRequest,
+    @Param('id') id: string,
+    @Body() body: ScheduledPostChanges,
+  ): Promise<ScheduledPost> {
+    await this.getOwned(request, id);
+    const changes: ScheduledPostChanges = {};
+
+    if (body.publishAt !== undefined) {
+      changes.publishAt = this.parsePublishAt(body.publishAt);
+    }
+    if (body.account !== undefined) {
+      this.accounts.resolve(body.account);
+      this.apiAccess.assertAccount(request, body.account);
+      changes.account = body.account;
+    }
+    if (body.tweetText !== undefined) {
+      assertTweetTextFits(body.tweetText);
+      changes.tweetText = body.tweetText;
+    }
+    if (body.replyToTweetId !== undefined) {
+      changes.replyToTweetId = body.replyToTweetId;
+    }
+    if (body.preUpload !== undefined) {
+      // Sent as 'true' or 'false' in forms, like for POST
+      const preUpload: unknown = body.preUpload;
+      changes.preUpload = preUpload === true || preUpload === 'true';
+    }
+
+    let reservation: PostReservation | undefined;
+    try {
+      return await this.scheduledPosts.update(id, changes, async (post) => {
+        // Publishing it again is another post of the key's quota
+        reservation = await this.apiAccess.authorizePosts(
+          request,
+          changes.account ?? post.account,
+          1,
+        );
+      });
+    } catch (error) {
+      await this.apiAccess.refundPosts(reservation);
+      throw error;
+    }
+  }
+
+  @Delete(':id')
+  async cancel(
+    @Req() request: ApiRequest,
+    @Param('id') id: string,
+  ): Promise<ScheduledPost> {
+    await this.getOwned(request, id);
+    return this.scheduledPosts.cancel(id);
+  }
+
+  private async getOwned(
+    request: ApiRequest,
+    id: string,
+  ): Promise<ScheduledPost> {
+    const post = await this.scheduledPosts.get(id);
+    this.apiAccess.assertAccount(request, post.account);
+    return post;
+  }
+
+  // Returns the timestamp normalized to ISO 8601
+  private parsePublishAt(publishAt?: string): string {
+    const timestamp = publishAt ? Date.parse(publishAt) : NaN;
+    if (Number.isNaN(timestamp)) {
+      throw new HttpException(
+        'publishAt must be a valid ISO 8601 timestamp',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return new Date(timestamp).toISOString();
+  }
+}
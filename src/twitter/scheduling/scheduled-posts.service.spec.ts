@@ -0,0 +1,206 @@
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import { SandboxModeError } from '../errors/uploader-errors';
+import { PostHistoryService } from '../history/post-history.service';
+import { InMemoryRecordStore } from '../storage/memory-record.store';
+import { TwitterVideoUploaderService } from '../twitter-video-uploader.service';
+import { ScheduledPost } from './scheduled-post.interface';
+import { ScheduledPostsService } from './scheduled-posts.service';
+
+// Runs the post without recording it
+const history = {
+  record: (_context: unknown, run: (onProgress: () => void) => unknown) =>
+    run(() => undefined),
+} as unknown as PostHistoryService;
+
+describe('ScheduledPostsService', () => {
+  const minutes = (n: number) =>
+    new Date(Date.now() + n * 60_000).toISOString();
+  const media = [{ source: 'https://x.test/a.mp4', owned: false }];
+
+  let store: InMemoryRecordStore<ScheduledPost>;
+  let twitterService: Record<string, jest.Mock>;
+
+  const createService = (missedPolicy = 'publish') =>
+    new ScheduledPostsService(
+      store,
+      twitterService as unknown as TwitterVideoUploaderService,
+      new ConfigService({
+        twitter: {
+          scheduler: {
+            pollIntervalMs: 1000,
+            missedGraceMs: 5 * 60_000,
+            missedPolicy,
+            preUploadLeadMs: 30 * 60_000,
+          },
+        },
+      }),
+      history,
+    );
+
+  beforeEach(() => {
+    store = new InMemoryRecordStore<ScheduledPost>();
+    twitterService = {
+      uploadToTwitter: jest.fn(async () => ({ data: { id: 'tweet-1' } })),
+      uploadMediaSet: jest.fn(async () => ({
+        mediaIds: ['media-1'],
+        expiresAt: '2026-03-02T12:00:00.000Z',
+      })),
+      createTweet: jest.fn(async () => ({ data: { id: 'tweet-2' } })),
+    };
+  });
+
+  it('publishes due posts and records the run', async () => {
+    const service = createService();
+    const due = await service.schedule({ publishAt: minutes(-1), media });
+    const later = await service.schedule({ publishAt: minutes(60), media });
+
+    await service.tick();
+
+    expect(await service.get(due.id)).toMatchObject({
+      status: 'published',
+      tweetId: 'tweet-1',
+      runs: [{ outcome: 'published', tweetId: 'tweet-1' }],
+    });
+    expect((await service.get(later.id)).status).toBe('scheduled');
+  });
+
+  it('skips missed posts when the policy says so', async () => {
+    const service = createService('skip');
+    const missed = await service.schedule({ publishAt: minutes(-60), media });
+
+    await service.tick();
+
+    expect(twitterService.uploadToTwitter).not.toHaveBeenCalled();
+    expect(await service.get(missed.id)).toMatchObject({
+      status: 'missed',
+      runs: [{ outcome: 'skipped' }],
+    });
+  });
+
+  it('uploads media ahead of time and only tweets at publish time', async () => {
+    const service = createService();
+    const post = await service.schedule({
+      publishAt: minutes(10),
+      media,
+      preUpload: true,
+    });
+
+    await service.tick();
+    expect(twitterService.uploadMediaSet).toHaveBeenCalledTimes(1);
+    expect((await service.get(post.id)).preUploadedMediaIds).toEqual([
+      'media-1',
+    ]);
+
+    await service.update(post.id, { publishAt: minutes(-1) });
+    await service.tick();
+
+    expect(twitterService.uploadToTwitter).not.toHaveBeenCalled();
+    expect(twitterService.createTweet).toHaveBeenCalledWith(
+      ['media-1'],
+      undefined,
+      undefined,
+      undefined,
+    );
+    expect((await service.get(post.id)).tweetId).toBe('tweet-2');
+  });
+
+  it('does not publish a post cancelled while an earlier one was posting', async () => {
+    const service = createService();
+    const first = await service.schedule({ publishAt: minutes(-2), media });
+    const second = await service.schedule({ publishAt: minutes(-1), media });
+    twitterService.uploadToTwitter.mockImplementationOnce(async () => {
+      await service.cancel(second.id);
+      return { data: { id: 'tweet-1' } };
+    });
+
+    await service.tick();
+
+    expect((await service.get(first.id)).status).toBe('published');
+    expect((await service.get(second.id)).status).toBe('cancelled');
+    expect(twitterService.uploadToTwitter).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops media pre-uploaded for an account the post no longer uses', async () => {
+    const service = createService();
+    const post = await service.schedule({
+      publishAt: minutes(10),
+      media,
+      preUpload: true,
+    });
+    twitterService.uploadMediaSet.mockImplementationOnce(async () => {
+      await service.update(post.id, { account: 'brand-b' });
+      return { mediaIds: ['media-1'], expiresAt: '2026-03-02T12:00:00.000Z' };
+    });
+
+    await service.tick();
+
+    expect(await service.get(post.id)).toMatchObject({
+      status: 'scheduled',
+      account: 'brand-b',
+      preUploadedMediaIds: undefined,
+    });
+  });
+
+  it('keeps posts and their files when sandbox mode refuses them', async () => {
+    const service = createService();
+    const post = await service.schedule({
+      publishAt: minutes(-1),
+      media: [{ source: '/tmp/uploads/clip.mp4', owned: true }],
+    });
+    twitterService.uploadToTwitter.mockRejectedValueOnce(
+      new SandboxModeError('Sandbox mode is on; only dry runs are accepted'),
+    );
+    const unlink = jest.spyOn(fs.promises, 'unlink');
+
+    await service.tick();
+
+    expect(await service.get(post.id)).toMatchObject({
+      status: 'failed',
+      runs: [{ outcome: 'failed' }],
+    });
+    expect(unlink).not.toHaveBeenCalled();
+    unlink.mockRestore();
+  });
+
+  it('re-arms failed posts that are edited, and only those', async () => {
+    twitterService.uploadToTwitter.mockRejectedValueOnce(new Error('boom'));
+    const service = createService();
+    const failed = await service.schedule({ publishAt: minutes(-1), media });
+    const later = await service.schedule({ publishAt: minutes(60), media });
+    await service.tick();
+    const rearm = jest.fn(async () => undefined);
+
+    await service.update(later.id, { tweetText: 'Still later' }, rearm);
+    expect(rearm).not.toHaveBeenCalled();
+
+    await service.update(failed.id, { publishAt: minutes(30) }, rearm);
+    expect(rearm).toHaveBeenCalledTimes(1);
+    expect(rearm).toHaveBeenCalledWith(
+      expect.objectContaining({ id: failed.id }),
+    );
+    expect((await service.get(failed.id)).status).toBe('scheduled');
+
+    // A post that may not be re-armed stays as it was
+    const refused = await service.schedule({ publishAt: minutes(-1), media });
+    twitterService.uploadToTwitter.mockRejectedValueOnce(new Error('boom'));
+    await service.tick();
+    await expect(
+      service.update(refused.id, { tweetText: 'Again' }, async () => {
+        throw new Error('Quota exceeded');
+      }),
+    ).rejects.toThrow('Quota exceeded');
+    const unchanged = await service.get(refused.id);
+    expect(unchanged.status).toBe('failed');
+    expect(unchanged.tweetText).toBeUndefined();
+  });
+
+  it('does not allow editing a published post', async () => {
+    const service = createService();
+    const post = await service.schedule({ publishAt: minutes(-1), media });
+    await service.tick();
+
+    await expect(service.cancel(post.id)).rejects.toThrow(ConflictException);
+  });
+});
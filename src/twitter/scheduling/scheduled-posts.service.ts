@@ -0,0 +1,363 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import { KeyedLock } from '../concurrency/keyed-lock';
+import { PostHistoryService } from '../history/post-history.service';
+import { RecordStore } from '../storage/record-store';
+import {
+  tweetIdOf,
+  TwitterVideoUploaderService,
+} from '../twitter-video-uploader.service';
+import {
+  MissedPostPolicy,
+  ScheduledPost,
+  ScheduledPostRun,
+  ScheduledPostStatus,
+} from './scheduled-post.interface';
+import { SCHEDULED_POST_STORE } from './scheduled-posts.constants';
+
+// Twitter discards unattached media after roughly 24 hours
+const PRE_UPLOADED_MEDIA_TTL_MS = 23 * 60 * 60 * 1000;
+
+export type ScheduledPostChanges = Partial<
+  Pick<
+    ScheduledPost,
+    'publishAt' | 'tweetText' | 'replyToTweetId' | 'account' | 'preUpload'
+  >
+>;
+
+@Injectable()
+export class ScheduledPostsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ScheduledPostsService.name);
+  private readonly pollIntervalMs: number;
+  private readonly missedGraceMs: number;
+  private readonly missedPolicy: MissedPostPolicy;
+  private readonly preUploadLeadMs: number;
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+  // Serializes status changes of each post within this process
+  private readonly locks = new KeyedLock();
+
+  constructor(
+    @Inject(SCHEDULED_POST_STORE)
+    private readonly store: RecordStore<ScheduledPost>,
+    private readonly twitterService: TwitterVideoUploaderService,
+    configService: ConfigService,
+    private readonly history: PostHistoryService,
+  ) {
+    this.pollIntervalMs =
+      configService.get<number>('twitter.scheduler.pollIntervalMs') ?? 15000;
+    this.missedGraceMs =
+      configService.get<number>('twitter.scheduler.missedGraceMs') ?? 300000;
+    this.missedPolicy =
+      configService.get<MissedPostPolicy>('twitter.scheduler.missedPolicy') ??
+      'publish';
+    this.preUploadLeadMs =
+      configService.get<number>('twitter.scheduler.preUploadLeadMs') ?? 1800000;
+  }
+
+  async onModuleInit(): Promise<void> {
+    // A post still marked as publishing was cut off by a restart. Its tweet
+    // may already exist, so it is not retried automatically.
+    for (const post of await this.store.list()) {
+      if (post.status === 'publishing') {
+        const now = new Date();
+        await this.recordRun(post, 'failed', {
+          startedAt: now.toISOString(),
+          finishedAt: now.toISOString(),
+          outcome: 'interrupted',
+          latenessMs: now.getTime() - Date.parse(post.publishAt),
+          error: 'Interrupted by a service restart',
+        });
+      }
+    }
+
+    this.timer = setInterval(() => void this.tick(), this.pollIntervalMs);
+    void this.tick();
+  }
+
+  onModuleDestroy(): void {
+    clearInterval(this.timer);
+  }
+
+  async schedule(
+    post: Pick<
+      ScheduledPost,
+      | 'publishAt'
+      | 'media'
+      | 'tweetText'
+      | 'replyToTweetId'
+      | 'account'
+      | 'origin'
+    > & { preUpload?: boolean },
+  ): Promise<ScheduledPost> {
+    const now = new Date().toISOString();
+    const scheduled: ScheduledPost = {
+      ...post,
+      id: randomUUID(),
+      status: 'scheduled',
+      preUpload: post.preUpload ?? false,
+      runs: [],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.save(scheduled);
+    return scheduled;
+  }
+
+  async list(status?: ScheduledPostStatus): Promise<ScheduledPost[]> {
+    const posts = await this.store.list();
+    return posts
+      .filter((post) => !status || post.status === status)
+      .sort((a, b) => a.publishAt.localeCompare(b.publishAt));
+  }
+
+  async get(id: string): Promise<ScheduledPost> {
+    const post = await this.store.get(id);
+    if (!post) {
+      throw new NotFoundException(`Scheduled post ${id} not found`);
+    }
+    return post;
+  }
+
+  /**
+   * Edits a post that has not been published. A failed or missed post is
+   * scheduled again; its first attempt used up what it was authorized for,
+   * so `rearm` is called with it first, under the post's lock.
+   */
+  async update(
+    id: string,
+    changes: ScheduledPostChanges,
+    rearm: (post: ScheduledPost) => Promise<void> = async () => undefined,
+  ): Promise<ScheduledPost> {
+    return this.locks.run(id, async () => {
+      const post = await this.getEditable(id);
+      if (post.status !== 'scheduled') {
+        await rearm(post);
+      }
+
+      // Pre-uploaded media belongs to the account it was uploaded with
+      if (changes.account !== undefined && changes.account !== post.account) {
+        post.preUploadedMediaIds = undefined;
+        post.preUploadedAt = undefined;
+      }
+
+      await this.save(post, { ...changes, status: 'scheduled' });
+      return post;
+    });
+  }
+
+  async cancel(id: string): Promise<ScheduledPost> {
+    return this.locks.run(id, async () => {
+      const post = await this.getEditable(id);
+      await this.save(post, { status: 'cancelled' });
+      await this.releaseFiles(post);
+      return post;
+    });
+  }
+
+  // Runs due posts and pre-uploads media for posts that are coming up
+  async tick(): Promise<void> {
+    if (this.ticking) {
+      return;
+    }
+    this.ticking = true;
+
+    try {
+      for (const { id } of await this.list('scheduled')) {
+        // Earlier posts of this tick may have taken a while
+        const post = await this.locks.run(id, () => this.claim(id));
+        if (post?.status === 'publishing') {
+          await this.publish(post);
+        } else if (post) {
+          await this.preUpload(post);
+        }
+      }
+    } catch (error) {
+      this.logger.error('Scheduler tick failed', error);
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Re-reads a post and returns it if it is still scheduled and has work to
+   * do. Due posts are moved to publishing (or missed) right away, so update
+   * and cancel no longer apply to them while they are being published.
+   */
+  private async claim(id: string): Promise<ScheduledPost | undefined> {
+    const post = await this.store.get(id);
+    if (post?.status !== 'scheduled') {
+      return undefined;
+    }
+
+    const now = new Date();
+    const latenessMs = now.getTime() - Date.parse(post.publishAt);
+    if (latenessMs < 0) {
+      const wantsPreUpload =
+        post.preUpload &&
+        !post.preUploadedMediaIds &&
+        -latenessMs <= this.preUploadLeadMs;
+      return wantsPreUpload ? post : undefined;
+    }
+
+    if (latenessMs > this.missedGraceMs && this.missedPolicy === 'skip') {
+      this.logger.warn(
+        `Skipping scheduled post ${post.id}: missed by ${latenessMs}ms`,
+      );
+      await this.recordRun(post, 'missed', {
+        startedAt: now.toISOString(),
+        finishedAt: now.toISOString(),
+        outcome: 'skipped',
+        latenessMs,
+      });
+      return undefined;
+    }
+
+    await this.save(post, { status: 'publishing' });
+    return post;
+  }
+
+  private async publish(post: ScheduledPost): Promise<void> {
+    const startedAt = new Date();
+    const latenessMs = startedAt.getTime() - Date.parse(post.publishAt);
+
+    try {
+      const preUploaded = this.hasUsablePreUpload(post);
+      const response = await this.history.record(
+        {
+          ...post.origin,
+          kind: 'scheduled',
+          sourceId: post.id,
+          account: post.account,
+          media: post.media,
+          mediaIds: preUploaded ? post.preUploadedMediaIds : undefined,
+        },
+        (onProgress) =>
+          preUploaded
+            ? this.twitterService.createTweet(
+                post.preUploadedMediaIds!,
+                post.tweetText,
+                post.replyToTweetId,
+                post.account,
+              )
+            : this.twitterService.uploadToTwitter(
+                post.media.map(({ source, mimeType }) => ({
+                  source,
+                  mimeType,
+                })),
+                {
+                  tweetText: post.tweetText,
+                  replyToTweetId: post.replyToTweetId,
+                  account: post.account,
+                  onProgress,
+                },
+              ),
+      );
+
+      const tweetId = tweetIdOf(response);
+      post.tweetId = tweetId;
+      await this.recordRun(post, 'published', {
+        startedAt: startedAt.toISOString(),
+        finishedAt: new Date().toISOString(),
+        outcome: 'published',
+        latenessMs,
+        tweetId,
+      });
+      await this.releaseFiles(post);
+    } catch (error) {
+      this.logger.error(`Scheduled post ${post.id} failed`, error);
+      await this.recordRun(post, 'failed', {
+        startedAt: startedAt.toISOString(),
+        finishedAt: new Date().toISOString(),
+        outcome: 'failed',
+        latenessMs,
+        error: error instanceof Error ? error.message : 'Publishing failed',
+      });
+    }
+  }
+
+  private async preUpload(post: ScheduledPost): Promise<void> {
+    const { id, account } = post;
+    let changes: Partial<ScheduledPost>;
+    try {
+      const { mediaIds } = await this.twitterService.uploadMediaSet(
+        post.media.map(({ source, mimeType }) => ({ source, mimeType })),
+        { account: post.account },
+      );
+      changes = {
+        preUploadedMediaIds: mediaIds,
+        preUploadedAt: new Date().toISOString(),
+      };
+      this.logger.log(`Pre-uploaded media for scheduled post ${id}`);
+    } catch (error) {
+      // Not fatal: the full pipeline runs again at publish time
+      this.logger.warn(`Pre-upload failed for scheduled post ${id}`, error);
+      changes = { preUpload: false };
+    }
+
+    await this.locks.run(id, async () => {
+      // Cancelled or moved to another account while uploading
+      const current = await this.store.get(id);
+      if (current?.status === 'scheduled' && current.account === account) {
+        await this.save(current, changes);
+      }
+    });
+  }
+
+  private hasUsablePreUpload(post: ScheduledPost): boolean {
+    return (
+      !!post.preUploadedMediaIds &&
+      !!post.preUploadedAt &&
+      Date.now() - Date.parse(post.preUploadedAt) < PRE_UPLOADED_MEDIA_TTL_MS
+    );
+  }
+
+  // Failed and missed posts stay editable so they can be rescheduled
+  private async getEditable(id: string): Promise<ScheduledPost> {
+    const post = await this.get(id);
+    if (!['scheduled', 'failed', 'missed'].includes(post.status)) {
+      throw new ConflictException(
+        `Scheduled post ${id} is ${post.status} and can no longer be changed`,
+      );
+    }
+    return post;
+  }
+
+  private async recordRun(
+    post: ScheduledPost,
+    status: ScheduledPostStatus,
+    run: ScheduledPostRun,
+  ): Promise<void> {
+    post.runs.push(run);
+    await this.save(post, { status });
+  }
+
+  private async releaseFiles(post: ScheduledPost): Promise<void> {
+    for (const item of post.media.filter((media) => media.owned)) {
+      try {
+        await fs.promises.unlink(item.source);
+      } catch (cleanupError) {
+        this.logger.warn('Failed to clean up temporary file', cleanupError);
+      }
+    }
+  }
+
+  private async save(
+    post: ScheduledPost,
+    changes: Partial<ScheduledPost>,
+  ): Promise<void> {
+    Object.assign(post, changes, { updatedAt: new Date().toISOString() });
+    await this.store.save(post);
+  }
+}
@@ -0,0 +1,75 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RecordStore } from './record-store';
+
+/**
+ * Keeps every record in memory and mirrors the whole set to a JSON file.
+ * Writes are serialized and go through a temp file + rename so a crash
+ * never leaves a half-written store behind.
+ */
+export class FileRecordStore<T extends { id: string }> extends RecordStore<T> {
+  private records?: Map<string, T>;
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {
+    super();
+  }
+
+  async get(id: string): Promise<T | undefined> {
+    const records = await this.load();
+    return records.get(id);
+  }
+
+  async list(): Promise<T[]> {
+    const records = await this.load();
+    return [...records.values()];
+  }
+
+  async save(record: T): Promise<void> {
+    const records = await this.load();
+    records.set(record.id, record);
+    await this.flush();
+  }
+
+  async delete(id: string): Promise<void> {
+    const records = await this.load();
+    if (records.delete(id)) {
+      await this.flush();
+    }
+  }
+
+  private async load(): Promise<Map<string, T>> {
+    if (this.records) {
+      return this.records;
+    }
+
+    let entries: T[] = [];
+    try {
+      const raw = await fs.promises.readFile(this.filePath, 'utf8');
+      entries = JSON.parse(raw) as T[];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    // Another caller may have finished loading while we were reading
+    if (!this.records) {
+      this.records = new Map(entries.map((entry) => [entry.id, entry]));
+    }
+    return this.records;
+  }
+
+  private flush(): Promise<void> {
+    const write = async () => {
+      const snapshot = JSON.stringify([...this.records!.values()], null, 2);
+      const tempPath = `${this.filePath}.tmp`;
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(tempPath, snapshot);
+      await fs.promises.rename(tempPath, this.filePath);
+    };
+
+    this.writeChain = this.writeChain.then(write, write);
+    return this.writeChain;
+  }
+}
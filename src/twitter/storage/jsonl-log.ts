@@ -0,0 +1,49 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Append-only JSON Lines file for records written once and never changed,
+ * such as the post history. Appends are serialized; a line torn by a crash
+ * is skipped when reading.
+ */
+export class JsonlLog<T> {
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private readonly filePath: string) {}
+
+  append(record: T): Promise<void> {
+    const write = async () => {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.appendFile(
+        this.filePath,
+        JSON.stringify(record) + '\n',
+      );
+    };
+
+    this.writeChain = this.writeChain.then(write, write);
+    return this.writeChain;
+  }
+
+  // In the order they were appended
+  async readAll(): Promise<T[]> {
+    let raw = '';
+    try {
+      raw = await fs.promises.readFile(this.filePath, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+
+    return raw.split('\n').flatMap((line) => {
+      if (!line.trim()) {
+        return [];
+      }
+      try {
+        return [JSON.parse(line) as T];
+      } catch {
+        return [];
+      }
+    });
+  }
+}
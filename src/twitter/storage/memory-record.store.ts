@@ -0,0 +1,23 @@
+import { RecordStore } from './record-store';
+
+export class InMemoryRecordStore<
+  T extends { id: string },
+> extends RecordStore<T> {
+  private readonly records = new Map<string, T>();
+
+  async get(id: string): Promise<T | undefined> {
+    return this.records.get(id);
+  }
+
+  async list(): Promise<T[]> {
+    return [...this.records.values()];
+  }
+
+  async save(record: T): Promise<void> {
+    this.records.set(record.id, record);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+}
@@ -0,0 +1,43 @@
+import { FactoryProvider } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+import { FileRecordStore } from './file-record.store';
+import { JsonlLog } from './jsonl-log';
+
+/**
+ * Default binding for a store token: a JSON file in `twitter.dataDir`,
+ * unless `pathConfigKey` points somewhere else. Replace the provider to
+ * back a feature with a different RecordStore.
+ */
+export function fileRecordStoreProvider(
+  token: string,
+  fileName: string,
+  pathConfigKey?: string,
+): FactoryProvider {
+  return {
+    provide: token,
+    useFactory: (configService: ConfigService) =>
+      new FileRecordStore(
+        (pathConfigKey && configService.get<string>(pathConfigKey)) ||
+          path.join(configService.get<string>('twitter.dataDir')!, fileName),
+      ),
+    inject: [ConfigService],
+  };
+}
+
+// Same placement rules as fileRecordStoreProvider, for append-only logs
+export function jsonlLogProvider(
+  token: string,
+  fileName: string,
+  pathConfigKey?: string,
+): FactoryProvider {
+  return {
+    provide: token,
+    useFactory: (configService: ConfigService) =>
+      new JsonlLog(
+        (pathConfigKey && configService.get<string>(pathConfigKey)) ||
+          path.join(configService.get<string>('twitter.dataDir')!, fileName),
+      ),
+    inject: [ConfigService],
+  };
+}
@@ -0,0 +1,10 @@
+/**
+ * Minimal persistence contract shared by the uploader's stateful features.
+ * Implementations only need to be durable enough for a single process.
+ */
+export abstract class RecordStore<T extends { id: string }> {
+  abstract get(id: string): Promise<T | undefined>;
+  abstract list(): Promise<T[]>;
+  abstract save(record: T): Promise<void>;
+  abstract delete(id: string): Promise<void>;
+}
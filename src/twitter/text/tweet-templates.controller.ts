@@ -0,0 +1,15 @@
+import { Controller, Get } from '@nestjs/common';
+import {
+  TweetTemplate,
+  TweetTemplatesService,
+} from './tweet-templates.service';
+
+@Controller('twitter/templates')
+export class TweetTemplatesController {
+  constructor(private readonly templates: TweetTemplatesService) {}
+
+  @Get()
+  list(): { templates: TweetTemplate[] } {
+    return { templates: this.templates.list() };
+  }
+}
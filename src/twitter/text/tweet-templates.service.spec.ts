@@ -0,0 +1,66 @@
+import { ConfigService } from '@nestjs/config';
+import { TweetTemplatesService } from './tweet-templates.service';
+
+describe('TweetTemplatesService', () => {
+  const service = new TweetTemplatesService(
+    new ConfigService({
+      twitter: {
+        templates: {
+          clip: 'New clip {{ filename }} on {{date}} by {{account}}',
+          promo: '{{text}} Use code {{code}}',
+        },
+      },
+    }),
+  );
+
+  it('lists templates with their variables', () => {
+    expect(service.list()).toEqual([
+      {
+        name: 'clip',
+        text: 'New clip {{ filename }} on {{date}} by {{account}}',
+        variables: ['filename', 'date', 'account'],
+      },
+      {
+        name: 'promo',
+        text: '{{text}} Use code {{code}}',
+        variables: ['text', 'code'],
+      },
+    ]);
+  });
+
+  it('renders built-in and custom variables', () => {
+    expect(
+      service.compose(
+        { template: 'clip' },
+        {
+          filename: 'https://cdn.example.com/media/launch%20day.mp4?sig=1',
+          account: 'brand-a',
+          date: new Date('2026-03-01T12:00:00Z'),
+        },
+      ),
+    ).toBe('New clip launch day.mp4 on 2026-03-01 by brand-a');
+    expect(
+      service.compose({
+        template: 'promo',
+        tweetText: 'Spring sale!',
+        templateVars: '{"code": "SPRING"}',
+      }),
+    ).toBe('Spring sale! Use code SPRING');
+  });
+
+  it('returns tweetText when no template is named', () => {
+    expect(service.compose({ tweetText: 'Plain' })).toBe('Plain');
+    expect(service.compose({})).toBeUndefined();
+  });
+
+  it.each([
+    [{ template: 'missing' }, 'Unknown tweet template: missing'],
+    [{ template: 'promo' }, 'Template promo needs values for: text, code'],
+    [
+      { template: 'promo', templateVars: '[1]' },
+      'templateVars must be a JSON object',
+    ],
+  ])('rejects %j', (input, message) => {
+    expect(() => service.compose(input)).toThrow(message);
+  });
+});
@@ -0,0 +1,142 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as path from 'path';
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+export interface TweetTextInput {
+  tweetText?: string;
+  template?: string;
+  // A JSON object in multipart forms, an object in JSON bodies
+  templateVars?: string | Record<string, unknown>;
+}
+
+// Values for the built-in variables
+export interface TemplateContext {
+  // Uploaded file name or media URL of the first media item
+  filename?: string;
+  account?: string;
+  // Defaults to now; scheduled posts pass their publish time
+  date?: Date;
+}
+
+export interface TweetTemplate {
+  name: string;
+  text: string;
+  variables: string[];
+}
+
+/**
+ * Renders the named templates from twitter.templates. Besides the custom
+ * `templateVars` of a request, templates may use {{filename}},
+ * {{account}}, {{date}} (UTC, YYYY-MM-DD) and {{text}} (the request's
+ * tweetText); custom variables take precedence.
+ */
+@Injectable()
+export class TweetTemplatesService {
+  private readonly templates: Record<string, string>;
+
+  constructor(configService: ConfigService) {
+    this.templates =
+      configService.get<Record<string, string>>('twitter.templates') ?? {};
+  }
+
+  list(): TweetTemplate[] {
+    return Object.keys(this.templates)
+      .sort()
+      .map((name) => ({
+        name,
+        text: this.templates[name],
+        variables: [
+          ...new Set(
+            [...this.templates[name].matchAll(VARIABLE_PATTERN)].map(
+              (match) => match[1],
+            ),
+          ),
+        ],
+      }));
+  }
+
+  /** The tweet text of a request: its rendered template, else tweetText. */
+  compose(
+    input: TweetTextInput,
+    context: TemplateContext = {},
+  ): string | undefined {
+    if (!input.template) {
+      return input.tweetText;
+    }
+
+    const template = this.templates[input.template];
+    if (template === undefined) {
+      throw new BadRequestException(
+        `Unknown tweet template: ${input.template}`,
+      );
+    }
+
+    const variables: Record<string, string> = {
+      date: (context.date ?? new Date()).toISOString().slice(0, 10),
+      ...(context.filename && { filename: this.basename(context.filename) }),
+      ...(context.account && { account: context.account }),
+      ...(input.tweetText !== undefined && { text: input.tweetText }),
+      ...this.parseVars(input.templateVars),
+    };
+
+    const missing = new Set<string>();
+    const text = template.replace(VARIABLE_PATTERN, (_, name: string) => {
+      if (variables[name] === undefined) {
+        missing.add(name);
+        return '';
+      }
+      return variables[name];
+    });
+    if (missing.size > 0) {
+      throw new BadRequestException(
+        `Template ${input.template} needs values for: ${[...missing].join(', ')}`,
+      );
+    }
+
+    return text;
+  }
+
+  private parseVars(
+    raw: TweetTextInput['templateVars'],
+  ): Record<string, string> {
+    if (raw === undefined || raw === '') {
+      return {};
+    }
+
+    let vars: unknown = raw;
+    if (typeof raw === 'string') {
+      try {
+        vars = JSON.parse(raw);
+      } catch {
+        vars = undefined;
+      }
+    }
+    if (!vars || typeof vars !== 'object' || Array.isArray(vars)) {
+      throw new BadRequestException('templateVars must be a JSON object');
+    }
+
+    return Object.fromEntries(
+      Object.entries(vars).map(([name, value]) => {
+        if (!['string', 'number', 'boolean'].includes(typeof value)) {
+          throw new BadRequestException(
+            `templateVars.${name} must be a string, number or boolean`,
+          );
+        }
+        return [name, String(value)];
+      }),
+    );
+  }
+
+  // File names of uploads, or the last path segment of URLs
+  private basename(filename: string): string {
+    try {
+      return path.posix.basename(
+        decodeURIComponent(new URL(filename).pathname),
+      );
+    } catch {
+      return path.basename(filename);
+    }
+  }
+}
@@ -0,0 +1,20 @@
+import { UnprocessableEntityException } from '@nestjs/common';
+import { TweetTextReport } from './tweet-text';
+
+/** 422 raised before any media is uploaded for a tweet that is too long. */
+export class TweetTextTooLongException extends UnprocessableEntityException {
+  constructor(
+    readonly report: TweetTextReport,
+    // Index of the thread entry, for threads
+    readonly entry?: number,
+  ) {
+    super({
+      statusCode: 422,
+      error: 'Unprocessable Entity',
+      code: 'tweet_text_too_long',
+      message: `${entry === undefined ? 'Tweet text' : `Entry ${entry} text`} is ${report.weightedLength} weighted characters; the limit is ${report.maxWeightedLength}`,
+      text: report,
+      ...(entry !== undefined && { entry }),
+    });
+  }
+}
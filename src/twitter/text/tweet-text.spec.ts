@@ -0,0 +1,45 @@
+import { assertTweetTextFits, measureTweetText } from './tweet-text';
+
+describe('measureTweetText', () => {
+  it.each([
+    ['Latin text', 'Hello world', 11],
+    ['CJK characters', '你好世界', 8],
+    ['emoji', 'Launch 🚀', 9],
+    ['emoji built from several code points', '👨‍👩‍👧 🇫🇷', 5],
+    ['links', 'Watch https://example.com/a/very/long/path?with=query', 29],
+    ['bare domains', 'see example.com.', 28],
+    ['decomposed accents', 'café', 4],
+  ])('weighs %s', (_case, text, weightedLength) => {
+    expect(measureTweetText(text).weightedLength).toBe(weightedLength);
+  });
+
+  it('reports the overflow past 280 weighted characters', () => {
+    expect(measureTweetText('a'.repeat(280))).toEqual({
+      weightedLength: 280,
+      maxWeightedLength: 280,
+      valid: true,
+      overflow: 0,
+    });
+    expect(measureTweetText('日'.repeat(141))).toMatchObject({
+      weightedLength: 282,
+      valid: false,
+      overflow: 2,
+    });
+  });
+});
+
+describe('assertTweetTextFits', () => {
+  it('rejects text that is too long with the report', () => {
+    expect(() => assertTweetTextFits('a'.repeat(281), 2)).toThrow(
+      expect.objectContaining({
+        status: 422,
+        response: expect.objectContaining({
+          code: 'tweet_text_too_long',
+          message: 'Entry 2 text is 281 weighted characters; the limit is 280',
+          entry: 2,
+          text: expect.objectContaining({ overflow: 1 }),
+        }),
+      }),
+    );
+  });
+});
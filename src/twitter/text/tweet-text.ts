@@ -0,0 +1,87 @@
+import { TweetTextTooLongException } from './tweet-text.exception';
+
+/**
+ * twitter-text v3 weighting: each character costs `weight / SCALE`. Latin,
+ * general punctuation and similar ranges cost 1, everything else (CJK,
+ * most other scripts) costs 2. Emoji cost 2 however many code points they
+ * are built from, and every URL counts as TRANSFORMED_URL_LENGTH.
+ */
+export const MAX_WEIGHTED_LENGTH = 280;
+const SCALE = 100;
+const DEFAULT_WEIGHT = 200;
+const TRANSFORMED_URL_LENGTH = 23;
+const LIGHT_RANGES: [number, number][] = [
+  [0, 4351],
+  [8192, 8205],
+  [8208, 8223],
+  [8242, 8247],
+];
+
+// Links with a scheme, and bare domains under common top-level domains
+const URL_PATTERN =
+  /\bhttps?:\/\/[^\s<>"]+|\b(?:[a-z0-9](?:[a-z0-9-]*[a-z0-9])?\.)+(?:com|net|org|io|co|dev|app|me|ly|tv|info|biz|edu|gov)\b(?:\/[^\s<>"]*)?/gi;
+// Punctuation ending a sentence is not part of the link
+const URL_TRAILING_PUNCTUATION = /[.,!?:;'")\]]+$/;
+// Whole emoji: flags, keycaps and ZWJ sequences with modifiers
+const EMOJI_PATTERN =
+  /\p{Regional_Indicator}{2}|[#*0-9]\uFE0F?\u20E3|\p{Extended_Pictographic}[\uFE0F\p{Emoji_Modifier}]?(?:\u200D\p{Extended_Pictographic}[\uFE0F\p{Emoji_Modifier}]?)*/gu;
+
+export interface TweetTextReport {
+  weightedLength: number;
+  maxWeightedLength: number;
+  valid: boolean;
+  // Weighted characters over the limit; 0 when the text fits
+  overflow: number;
+}
+
+function weightOf(text: string): number {
+  let weight = 0;
+  const rest = text.replace(EMOJI_PATTERN, () => {
+    weight += DEFAULT_WEIGHT;
+    return '';
+  });
+
+  for (const char of rest) {
+    const codePoint = char.codePointAt(0)!;
+    weight += LIGHT_RANGES.some(
+      ([start, end]) => codePoint >= start && codePoint <= end,
+    )
+      ? SCALE
+      : DEFAULT_WEIGHT;
+  }
+  return weight;
+}
+
+export function measureTweetText(text: string): TweetTextReport {
+  const normalized = text.normalize('NFC');
+  let weight = 0;
+  let offset = 0;
+
+  for (const match of normalized.matchAll(URL_PATTERN)) {
+    const url = match[0].replace(URL_TRAILING_PUNCTUATION, '');
+    weight += weightOf(normalized.slice(offset, match.index));
+    weight += TRANSFORMED_URL_LENGTH * SCALE;
+    offset = match.index + url.length;
+  }
+  weight += weightOf(normalized.slice(offset));
+
+  const weightedLength = Math.ceil(weight / SCALE);
+  return {
+    weightedLength,
+    maxWeightedLength: MAX_WEIGHTED_LENGTH,
+    valid: weightedLength <= MAX_WEIGHTED_LENGTH,
+    overflow: Math.max(0, weightedLength - MAX_WEIGHTED_LENGTH),
+  };
+}
+
+/** Throws a 422 with the weighted length when `text` is too long. */
+export function assertTweetTextFits(
+  text: string,
+  entry?: number,
+): TweetTextReport {
+  const report = measureTweetText(text);
+  if (!report.valid) {
+    throw new TweetTextTooLongException(report, entry);
+  }
+  return report;
+}
@@ -0,0 +1,35 @@
+import { PostOrigin } from '../history/post-attempt.interface';
+import { UploadJobMedia } from '../jobs/upload-job.interface';
+
+export type ThreadStatus = 'posting' | 'done' | 'failed';
+
+export interface ThreadEntry {
+  text: string;
+  media: UploadJobMedia[];
+  // Set once the entry is posted; resuming skips these entries
+  tweetId?: string;
+  // Set while its tweet is being sent; left behind when a restart cuts it off
+  tweeting?: boolean;
+  error?: string;
+  errorCode?: string;
+}
+
+export interface Thread {
+  id: string;
+  status: ThreadStatus;
+  account?: string;
+  // Optional tweet the first entry replies to
+  replyToTweetId?: string;
+  origin?: PostOrigin;
+  entries: ThreadEntry[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ThreadResult {
+  threadId: string;
+  status: ThreadStatus;
+  tweetIds: string[];
+  posted: { index: number; tweetId: string }[];
+  failed?: { index: number; error: string; code?: string };
+}
@@ -0,0 +1 @@
+export const THREAD_STORE = 'THREAD_STORE';
@@ -0,0 +1,197 @@
+import {
+  Body,
+  Controller,
+  Get,
+  HttpException,
+  HttpStatus,
+  Param,
+  Post,
+  Req,
+  UploadedFiles,
+  UseInterceptors,
+} from '@nestjs/common';
+import { AnyFilesInterceptor } from '@nestjs/platform-express';
+import { TwitterAccountsService } from '../accounts/twitter-accounts.service';
+import { ApiAccessService } from '../auth/api-access.service';
+import { ApiRequest } from '../auth/api-client.interface';
+import { ThreadPlan } from '../dry-run/upload-plan';
+import { RequireScope } from '../auth/require-scope.decorator';
+import { MediaDownloaderService } from '../downloads/media-downloader.service';
+import { postOriginOf } from '../history/post-origin';
+import { UploadJobMedia } from '../jobs/upload-job.interface';
+import {
+  discardFiles,
+  DiscardUploadsOnErrorInterceptor,
+} from '../media/discard-uploads.interceptor';
+import { assertValidMediaSet } from '../media/media-set';
+import {
+  inspectUploadedFile,
+  MulterFile,
+  parseUrlList,
+} from '../media/uploaded-file';
+import { assertTweetTextFits } from '../text/tweet-text';
+import { TwitterVideoUploaderService } from '../twitter-video-uploader.service';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { Thread, ThreadEntry, ThreadResult } from './thread.interface';
+import { ThreadsService } from './threads.service';
+
+// Files for entry N are sent in the multipart field `media_N`
+const ENTRY_FILE_FIELD = /^media_(\d+)$/;
+
+interface ThreadEntryInput {
+  text?: unknown;
+  mediaUrls?: string | string[];
+}
+
+@Controller('twitter/thread')
+@RequireScope('thread')
+export class ThreadsController {
+  constructor(
+    private readonly threads: ThreadsService,
+    private readonly accounts: TwitterAccountsService,
+    private readonly downloader: MediaDownloaderService,
+    private readonly apiAccess: ApiAccessService,
+    private readonly webhooks: WebhooksService,
+    private readonly uploader: TwitterVideoUploaderService,
+  ) {}
+
+  @Post()
+  @UseInterceptors(AnyFilesInterceptor(), DiscardUploadsOnErrorInterceptor)
+  async postThread(
+    @Req() request: ApiRequest,
+    @Body('entries') rawEntries: unknown,
+    @Body('account') account?: string,
+    @Body('replyToTweetId') replyToTweetId?: string,
+    @Body('callbackUrl') callbackUrl?: string,
+    @Body('dryRun') dryRun?: string | boolean,
+    @UploadedFiles() files: MulterFile[] = [],
+  ): Promise<ThreadResult | ThreadPlan> {
+    const inputs = this.parseEntries(rawEntries);
+    this.accounts.resolve(account);
+    this.apiAccess.assertAccount(request, account);
+    // Called back once per entry
+    const callback = await this.webhooks.assertCallbackUrl(callbackUrl);
+
+    const entries = inputs.map(
+      (input, index): Pick<ThreadEntry, 'text' | 'media'> => {
+        if (typeof input?.text !== 'string' || !input.text.trim()) {
+          throw new HttpException(
+            `Entry ${index} needs a non-empty text`,
+            HttpStatus.BAD_REQUEST,
+          );
+        }
+        assertTweetTextFits(input.text, index);
+        return {
+          text: input.text,
+          media: parseUrlList(input.mediaUrls).map((url) => ({
+            source: url,
+            owned: false,
+          })),
+        };
+      },
+    );
+
+    await this.downloader.assertAllowedUrls(
+      entries.flatMap((entry) => entry.media.map((item) => item.source)),
+    );
+
+    // Attach uploaded files to their entries, ahead of that entry's URLs
+    const filesByEntry = new Map<number, UploadJobMedia[]>();
+    for (const file of files) {
+      const match = ENTRY_FILE_FIELD.exec(file.fieldname);
+      const index = match ? parseInt(match[1], 10) : -1;
+      if (!entries[index]) {
+        throw new HttpException(
+          `Unexpected file field ${file.fieldname}; use media_<entryIndex>`,
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+      const fileMedia: UploadJobMedia = {
+        source: file.path,
+        mimeType: await inspectUploadedFile(file),
+        owned: true,
+        fileName: file.originalname,
+      };
+      filesByEntry.set(index, [...(filesByEntry.get(index) ?? []), fileMedia]);
+    }
+
+    for (const [index, entry] of entries.entries()) {
+      entry.media = [...(filesByEntry.get(index) ?? []), ...entry.media];
+
+      if (entry.media.length > 0) {
+        assertValidMediaSet(entry.media);
+      }
+    }
+
+    // Plans are neither stored nor counted against the quota
+    if (this.uploader.isDryRun(dryRun)) {
+      try {
+        return await this.threads.plan(entries, { account, replyToTweetId });
+      } finally {
+        await discardFiles(files);
+      }
+    }
+
+    // Every entry is a tweet of its own
+    const reservation = await this.apiAccess.authorizePosts(
+      request,
+      account,
+      entries.length,
+    );
+    try {
+      return await this.threads.create(entries, {
+        account,
+        replyToTweetId,
+        origin: postOriginOf(request, callback),
+      });
+    } catch (error) {
+      // Entries that fail are reported, not thrown, and keep their share
+      // for a resume
+      await this.apiAccess.refundPosts(reservation);
+      throw error;
+    }
+  }
+
+  @Get(':id')
+  async getThread(
+    @Req() request: ApiRequest,
+    @Param('id') id: string,
+  ): Promise<ThreadResult> {
+    const thread: Thread = await this.threads.get(id);
+    this.apiAccess.assertAccount(request, thread.account);
+    return this.threads.toResult(thread);
+  }
+
+  @Post(':id/resume')
+  async resumeThread(
+    @Req() request: ApiRequest,
+    @Param('id') id: string,
+  ): Promise<ThreadResult> {
+    const thread = await this.threads.get(id);
+    this.apiAccess.assertAccount(request, thread.account);
+    return this.threads.resume(id);
+  }
+
+  // Multipart requests send `entries` as a JSON string
+  private parseEntries(rawEntries: unknown): ThreadEntryInput[] {
+    let entries = rawEntries;
+    if (typeof entries === 'string') {
+      try {
+        entries = JSON.parse(entries);
+      } catch {
+        throw new HttpException(
+          'entries must be a JSON array',
+          HttpStatus.BAD_REQUEST,
+        );
+      }
+    }
+
+    if (!Array.isArray(entries) || entries.length === 0) {
+      throw new HttpException(
+        'entries must be a non-empty array',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+    return entries as ThreadEntryInput[];
+  }
+}
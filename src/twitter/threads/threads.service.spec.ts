@@ -0,0 +1,212 @@
+import { ConflictException } from '@nestjs/common';
+import { PostOutcomeUnknownError } from '../errors/uploader-errors';
+import { PostHistoryService } from '../history/post-history.service';
+import { InMemoryRecordStore } from '../storage/memory-record.store';
+import { TwitterVideoUploaderService } from '../twitter-video-uploader.service';
+import { Thread } from './thread.interface';
+import { ThreadsService } from './threads.service';
+
+// Runs the post without recording it
+const history = {
+  record: (_context: unknown, run: (onProgress: () => void) => unknown) =>
+    run(() => undefined),
+} as unknown as PostHistoryService;
+
+describe('ThreadsService', () => {
+  let createTweet: jest.Mock;
+  let uploadToTwitter: jest.Mock;
+  let store: InMemoryRecordStore<Thread>;
+  let service: ThreadsService;
+  let nextId: number;
+
+  const createService = () =>
+    new ThreadsService(
+      store,
+      {
+        createTweet,
+        uploadToTwitter,
+      } as unknown as TwitterVideoUploaderService,
+      history,
+    );
+
+  beforeEach(() => {
+    nextId = 100;
+    createTweet = jest.fn(async () => ({ data: { id: String(nextId++) } }));
+    uploadToTwitter = jest.fn(async () => ({ data: { id: String(nextId++) } }));
+    store = new InMemoryRecordStore<Thread>();
+    service = createService();
+  });
+
+  it('posts entries as a reply chain', async () => {
+    const result = await service.create(
+      [
+        { text: 'one', media: [] },
+        {
+          text: 'two',
+          media: [{ source: 'https://x.test/a.jpg', owned: false }],
+        },
+        { text: 'three', media: [] },
+      ],
+      { account: 'brand-a' },
+    );
+
+    expect(result).toMatchObject({
+      status: 'done',
+      tweetIds: ['100', '101', '102'],
+    });
+    expect(createTweet).toHaveBeenNthCalledWith(
+      1,
+      [],
+      'one',
+      undefined,
+      'brand-a',
+    );
+    expect(uploadToTwitter).toHaveBeenCalledWith(
+      [{ source: 'https://x.test/a.jpg', mimeType: undefined }],
+      {
+        tweetText: 'two',
+        replyToTweetId: '100',
+        account: 'brand-a',
+        onProgress: expect.any(Function),
+        beforeTweet: expect.any(Function),
+      },
+    );
+    expect(createTweet).toHaveBeenNthCalledWith(
+      2,
+      [],
+      'three',
+      '101',
+      'brand-a',
+    );
+  });
+
+  it('reports partial progress and resumes without duplicates', async () => {
+    createTweet
+      .mockImplementationOnce(async () => ({ data: { id: '1' } }))
+      .mockRejectedValueOnce(new Error('Twitter is down'));
+
+    const first = await service.create([
+      { text: 'one', media: [] },
+      { text: 'two', media: [] },
+      { text: 'three', media: [] },
+    ]);
+
+    expect(first).toMatchObject({
+      status: 'failed',
+      posted: [{ index: 0, tweetId: '1' }],
+      failed: { index: 1, error: 'Twitter is down' },
+    });
+
+    const resumed = await service.resume(first.threadId);
+
+    expect(resumed).toMatchObject({
+      status: 'done',
+      tweetIds: ['1', '100', '101'],
+      failed: undefined,
+    });
+    expect(createTweet).toHaveBeenCalledTimes(4);
+    expect(createTweet).toHaveBeenNthCalledWith(3, [], 'two', '1', undefined);
+  });
+
+  it('does not resume an entry a restart cut off while tweeting', async () => {
+    // The process stops while the second entry is being tweeted
+    createTweet
+      .mockImplementationOnce(async () => ({ data: { id: '1' } }))
+      .mockImplementationOnce(() => new Promise(() => undefined));
+    void service.create([
+      { text: 'one', media: [] },
+      { text: 'two', media: [] },
+    ]);
+    await new Promise((resolve) => setImmediate(resolve));
+    const [{ id }] = await store.list();
+
+    const restarted = createService();
+    await restarted.onModuleInit();
+
+    expect(restarted.toResult(await restarted.get(id))).toMatchObject({
+      status: 'failed',
+      posted: [{ index: 0, tweetId: '1' }],
+      failed: { index: 1, code: PostOutcomeUnknownError.code },
+    });
+    await expect(restarted.resume(id)).rejects.toBeInstanceOf(
+      PostOutcomeUnknownError,
+    );
+    expect(createTweet).toHaveBeenCalledTimes(2);
+  });
+
+  it('resumes a thread a restart cut off between entries', async () => {
+    await store.save({
+      id: 'thread-1',
+      status: 'posting',
+      entries: [
+        { text: 'one', media: [], tweetId: '1' },
+        { text: 'two', media: [] },
+      ],
+      createdAt: '2026-03-01T12:00:00.000Z',
+      updatedAt: '2026-03-01T12:00:00.000Z',
+    });
+
+    await service.onModuleInit();
+
+    expect((await service.get('thread-1')).status).toBe('failed');
+    await expect(service.resume('thread-1')).resolves.toMatchObject({
+      status: 'done',
+      tweetIds: ['1', '100'],
+    });
+  });
+
+  it('plans a dry run as a reply chain without posting', async () => {
+    const planPost = jest.fn(async (_media, options) => ({
+      dryRun: true,
+      sandbox: false,
+      account: 'main',
+      media: [],
+      tweet: { payload: { text: options.tweetText } },
+    }));
+    Object.assign((service as any).twitterService, { planPost });
+
+    const plan = await service.plan(
+      [
+        { text: 'one', media: [] },
+        {
+          text: 'two',
+          media: [{ source: 'https://x.test/a.jpg', owned: false }],
+        },
+      ],
+      { replyToTweetId: '7' },
+    );
+
+    expect(plan).toMatchObject({ dryRun: true, account: 'main' });
+    expect(plan.entries).toHaveLength(2);
+    expect(planPost).toHaveBeenNthCalledWith(
+      2,
+      [{ source: 'https://x.test/a.jpg', mimeType: undefined }],
+      {
+        tweetText: 'two',
+        replyToTweetId: 'dry-run-tweet-1',
+        account: undefined,
+      },
+    );
+    expect(planPost.mock.calls[0][1].replyToTweetId).toBe('7');
+    expect(createTweet).not.toHaveBeenCalled();
+    expect(await (service as any).store.list()).toEqual([]);
+  });
+
+  it('refuses to post the same thread twice at once', async () => {
+    let release!: () => void;
+    createTweet.mockImplementationOnce(
+      () =>
+        new Promise((resolve) => {
+          release = () => resolve({ data: { id: '1' } });
+        }),
+    );
+
+    const posting = service.create([{ text: 'one', media: [] }]);
+    await new Promise((resolve) => setImmediate(resolve));
+    const [thread] = await (service as any).store.list();
+
+    await expect(service.resume(thread.id)).rejects.toThrow(ConflictException);
+    release();
+    await posting;
+  });
+});
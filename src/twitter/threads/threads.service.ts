@@ -0,0 +1,262 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleInit,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import * as fs from 'fs';
+import { plannedTweetId, ThreadPlan, UploadPlan } from '../dry-run/upload-plan';
+import { PostOutcomeUnknownError } from '../errors/uploader-errors';
+import { PostOrigin } from '../history/post-attempt.interface';
+import { PostHistoryService } from '../history/post-history.service';
+import { RecordStore } from '../storage/record-store';
+import {
+  tweetIdOf,
+  TwitterVideoUploaderService,
+} from '../twitter-video-uploader.service';
+import { Thread, ThreadEntry, ThreadResult } from './thread.interface';
+import { THREAD_STORE } from './threads.constants';
+
+@Injectable()
+export class ThreadsService implements OnModuleInit {
+  private readonly logger = new Logger(ThreadsService.name);
+  // Threads currently being posted by this process
+  private readonly active = new Set<string>();
+
+  constructor(
+    @Inject(THREAD_STORE) private readonly store: RecordStore<Thread>,
+    private readonly twitterService: TwitterVideoUploaderService,
+    private readonly history: PostHistoryService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    // A thread still marked as posting was cut off by a restart and can be
+    // resumed, unless an entry was cut off while tweeting: it may have been
+    // posted already, so resuming stops at it.
+    for (const thread of await this.store.list()) {
+      if (thread.status !== 'posting') {
+        continue;
+      }
+      const entry = thread.entries.find((entry) => entry.tweeting);
+      if (entry) {
+        const error = new PostOutcomeUnknownError(
+          'Interrupted by a service restart while tweeting; the tweet may already exist',
+        );
+        Object.assign(entry, {
+          tweeting: undefined,
+          error: error.message,
+          errorCode: error.code,
+        });
+      }
+      await this.update(thread, { status: 'failed' });
+    }
+  }
+
+  async create(
+    entries: Pick<ThreadEntry, 'text' | 'media'>[],
+    options: {
+      account?: string;
+      replyToTweetId?: string;
+      origin?: PostOrigin;
+    } = {},
+  ): Promise<ThreadResult> {
+    const now = new Date().toISOString();
+    const thread: Thread = {
+      id: randomUUID(),
+      status: 'posting',
+      account: options.account,
+      replyToTweetId: options.replyToTweetId,
+      origin: options.origin,
+      entries: entries.map(({ text, media }) => ({ text, media })),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    await this.store.save(thread);
+    return this.post(thread);
+  }
+
+  /** A dry run of create: every entry is planned, nothing is stored. */
+  async plan(
+    entries: Pick<ThreadEntry, 'text' | 'media'>[],
+    options: { account?: string; replyToTweetId?: string } = {},
+  ): Promise<ThreadPlan> {
+    const plans: UploadPlan[] = [];
+    for (const [index, entry] of entries.entries()) {
+      plans.push(
+        await this.twitterService.planPost(
+          entry.media.map(({ source, mimeType }) => ({ source, mimeType })),
+          {
+            tweetText: entry.text,
+            // Entries reply to the tweet the one before would have become
+            replyToTweetId:
+              index === 0 ? options.replyToTweetId : plannedTweetId(index - 1),
+            account: options.account,
+          },
+        ),
+      );
+    }
+
+    const [{ sandbox, account }] = plans;
+    return { dryRun: true, sandbox, account, entries: plans };
+  }
+
+  // Continues with the first entry that has not been posted yet
+  async resume(id: string): Promise<ThreadResult> {
+    const thread = await this.get(id);
+    if (thread.status === 'done') {
+      return this.toResult(thread);
+    }
+    const unknown = thread.entries.findIndex(
+      (entry) => entry.errorCode === PostOutcomeUnknownError.code,
+    );
+    if (unknown !== -1) {
+      throw new PostOutcomeUnknownError(
+        `Entry ${unknown} of thread ${id} may already be posted, so the thread cannot be resumed`,
+      );
+    }
+    return this.post(thread);
+  }
+
+  async get(id: string): Promise<Thread> {
+    const thread = await this.store.get(id);
+    if (!thread) {
+      throw new NotFoundException(`Thread ${id} not found`);
+    }
+    return thread;
+  }
+
+  toResult(thread: Thread): ThreadResult {
+    const posted = thread.entries.flatMap((entry, index) =>
+      entry.tweetId ? [{ index, tweetId: entry.tweetId }] : [],
+    );
+    const failedIndex = thread.entries.findIndex((entry) => entry.error);
+
+    return {
+      threadId: thread.id,
+      status: thread.status,
+      tweetIds: posted.map(({ tweetId }) => tweetId),
+      posted,
+      failed:
+        failedIndex === -1
+          ? undefined
+          : {
+              index: failedIndex,
+              error: thread.entries[failedIndex].error!,
+              code: thread.entries[failedIndex].errorCode,
+            },
+    };
+  }
+
+  private async post(thread: Thread): Promise<ThreadResult> {
+    if (this.active.has(thread.id)) {
+      throw new ConflictException(`Thread ${thread.id} is already posting`);
+    }
+    this.active.add(thread.id);
+
+    try {
+      await this.update(thread, { status: 'posting' });
+      let previousTweetId = thread.replyToTweetId;
+
+      for (const [index, entry] of thread.entries.entries()) {
+        if (entry.tweetId) {
+          previousTweetId = entry.tweetId;
+          continue;
+        }
+
+        try {
+          entry.tweetId = await this.postEntry(thread, entry, previousTweetId);
+          Object.assign(entry, {
+            tweeting: undefined,
+            error: undefined,
+            errorCode: undefined,
+          });
+          previousTweetId = entry.tweetId;
+          await this.update(thread, {});
+          await this.releaseFiles(entry);
+        } catch (error) {
+          this.logger.error(
+            `Thread ${thread.id} stopped at entry ${index}`,
+            error,
+          );
+          entry.tweeting = undefined;
+          entry.error =
+            error instanceof Error ? error.message : 'Failed to post entry';
+          await this.update(thread, { status: 'failed' });
+          return this.toResult(thread);
+        }
+      }
+
+      await this.update(thread, { status: 'done' });
+      return this.toResult(thread);
+    } finally {
+      this.active.delete(thread.id);
+    }
+  }
+
+  private async postEntry(
+    thread: Thread,
+    entry: ThreadEntry,
+    replyToTweetId: string | undefined,
+  ): Promise<string> {
+    const { account } = thread;
+    // On disk before the tweet is sent, so a restart cannot post it again
+    const beforeTweet = async () => {
+      entry.tweeting = true;
+      await this.update(thread, {});
+    };
+    const response = await this.history.record(
+      {
+        ...thread.origin,
+        kind: 'thread',
+        sourceId: thread.id,
+        account,
+        media: entry.media,
+      },
+      async (onProgress) => {
+        if (entry.media.length > 0) {
+          return this.twitterService.uploadToTwitter(
+            entry.media.map(({ source, mimeType }) => ({ source, mimeType })),
+            {
+              tweetText: entry.text,
+              replyToTweetId,
+              account,
+              onProgress,
+              beforeTweet,
+            },
+          );
+        }
+        await beforeTweet();
+        return this.twitterService.createTweet(
+          [],
+          entry.text,
+          replyToTweetId,
+          account,
+        );
+      },
+    );
+
+    return tweetIdOf(response);
+  }
+
+  private async releaseFiles(entry: ThreadEntry): Promise<void> {
+    for (const item of entry.media.filter((media) => media.owned)) {
+      try {
+        await fs.promises.unlink(item.source);
+      } catch (cleanupError) {
+        this.logger.warn('Failed to clean up temporary file', cleanupError);
+      }
+    }
+  }
+
+  private async update(
+    thread: Thread,
+    changes: Partial<Thread>,
+  ): Promise<void> {
+    Object.assign(thread, changes, { updatedAt: new Date().toISOString() });
+    await this.store.save(thread);
+  }
+}
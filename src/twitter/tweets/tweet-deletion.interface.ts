@@ -0,0 +1,10 @@
+import { PostOrigin } from '../history/post-attempt.interface';
+
+export interface TweetDeletion extends PostOrigin {
+  // The deleted tweet's id
+  id: string;
+  account: string;
+  // False when Twitter answered without deleting, e.g. already deleted
+  deleted: boolean;
+  deletedAt: string;
+}
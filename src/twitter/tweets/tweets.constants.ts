@@ -0,0 +1 @@
+export const TWEET_DELETION_STORE = 'TWEET_DELETION_STORE';
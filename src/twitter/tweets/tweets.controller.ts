@@ -0,0 +1,121 @@
+import {
+  BadRequestException,
+  Body,
+  Controller,
+  Delete,
+  Param,
+  Post,
+  Query,
+  Req,
+} from '@nestjs/common';
+import { TwitterAccountsService } from '../accounts/twitter-accounts.service';
+import { ApiAccessService } from '../auth/api-access.service';
+import { ApiRequest } from '../auth/api-client.interface';
+import { RequireScope } from '../auth/require-scope.decorator';
+import { postOriginOf } from '../history/post-origin';
+import { MAX_IMAGES_PER_TWEET } from '../media/media-set';
+import { TweetTemplatesService } from '../text/tweet-templates.service';
+import { assertTweetTextFits } from '../text/tweet-text';
+import { WebhooksService } from '../webhooks/webhooks.service';
+import { TweetDeletion } from './tweet-deletion.interface';
+import { TweetsService } from './tweets.service';
+
+const TWEET_ID = /^\d+$/;
+
+// Accepts repeated form fields, a JSON array or a comma-separated list
+function parseMediaIds(value?: string | string[]): string[] {
+  let ids: unknown = value ?? [];
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    try {
+      ids = trimmed.startsWith('[') ? JSON.parse(trimmed) : trimmed.split(',');
+    } catch {
+      ids = undefined;
+    }
+  }
+  if (!Array.isArray(ids)) {
+    throw new BadRequestException(
+      'mediaIds must be a JSON array or a comma-separated list',
+    );
+  }
+
+  const mediaIds = ids.map((id) => String(id).trim()).filter(Boolean);
+  if (mediaIds.length === 0 || mediaIds.length > MAX_IMAGES_PER_TWEET) {
+    throw new BadRequestException(
+      `mediaIds must list between 1 and ${MAX_IMAGES_PER_TWEET} media ids`,
+    );
+  }
+  const invalid = mediaIds.find((id) => !TWEET_ID.test(id));
+  if (invalid) {
+    throw new BadRequestException(`Invalid media id: ${invalid}`);
+  }
+  return mediaIds;
+}
+
+@Controller('twitter/tweets')
+@RequireScope('upload')
+export class TweetsController {
+  constructor(
+    private readonly tweets: TweetsService,
+    private readonly accounts: TwitterAccountsService,
+    private readonly apiAccess: ApiAccessService,
+    private readonly templates: TweetTemplatesService,
+    private readonly webhooks: WebhooksService,
+  ) {}
+
+  // Publishes media uploaded earlier, e.g. after an editor reviewed it
+  @Post()
+  async post(
+    @Req() request: ApiRequest,
+    @Body('mediaIds') mediaIds?: string | string[],
+    @Body('tweetText') tweetText?: string,
+    @Body('replyToTweetId') replyToTweetId?: string,
+    @Body('account') account?: string,
+    @Body('template') template?: string,
+    @Body('templateVars') templateVars?: string | Record<string, unknown>,
+    @Body('callbackUrl') callbackUrl?: string,
+  ): Promise<{ tweetId: string; mediaIds: string[] }> {
+    const ids = parseMediaIds(mediaIds);
+    this.accounts.resolve(account);
+    this.apiAccess.assertAccount(request, account);
+
+    const text = this.templates.compose(
+      { tweetText, template, templateVars },
+      { account },
+    );
+    if (text !== undefined) {
+      assertTweetTextFits(text);
+    }
+    const callback = await this.webhooks.assertCallbackUrl(callbackUrl);
+
+    const reservation = await this.apiAccess.authorizePosts(
+      request,
+      account,
+      1,
+    );
+    try {
+      return await this.tweets.post(
+        { mediaIds: ids, tweetText: text, replyToTweetId, account },
+        postOriginOf(request, callback),
+      );
+    } catch (error) {
+      await this.apiAccess.refundPosts(reservation);
+      throw error;
+    }
+  }
+
+  @Delete(':id')
+  delete(
+    @Req() request: ApiRequest,
+    @Param('id') id: string,
+    @Query('account') account?: string,
+  ): Promise<TweetDeletion> {
+    if (!TWEET_ID.test(id)) {
+      throw new BadRequestException(`Invalid tweet id: ${id}`);
+    }
+    this.accounts.resolve(account);
+    this.apiAccess.assertAccount(request, account);
+
+    return this.tweets.delete(id, account, postOriginOf(request));
+  }
+}
@@ -0,0 +1,69 @@
+import { ConfigService } from '@nestjs/config';
+import { TwitterAccountsService } from '../accounts/twitter-accounts.service';
+import { PostHistoryService } from '../history/post-history.service';
+import { InMemoryRecordStore } from '../storage/memory-record.store';
+import { TwitterVideoUploaderService } from '../twitter-video-uploader.service';
+import { TweetDeletion } from './tweet-deletion.interface';
+import { TweetsService } from './tweets.service';
+
+describe('TweetsService', () => {
+  let twitterService: Record<string, jest.Mock>;
+  let record: jest.Mock;
+  let deletions: InMemoryRecordStore<TweetDeletion>;
+  let service: TweetsService;
+
+  beforeEach(() => {
+    twitterService = {
+      createTweet: jest.fn(async () => ({ data: { id: '42' } })),
+      deleteTweet: jest.fn(async () => true),
+    };
+    record = jest.fn((_context, run) => run(() => undefined));
+    deletions = new InMemoryRecordStore<TweetDeletion>();
+    service = new TweetsService(
+      twitterService as unknown as TwitterVideoUploaderService,
+      new TwitterAccountsService(
+        new ConfigService({ twitter: { defaultAccount: 'brand-a' } }),
+      ),
+      { record } as unknown as PostHistoryService,
+      deletions,
+    );
+  });
+
+  it('tweets media uploaded earlier and records the attempt', async () => {
+    await expect(
+      service.post(
+        { mediaIds: ['1', '2'], tweetText: 'Approved', account: 'brand-b' },
+        { requestId: 'request-1', client: 'editor' },
+      ),
+    ).resolves.toEqual({ tweetId: '42', mediaIds: ['1', '2'] });
+
+    expect(twitterService.createTweet).toHaveBeenCalledWith(
+      ['1', '2'],
+      'Approved',
+      undefined,
+      'brand-b',
+    );
+    expect(record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        kind: 'tweet',
+        sourceId: 'request-1',
+        client: 'editor',
+        mediaIds: ['1', '2'],
+      }),
+      expect.any(Function),
+    );
+  });
+
+  it('records deletions', async () => {
+    const deletion = await service.delete('42', undefined, { client: 'ops' });
+
+    expect(twitterService.deleteTweet).toHaveBeenCalledWith('42', undefined);
+    expect(deletion).toMatchObject({
+      id: '42',
+      account: 'brand-a',
+      deleted: true,
+      client: 'ops',
+    });
+    expect(await deletions.get('42')).toEqual(deletion);
+  });
+});
@@ -0,0 +1,74 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { TwitterAccountsService } from '../accounts/twitter-accounts.service';
+import { PostOrigin } from '../history/post-attempt.interface';
+import { PostHistoryService } from '../history/post-history.service';
+import { RecordStore } from '../storage/record-store';
+import {
+  tweetIdOf,
+  TwitterVideoUploaderService,
+} from '../twitter-video-uploader.service';
+import { TweetDeletion } from './tweet-deletion.interface';
+import { TWEET_DELETION_STORE } from './tweets.constants';
+
+export interface TweetDraft {
+  // Uploaded earlier, e.g. through POST /twitter/media
+  mediaIds: string[];
+  tweetText?: string;
+  replyToTweetId?: string;
+  account?: string;
+}
+
+/** Tweets of already uploaded media, and deletion of posted tweets. */
+@Injectable()
+export class TweetsService {
+  constructor(
+    private readonly twitterService: TwitterVideoUploaderService,
+    private readonly accounts: TwitterAccountsService,
+    private readonly history: PostHistoryService,
+    @Inject(TWEET_DELETION_STORE)
+    private readonly deletions: RecordStore<TweetDeletion>,
+  ) {}
+
+  async post(
+    draft: TweetDraft,
+    origin: PostOrigin = {},
+  ): Promise<{ tweetId: string; mediaIds: string[] }> {
+    const response = await this.history.record(
+      {
+        ...origin,
+        kind: 'tweet',
+        sourceId: origin.requestId ?? '',
+        account: draft.account,
+        media: [],
+        mediaIds: draft.mediaIds,
+      },
+      () =>
+        this.twitterService.createTweet(
+          draft.mediaIds,
+          draft.tweetText,
+          draft.replyToTweetId,
+          draft.account,
+        ),
+    );
+
+    return { tweetId: tweetIdOf(response), mediaIds: draft.mediaIds };
+  }
+
+  async delete(
+    tweetId: string,
+    account?: string,
+    origin: PostOrigin = {},
+  ): Promise<TweetDeletion> {
+    const deleted = await this.twitterService.deleteTweet(tweetId, account);
+
+    const deletion: TweetDeletion = {
+      ...origin,
+      id: tweetId,
+      account: account || this.accounts.list().defaultAccount,
+      deleted,
+      deletedAt: new Date().toISOString(),
+    };
+    await this.deletions.save(deletion);
+    return deletion;
+  }
+}
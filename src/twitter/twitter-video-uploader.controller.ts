@@ -1,102 +1,362 @@
 import {
   Controller,
+  Delete,
+  Get,
   Post,
   Body,
+  ConflictException,
+  Headers,
+  HttpCode,
   HttpException,
   HttpStatus,
-  UploadedFile,
+  Param,
+  Req,
+  Res,
+  UploadedFiles,
   UseInterceptors,
 } from '@nestjs/common';
-import { FileInterceptor } from '@nestjs/platform-express';
-import { TwitterVideoUploaderService } from './twitter-video-uploader.service';
-import * as path from 'path';
-import * as fs from 'fs';
-
-// Add type definition
-interface MulterFile {
-  fieldname: string;
-  originalname: string;
-  encoding: string;
-  mimetype: string;
-  buffer: Buffer;
-  size: number;
+import { FileFieldsInterceptor } from '@nestjs/platform-express';
+import { randomUUID } from 'crypto';
+import { Response } from 'express';
+import { UploadJobsService } from './jobs/upload-jobs.service';
+import { UploadJob } from './jobs/upload-job.interface';
+import { MAX_IMAGES_PER_TWEET } from './media/media-set';
+import { TwitterAccountsService } from './accounts/twitter-accounts.service';
+import { MediaDownloaderService } from './downloads/media-downloader.service';
+import {
+  discardFiles,
+  DiscardUploadsOnErrorInterceptor,
+} from './media/discard-uploads.interceptor';
+import {
+  MulterFile,
+  parseUrlList,
+  prepareMediaSet,
+} from './media/uploaded-file';
+import {
+  assertValidAccessibility,
+  parseAltTexts,
+} from './accessibility/alt-text';
+import { SubtitleTrack } from './accessibility/subtitle-track.interface';
+import { IdempotencyService } from './idempotency/idempotency.service';
+import { IdempotencyRecord } from './idempotency/idempotency-record.interface';
+import { IDEMPOTENCY_KEY_HEADER } from './idempotency/idempotency.constants';
+import { ApiAccessService } from './auth/api-access.service';
+import { ApiRequest } from './auth/api-client.interface';
+import { PostReservation } from './auth/api-usage-record.interface';
+import { RequireScope } from './auth/require-scope.decorator';
+import { TweetTemplatesService } from './text/tweet-templates.service';
+import { postOriginOf } from './history/post-origin';
+import { assertTweetTextFits } from './text/tweet-text';
+import { WebhooksService } from './webhooks/webhooks.service';
+import {
+  TweetResponse,
+  TwitterVideoUploaderService,
+} from './twitter-video-uploader.service';
+import { UploadPlan } from './dry-run/upload-plan';
+import { PostOutcomeUnknownError } from './errors/uploader-errors';
+
+interface UploadAccepted {
+  jobId: string;
+  status: UploadJob['status'];
+  // Set when an Idempotency-Key replay finds the tweet already posted
+  tweetId?: string;
+  result?: TweetResponse;
 }
 
 @Controller('twitter')
 export class TwitterVideoUploaderController {
-  constructor(private readonly twitterService: TwitterVideoUploaderService) {}
+  constructor(
+    private readonly uploadJobs: UploadJobsService,
+    private readonly accounts: TwitterAccountsService,
+    private readonly downloader: MediaDownloaderService,
+    private readonly idempotency: IdempotencyService,
+    private readonly apiAccess: ApiAccessService,
+    private readonly templates: TweetTemplatesService,
+    private readonly webhooks: WebhooksService,
+    private readonly uploader: TwitterVideoUploaderService,
+  ) {}
+
+  @Get('accounts')
+  listAccounts(): { accounts: string[]; defaultAccount: string } {
+    return this.accounts.list();
+  }
 
   @Post('upload')
-  @UseInterceptors(FileInterceptor('file'))
+  @RequireScope('upload')
+  @HttpCode(HttpStatus.ACCEPTED)
+  @UseInterceptors(
+    FileFieldsInterceptor([
+      { name: 'file', maxCount: 1 },
+      { name: 'files', maxCount: MAX_IMAGES_PER_TWEET },
+      { name: 'subtitles', maxCount: 1 },
+    ]),
+    DiscardUploadsOnErrorInterceptor,
+  )
   async uploadToTwitter(
+    @Headers(IDEMPOTENCY_KEY_HEADER) idempotencyKey: string | undefined,
+    @Req() request: ApiRequest,
+    @Res({ passthrough: true }) response: Response,
     @Body('videoUrl') videoUrl?: string,
+    @Body('mediaUrls') mediaUrls?: string | string[],
     @Body('tweetText') tweetText?: string,
     @Body('replyToTweetId') replyToTweetId?: string,
-    @UploadedFile() file?: MulterFile,
-  ): Promise<any> {
-    // Validate input - either videoUrl or file must be provided
-    if (!videoUrl && !file) {
+    @Body('account') account?: string,
+    @Body('altText') altText?: string | string[],
+    @Body('subtitlesLanguage') subtitlesLanguage?: string,
+    @Body('subtitlesName') subtitlesName?: string,
+    @Body('template') template?: string,
+    @Body('templateVars') templateVars?: string | Record<string, unknown>,
+    @Body('callbackUrl') callbackUrl?: string,
+    @Body('dryRun') dryRun?: string | boolean,
+    @UploadedFiles()
+    uploaded: {
+      file?: MulterFile[];
+      files?: MulterFile[];
+      subtitles?: MulterFile[];
+    } = {},
+  ): Promise<UploadAccepted | UploadPlan> {
+    const files = [...(uploaded.file ?? []), ...(uploaded.files ?? [])];
+    const urls = [...(videoUrl ? [videoUrl] : []), ...parseUrlList(mediaUrls)];
+
+    // Validate input - at least one URL or file must be provided
+    if (urls.length === 0 && files.length === 0) {
       throw new HttpException(
-        'Either video URL or file must be provided', 
-        HttpStatus.BAD_REQUEST
+        'Either a media URL or a file must be provided',
+        HttpStatus.BAD_REQUEST,
       );
     }
 
+    // Fail fast with a 400 before anything is written or queued
+    this.accounts.resolve(account);
+    this.apiAccess.assertAccount(request, account);
+    const text = this.templates.compose(
+      { tweetText, template, templateVars },
+      { filename: files[0]?.originalname ?? urls[0], account },
+    );
+    if (text !== undefined) {
+      assertTweetTextFits(text);
+    }
+    const callback = await this.webhooks.assertCallbackUrl(callbackUrl);
+    const planOnly = this.uploader.isDryRun(dryRun);
+
+    // Saved with the idempotency claim, so a key never outlives its job
+    const jobId = randomUUID();
+    let claim: IdempotencyRecord | undefined;
+    // A dry run posts nothing, so there is nothing to replay
+    if (idempotencyKey !== undefined && !planOnly) {
+      const requestHash = await this.idempotency.hashRequest(
+        {
+          urls,
+          tweetText,
+          template,
+          templateVars,
+          replyToTweetId,
+          account,
+          altText: parseAltTexts(altText),
+          subtitlesLanguage,
+          subtitlesName,
+          callbackUrl: callback,
+        },
+        Object.fromEntries(
+          Object.entries(uploaded).map(([field, fieldFiles]) => [
+            field,
+            fieldFiles.map((file) => file.path),
+          ]),
+        ),
+      );
+
+      const outcome = await this.claimIdempotencyKey(
+        request,
+        idempotencyKey,
+        requestHash,
+        jobId,
+      );
+      if ('replay' in outcome) {
+        // The first request's files are the ones being uploaded
+        await discardFiles([...files, ...(uploaded.subtitles ?? [])]);
+        response.status(HttpStatus.OK).setHeader('Idempotent-Replayed', 'true');
+        return outcome.replay;
+      }
+      claim = outcome.claim;
+    }
+
+    // A reserved post is given back unless its job was queued
+    let reservation: PostReservation | undefined;
+    let queued = false;
     try {
-      let uploadPath: string | undefined;
-
-      // If a file is uploaded, save it temporarily
-      if (file) {
-        // Validate file type
-        const allowedMimeTypes = [
-          'video/mp4', 
-          'video/quicktime', 
-          'image/jpeg', 
-          'image/png', 
-          'image/gif'
-        ];
-
-        if (!allowedMimeTypes.includes(file.mimetype)) {
-          throw new HttpException(
-            'Unsupported file type. Only MP4, QuickTime videos, JPEG, PNG, and GIF are allowed', 
-            HttpStatus.BAD_REQUEST
-          );
-        }
+      await this.downloader.assertAllowedUrls(urls);
 
-        const uploadsDir = path.join(process.cwd(), 'uploads');
-        await fs.promises.mkdir(uploadsDir, { recursive: true });
+      // Uploaded files stay on disk until their job finishes
+      const media = await prepareMediaSet(files, urls);
 
-        uploadPath = path.join(
-          uploadsDir, 
-          `${Date.now()}-${file.originalname}`
+      // Alt texts follow the media order: files first, then URLs
+      const altTexts = parseAltTexts(altText);
+      if (altTexts.length > media.length) {
+        throw new HttpException(
+          `altText has ${altTexts.length} entries for ${media.length} media item(s)`,
+          HttpStatus.BAD_REQUEST,
         );
+      }
+      altTexts.forEach((text, index) => (media[index].altText = text));
+
+      const subtitles = this.toSubtitleTrack(
+        uploaded.subtitles?.[0],
+        subtitlesLanguage,
+        subtitlesName,
+      );
+      await assertValidAccessibility(media, subtitles);
 
-        await fs.promises.writeFile(uploadPath, file.buffer);
+      // Planned right away, without a job or counting against the quota
+      if (planOnly) {
+        response.status(HttpStatus.OK);
+        try {
+          return await this.uploader.uploadToTwitter(media, {
+            tweetText: text,
+            replyToTweetId,
+            account,
+            subtitles,
+            dryRun: true,
+          });
+        } finally {
+          await discardFiles([...files, ...(uploaded.subtitles ?? [])]);
+        }
       }
+      reservation = await this.apiAccess.authorizePosts(request, account, 1);
 
-      // Use either the uploaded file path or the video URL
-      const result = await this.twitterService.uploadToTwitter(
-        uploadPath || videoUrl!,
+      const job = await this.uploadJobs.enqueue(
+        media,
         {
-          tweetText,
+          tweetText: text,
           replyToTweetId,
-          mimeType: file ? file.mimetype : undefined
-        }
+          account,
+          subtitles,
+        },
+        postOriginOf(request, callback),
+        jobId,
       );
+      queued = true;
 
-      // Clean up temporary file if it exists
-      if (uploadPath) {
-        await fs.promises.unlink(uploadPath);
+      return { jobId: job.id, status: job.status };
+    } catch (error: unknown) {
+      // Nothing was queued, so the key may be used again
+      if (claim) {
+        await this.idempotency.release(claim);
+      }
+      if (!queued) {
+        await this.apiAccess.refundPosts(reservation);
       }
+      // UploaderExceptionFilter picks the status
+      throw error;
+    } finally {
+      if (claim) {
+        this.idempotency.finish(claim);
+      }
+    }
+  }
 
-      return result;
-    } catch (error: unknown) {
-      const errorMessage =
-        error instanceof Error
-          ? error.message
-          : 'Failed to upload to Twitter';
+  @Get('jobs/:id')
+  @RequireScope('upload')
+  async getJob(
+    @Req() request: ApiRequest,
+    @Param('id') id: string,
+  ): Promise<UploadJob> {
+    const job = await this.uploadJobs.get(id);
+    this.apiAccess.assertAccount(request, job.options.account);
+    return job;
+  }
+
+  @Delete('jobs/:id')
+  @RequireScope('upload')
+  async cancelJob(
+    @Req() request: ApiRequest,
+    @Param('id') id: string,
+  ): Promise<UploadJob> {
+    const job = await this.uploadJobs.get(id);
+    this.apiAccess.assertAccount(request, job.options.account);
+    return this.uploadJobs.cancel(id);
+  }
+
+  /**
+   * Claims an Idempotency-Key of the calling API client, or finds the reply
+   * to a request that repeats an earlier one. The key stays in progress until
+   * the job of the first request is done; failed and cancelled jobs free
+   * it so the upload can be retried. A job whose tweet may exist keeps it.
+   */
+  private async claimIdempotencyKey(
+    request: ApiRequest,
+    key: string,
+    requestHash: string,
+    jobId: string,
+  ): Promise<{ claim: IdempotencyRecord } | { replay: UploadAccepted }> {
+    const client = request.apiClient?.name;
+    for (;;) {
+      const { record, replay } = await this.idempotency.begin(
+        client ? `upload:${client}` : 'upload',
+        key,
+        requestHash,
+        jobId,
+      );
+      if (!replay) {
+        return { claim: record };
+      }
+      if (record.state === 'completed') {
+        return { replay: record.response as UploadAccepted };
+      }
+
+      const job = record.jobId
+        ? await this.uploadJobs.get(record.jobId).catch(() => undefined)
+        : undefined;
+      if (
+        job &&
+        (job.status === 'done' ||
+          job.errorCode === PostOutcomeUnknownError.code)
+      ) {
+        const accepted: UploadAccepted = {
+          jobId: job.id,
+          status: job.status,
+          tweetId: job.tweetId,
+          result: job.result,
+        };
+        await this.idempotency.update(record, {
+          state: 'completed',
+          response: accepted,
+        });
+        return { replay: accepted };
+      }
+      // Without a job, the first request is still on its way to queueing
+      // one, unless it ended before it could, e.g. with the process
+      if (
+        (!job && !this.idempotency.isAbandoned(record)) ||
+        job?.status === 'queued' ||
+        job?.status === 'running'
+      ) {
+        throw new ConflictException(
+          'A request with this Idempotency-Key is still in progress',
+        );
+      }
 
-      throw new HttpException(errorMessage, HttpStatus.INTERNAL_SERVER_ERROR);
+      await this.idempotency.release(record);
+    }
+  }
+
+  private toSubtitleTrack(
+    file: MulterFile | undefined,
+    languageCode: string | undefined,
+    displayName: string | undefined,
+  ): SubtitleTrack | undefined {
+    if (!file) {
+      return undefined;
+    }
+    if (!file.originalname.toLowerCase().endsWith('.srt')) {
+      throw new HttpException(
+        'Subtitles must be an .srt file',
+        HttpStatus.BAD_REQUEST,
+      );
     }
+    return {
+      source: file.path,
+      languageCode: languageCode ?? '',
+      displayName: displayName || undefined,
+    };
   }
 }
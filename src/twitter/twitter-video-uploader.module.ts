@@ -1,17 +1,123 @@
 import { Module } from '@nestjs/common';
+import { APP_FILTER, APP_GUARD } from '@nestjs/core';
+import { ConfigService } from '@nestjs/config';
 import { MulterModule } from '@nestjs/platform-express';
+import * as path from 'path';
 import { TwitterVideoUploaderService } from './twitter-video-uploader.service';
 import { TwitterVideoUploaderController } from './twitter-video-uploader.controller';
+import { UploadJobsService } from './jobs/upload-jobs.service';
+import { UPLOAD_JOB_STORE } from './jobs/upload-jobs.constants';
+import {
+  fileRecordStoreProvider,
+  jsonlLogProvider,
+} from './storage/record-store.providers';
+import { TwitterAccountsService } from './accounts/twitter-accounts.service';
+import { ThreadsController } from './threads/threads.controller';
+import { ThreadsService } from './threads/threads.service';
+import { THREAD_STORE } from './threads/threads.constants';
+import { ScheduledPostsController } from './scheduling/scheduled-posts.controller';
+import { ScheduledPostsService } from './scheduling/scheduled-posts.service';
+import { SCHEDULED_POST_STORE } from './scheduling/scheduled-posts.constants';
+import { UPLOAD_SESSION_STORE } from './resumable/upload-sessions.constants';
+import { MediaValidationController } from './validation/media-validation.controller';
+import { MediaValidationService } from './validation/media-validation.service';
+import { MediaDownloaderService } from './downloads/media-downloader.service';
+import { IdempotencyService } from './idempotency/idempotency.service';
+import { IDEMPOTENCY_STORE } from './idempotency/idempotency.constants';
+import { UploaderExceptionFilter } from './errors/uploader-exception.filter';
+import { ApiAccessService } from './auth/api-access.service';
+import { ApiKeyGuard } from './auth/api-key.guard';
+import { API_USAGE_STORE } from './auth/api-access.constants';
+import { TwitterClient } from './client/twitter-client.service';
+import { RateLimitsController } from './client/rate-limits.controller';
+import { UploadEventsService } from './progress/upload-events.service';
+import { UploadEventsController } from './progress/upload-events.controller';
+import { TweetTemplatesService } from './text/tweet-templates.service';
+import { TweetTemplatesController } from './text/tweet-templates.controller';
+import { PostHistoryService } from './history/post-history.service';
+import { PostHistoryController } from './history/post-history.controller';
+import { POST_HISTORY_LOG } from './history/post-history.constants';
+import { MediaController } from './media/media.controller';
+import { TweetsController } from './tweets/tweets.controller';
+import { TweetsService } from './tweets/tweets.service';
+import { TWEET_DELETION_STORE } from './tweets/tweets.constants';
+import { MediaCacheService } from './media-cache/media-cache.service';
+import { MediaCacheController } from './media-cache/media-cache.controller';
+import { MEDIA_CACHE_STORE } from './media-cache/media-cache.constants';
+import { WebhooksService } from './webhooks/webhooks.service';
+import { WebhooksController } from './webhooks/webhooks.controller';
+import { WEBHOOK_DELIVERY_STORE } from './webhooks/webhooks.constants';
+import { BatchesController } from './batches/batches.controller';
+import { BatchesService } from './batches/batches.service';
+import { BATCH_STORE } from './batches/batches.constants';
 
 @Module({
   imports: [
-    MulterModule.register({
-      limits: {
-        fileSize: 50 * 1024 * 1024, // 50MB max file size
-      },
+    // Request files are streamed to disk instead of buffered in memory
+    MulterModule.registerAsync({
+      useFactory: (configService: ConfigService) => ({
+        dest: path.join(process.cwd(), 'uploads'),
+        limits: {
+          fileSize: configService.get<number>('twitter.upload.maxFileSize'),
+        },
+      }),
+      inject: [ConfigService],
     }),
   ],
-  controllers: [TwitterVideoUploaderController],
-  providers: [TwitterVideoUploaderService]
+  controllers: [
+    TwitterVideoUploaderController,
+    ThreadsController,
+    ScheduledPostsController,
+    MediaValidationController,
+    RateLimitsController,
+    UploadEventsController,
+    TweetTemplatesController,
+    PostHistoryController,
+    MediaController,
+    TweetsController,
+    MediaCacheController,
+    WebhooksController,
+    BatchesController,
+  ],
+  providers: [
+    { provide: APP_FILTER, useClass: UploaderExceptionFilter },
+    { provide: APP_GUARD, useClass: ApiKeyGuard },
+    TwitterAccountsService,
+    TwitterClient,
+    TwitterVideoUploaderService,
+    UploadJobsService,
+    UploadEventsService,
+    ThreadsService,
+    ScheduledPostsService,
+    MediaValidationService,
+    MediaDownloaderService,
+    IdempotencyService,
+    ApiAccessService,
+    TweetTemplatesService,
+    PostHistoryService,
+    TweetsService,
+    MediaCacheService,
+    WebhooksService,
+    BatchesService,
+    fileRecordStoreProvider(
+      UPLOAD_JOB_STORE,
+      'jobs.json',
+      'twitter.jobs.storePath',
+    ),
+    fileRecordStoreProvider(THREAD_STORE, 'threads.json'),
+    fileRecordStoreProvider(SCHEDULED_POST_STORE, 'scheduled-posts.json'),
+    fileRecordStoreProvider(UPLOAD_SESSION_STORE, 'upload-sessions.json'),
+    fileRecordStoreProvider(IDEMPOTENCY_STORE, 'idempotency-keys.json'),
+    fileRecordStoreProvider(API_USAGE_STORE, 'api-usage.json'),
+    fileRecordStoreProvider(TWEET_DELETION_STORE, 'tweet-deletions.json'),
+    fileRecordStoreProvider(MEDIA_CACHE_STORE, 'media-cache.json'),
+    fileRecordStoreProvider(WEBHOOK_DELIVERY_STORE, 'webhook-deliveries.json'),
+    fileRecordStoreProvider(BATCH_STORE, 'batches.json'),
+    jsonlLogProvider(
+      POST_HISTORY_LOG,
+      'post-history.jsonl',
+      'twitter.history.path',
+    ),
+  ],
 })
-export class TwitterVideoUploaderModule {}
\ No newline at end of file
+export class TwitterVideoUploaderModule {}
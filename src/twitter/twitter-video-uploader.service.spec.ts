@@ -0,0 +1,454 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import twitterConfig from '../config/twitter.config';
+import {
+  FAKE_CREDENTIALS,
+  FakeTwitterServer,
+} from '../../test/fake-twitter/fake-twitter-server';
+import { buildMp4, buildPng } from '../../test/fake-twitter/media-fixtures';
+import { TwitterAccountsService } from './accounts/twitter-accounts.service';
+import { UploadPlan } from './dry-run/upload-plan';
+import { TwitterClient } from './client/twitter-client.service';
+import { MediaDownloaderService } from './downloads/media-downloader.service';
+import { MediaCacheService } from './media-cache/media-cache.service';
+import * as fingerprint from './media/fingerprint';
+import { InMemoryRecordStore } from './storage/memory-record.store';
+import { TwitterVideoUploaderService } from './twitter-video-uploader.service';
+import { MediaValidationService } from './validation/media-validation.service';
+
+describe('TwitterVideoUploaderService against the fake API', () => {
+  const fake = new FakeTwitterServer();
+  let dir: string;
+  let video: string;
+  let image: string;
+  let delay: jest.SpyInstance;
+  let client: TwitterClient;
+  let clientDelay: jest.SpyInstance;
+  let mediaCache: MediaCacheService;
+
+  const createService = (
+    consumerSecret = FAKE_CREDENTIALS.consumerSecret,
+    sandbox = false,
+  ) => {
+    const config = new ConfigService({
+      twitter: {
+        ...twitterConfig(),
+        consumerKey: FAKE_CREDENTIALS.consumerKey,
+        consumerSecret,
+        defaultAccount: 'main',
+        accounts: {
+          main: {
+            accessToken: FAKE_CREDENTIALS.accessToken,
+            accessTokenSecret: FAKE_CREDENTIALS.accessTokenSecret,
+          },
+        },
+        apiBaseUrl: fake.url,
+        uploadBaseUrl: fake.url,
+        upload: { chunkSizeBytes: 1024, maxChunksInFlight: 2 },
+        client: { maxRetries: 2, maxRateLimitWaitMs: 60_000 },
+        sandbox,
+      },
+    });
+    const accounts = new TwitterAccountsService(config);
+    client = new TwitterClient(config, accounts);
+    mediaCache = new MediaCacheService(
+      config,
+      accounts,
+      new InMemoryRecordStore(),
+    );
+    const service = new TwitterVideoUploaderService(
+      config,
+      accounts,
+      new InMemoryRecordStore(),
+      new MediaValidationService(config),
+      new MediaDownloaderService(config),
+      client,
+      mediaCache,
+    );
+    delay = jest.spyOn(service as any, 'delay').mockResolvedValue(undefined);
+    jest.spyOn(client as any, 'calculateBackoffTime').mockReturnValue(0);
+    clientDelay = jest
+      .spyOn(client as any, 'delay')
+      .mockResolvedValue(undefined);
+    return service;
+  };
+
+  beforeAll(async () => {
+    await fake.start();
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'fake-twitter-'));
+    video = path.join(dir, 'clip.mp4');
+    image = path.join(dir, 'photo.png');
+    // Several APPEND segments of 1KB
+    await fs.promises.writeFile(video, buildMp4(10, undefined, 3000));
+    await fs.promises.writeFile(image, buildPng(640, 480));
+  });
+
+  afterAll(async () => {
+    await fake.stop();
+    await fs.promises.rm(dir, { recursive: true, force: true });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    fake.reset();
+  });
+
+  it('uploads a video in chunks, waits for processing and tweets it', async () => {
+    const service = createService();
+
+    const tweet = await service.uploadToTwitter(video, { tweetText: 'Hello' });
+
+    const [posted] = fake.tweets;
+    expect(tweet).toEqual({ data: { id: posted.id, text: 'Hello' } });
+    expect(posted.mediaIds).toHaveLength(1);
+    const [media] = [...fake.media.values()];
+    expect(media).toMatchObject({
+      mediaType: 'video/mp4',
+      mediaCategory: 'tweet_video',
+    });
+    expect(fake.uploadedBytes(media.id)).toEqual(
+      await fs.promises.readFile(video),
+    );
+    expect(fake.calls('APPEND').length).toBeGreaterThan(1);
+    expect(fake.calls('STATUS')).toHaveLength(2);
+  });
+
+  it('attaches alt text to images without polling for processing', async () => {
+    const service = createService();
+
+    await service.uploadToTwitter([{ source: image, altText: 'A cat' }]);
+
+    const [media] = [...fake.media.values()];
+    expect(media).toMatchObject({
+      mediaCategory: 'tweet_image',
+      altText: 'A cat',
+    });
+    expect(fake.calls('STATUS')).toHaveLength(0);
+  });
+
+  it('reuses the media id of content uploaded before', async () => {
+    const service = createService();
+
+    await service.uploadToTwitter([{ source: image }], { tweetText: 'One' });
+    const copy = path.join(dir, 'copy.png');
+    await fs.promises.copyFile(image, copy);
+    await service.uploadToTwitter([{ source: copy }], { tweetText: 'Two' });
+
+    expect(fake.calls('INIT')).toHaveLength(1);
+    expect(fake.tweets[1].mediaIds).toEqual(fake.tweets[0].mediaIds);
+    expect(await mediaCache.stats()).toMatchObject({
+      entries: 1,
+      hits: 1,
+      misses: 1,
+      bytesSaved: (await fs.promises.stat(image)).size,
+    });
+  });
+
+  it('uploads media again when subtitles or alt text go on it', async () => {
+    const service = createService();
+    const subtitles = path.join(dir, 'captions.srt');
+    await fs.promises.writeFile(
+      subtitles,
+      '1\n00:00:00,000 --> 00:00:01,000\nHi\n',
+    );
+
+    await service.uploadToTwitter(video, { tweetText: 'Plain' });
+    await service.uploadToTwitter(video, {
+      tweetText: 'Captioned',
+      subtitles: { source: subtitles, languageCode: 'en' },
+    });
+    await service.uploadToTwitter([{ source: image, altText: 'A cat' }]);
+    await service.uploadToTwitter([{ source: image }], { tweetText: 'Later' });
+
+    const [plain, captioned, described, later] = fake.tweets;
+    expect(captioned.mediaIds).not.toEqual(plain.mediaIds);
+    expect(fake.media.get(plain.mediaIds[0])?.subtitles).toBeUndefined();
+    // The image with alt text is not reused for a post without it
+    expect(later.mediaIds).not.toEqual(described.mediaIds);
+  });
+
+  it('reports when media expires, keeping the expiry of reused ids', async () => {
+    const service = createService();
+
+    const first = await service.uploadMediaSet([{ source: image }]);
+    const again = await service.uploadMediaSet([{ source: image }]);
+
+    // The fake answers expires_after_secs: 86400
+    expect(Date.parse(first.expiresAt) - Date.now()).toBeGreaterThan(
+      86_300_000,
+    );
+    expect(again).toEqual(first);
+    expect(fake.calls('INIT')).toHaveLength(1);
+  });
+
+  it('hashes each file once for the cache and the media session', async () => {
+    const service = createService();
+    const fingerprintFile = jest.spyOn(fingerprint, 'fingerprintFile');
+
+    await service.uploadMediaSet([{ source: video }]);
+
+    expect(fingerprintFile).toHaveBeenCalledTimes(1);
+    fingerprintFile.mockRestore();
+  });
+
+  it('gives concurrent uploads of the same file their own media session', async () => {
+    const service = createService();
+
+    const uploading = service.uploadVideo(video);
+    while (fake.calls('APPEND').length === 0) {
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+    const [first, second] = await Promise.all([
+      uploading,
+      service.uploadVideo(video),
+    ]);
+
+    expect(fake.calls('INIT')).toHaveLength(2);
+    expect(first.media_id_string).not.toBe(second.media_id_string);
+    const content = await fs.promises.readFile(video);
+    expect(fake.uploadedBytes(first.media_id_string)).toEqual(content);
+    expect(fake.uploadedBytes(second.media_id_string)).toEqual(content);
+  });
+
+  it('waits for beforeTweet and tweets nothing when it fails', async () => {
+    const service = createService();
+
+    await expect(
+      service.uploadToTwitter(image, {
+        beforeTweet: () => Promise.reject(new Error('Disk full')),
+      }),
+    ).rejects.toThrow('Disk full');
+    expect(fake.media.size).toBe(1);
+    expect(fake.tweets).toHaveLength(0);
+  });
+
+  it('plans a dry run without sending anything to Twitter', async () => {
+    const service = createService();
+
+    const plan = await service.uploadToTwitter(
+      [{ source: video, altText: 'A cat' }],
+      { tweetText: 'Hello 👋', replyToTweetId: '42', dryRun: true },
+    );
+
+    const { size } = await fs.promises.stat(video);
+    const segments = Math.ceil(size / 1024);
+    expect(plan).toMatchObject({
+      dryRun: true,
+      sandbox: false,
+      account: 'main',
+      media: [
+        {
+          mediaId: 'dry-run-media-1',
+          fileName: 'clip.mp4',
+          mediaType: 'video/mp4',
+          mediaCategory: 'tweet_video',
+          totalBytes: size,
+          chunkSize: 1024,
+        },
+      ],
+      tweet: {
+        payload: {
+          text: 'Hello 👋',
+          media: { media_ids: ['dry-run-media-1'] },
+          reply: { in_reply_to_tweet_id: '42' },
+        },
+        weightedLength: 8,
+        maxWeightedLength: 280,
+      },
+    });
+    const [media] = plan.media;
+    expect(media.segments).toHaveLength(segments);
+    expect(media.segments[segments - 1]).toEqual({
+      index: segments - 1,
+      offset: (segments - 1) * 1024,
+      bytes: size - (segments - 1) * 1024,
+    });
+    // INIT, the APPENDs, FINALIZE and the alt text
+    expect(media.requests).toHaveLength(segments + 3);
+    expect(media.requests[0]).toMatchObject({
+      method: 'POST',
+      form: { command: 'INIT', total_bytes: size, media_type: 'video/mp4' },
+    });
+    expect(media.requests[1].multipart).toEqual({
+      command: 'APPEND',
+      media_id: 'dry-run-media-1',
+      segment_index: '0',
+      media: '<1024 bytes>',
+    });
+    expect(media.requests[segments + 2].json).toEqual({
+      media_id: 'dry-run-media-1',
+      alt_text: { text: 'A cat' },
+    });
+    expect(plan.tweet!.request.headers.Authorization).toContain(
+      'oauth_signature="<redacted>"',
+    );
+    expect(fake.requests).toHaveLength(0);
+    expect(await mediaCache.stats()).toMatchObject({ entries: 0 });
+  });
+
+  it('plans the same default text it would tweet', async () => {
+    const service = createService();
+
+    // As sent in a form field
+    const planned = (await service.uploadToTwitter(video, {
+      dryRun: 'true' as unknown as boolean,
+    })) as unknown as UploadPlan;
+    const textOnly = await service.planPost([], {});
+    await service.uploadToTwitter(video);
+
+    const [tweet] = fake.tweets;
+    expect(planned.tweet).toMatchObject({ payload: { text: tweet.text } });
+    expect(textOnly.tweet).toMatchObject({ payload: { text: tweet.text } });
+    expect(service.isDryRun('true')).toBe(true);
+  });
+
+  it('only plans posts and refuses to send any in sandbox mode', async () => {
+    const service = createService(undefined, true);
+
+    const plan = await service.uploadToTwitter(video, {
+      tweetText: 'Hi',
+      dryRun: true,
+    });
+    expect(plan).toMatchObject({
+      dryRun: true,
+      sandbox: true,
+      media: [{ mediaType: 'video/mp4', mediaCategory: 'tweet_video' }],
+    });
+    // Background posts must not take a plan for a tweet
+    await expect(
+      service.uploadToTwitter(video, { tweetText: 'Hi' }),
+    ).rejects.toMatchObject({ code: 'sandbox_mode' });
+    await expect(service.createTweet([], 'Hi')).rejects.toMatchObject({
+      code: 'sandbox_mode',
+    });
+    expect(fake.requests).toHaveLength(0);
+  });
+
+  it('is rejected by the API when the signature is wrong', async () => {
+    const service = createService('not-the-secret');
+
+    await expect(service.uploadToTwitter(video)).rejects.toMatchObject({
+      code: 'twitter_auth_failed',
+      twitter: { status: 401 },
+    });
+    expect(fake.media.size).toBe(0);
+  });
+
+  it('retries APPEND segments on 5xx and INIT on 429', async () => {
+    const service = createService();
+    fake.failNext('INIT', { status: 429, headers: { 'retry-after': '0' } });
+    fake.failNext('APPEND', { status: 503 }, 2);
+
+    await service.uploadToTwitter(video);
+
+    expect(fake.calls('INIT').map((call) => call.status)).toEqual([429, 202]);
+    expect(
+      fake.calls('APPEND').filter((call) => call.status === 503),
+    ).toHaveLength(2);
+    expect(fake.tweets).toHaveLength(1);
+  });
+
+  it('fails when Twitter cannot process the media', async () => {
+    const service = createService();
+    fake.processing = { checks: 0, checkAfterSecs: 1, outcome: 'failed' };
+
+    await expect(service.uploadToTwitter(video)).rejects.toThrow(
+      'Media processing failed: Unsupported video format',
+    );
+    expect(fake.tweets).toHaveLength(0);
+  });
+
+  it('honours check_after_secs, capped at 30 seconds', async () => {
+    const service = createService();
+    fake.processing = { checks: 2, checkAfterSecs: 120, outcome: 'succeeded' };
+
+    await service.uploadToTwitter(video);
+
+    const waits = delay.mock.calls.map(([ms]) => ms);
+    expect(waits).toEqual([30000, 30000]);
+  });
+
+  it('waits for an exhausted rate limit to reset before calling again', async () => {
+    const service = createService();
+    const resetAt = Math.floor(Date.now() / 1000) + 30;
+    fake.failNext('INIT', {
+      status: 429,
+      headers: {
+        'x-rate-limit-remaining': '0',
+        'x-rate-limit-reset': String(resetAt),
+      },
+    });
+
+    await service.uploadToTwitter(video);
+
+    const waits = clientDelay.mock.calls.map(([ms]) => ms);
+    expect(Math.max(...waits)).toBeGreaterThan(25_000);
+    expect(fake.calls('INIT').map((call) => call.status)).toEqual([429, 202]);
+    expect(client.listBudgets()).toContainEqual({
+      endpoint: 'POST /1.1/media/upload.json',
+      account: 'main',
+      limit: 300,
+      remaining: expect.any(Number),
+      resetAt: expect.any(String),
+    });
+  });
+
+  it('fails without calling Twitter when a budget resets too late', async () => {
+    const service = createService();
+    fake.failNext('TWEET', {
+      status: 429,
+      headers: {
+        'x-rate-limit-remaining': '0',
+        'x-rate-limit-reset': String(Math.floor(Date.now() / 1000) + 900),
+      },
+    });
+    await expect(service.uploadToTwitter(image)).rejects.toMatchObject({
+      code: 'rate_limit_exhausted',
+    });
+    const tweetCalls = fake.calls('TWEET').length;
+
+    await expect(service.createTweet([], 'Later')).rejects.toMatchObject({
+      code: 'rate_limit_exhausted',
+      retryAfterSecs: expect.any(Number),
+    });
+    expect(fake.calls('TWEET')).toHaveLength(tweetCalls);
+  });
+
+  it('fails instead of waiting out a Retry-After that is too long', async () => {
+    const service = createService();
+    fake.failNext('INIT', { status: 429, headers: { 'retry-after': '900' } });
+
+    await expect(service.uploadToTwitter(video)).rejects.toMatchObject({
+      code: 'rate_limit_exhausted',
+      retryAfterSecs: 900,
+    });
+    expect(clientDelay).not.toHaveBeenCalled();
+    expect(fake.calls('INIT')).toHaveLength(1);
+  });
+
+  it('stops retrying after the configured number of attempts', async () => {
+    const service = createService();
+    fake.failNext('APPEND', { status: 503 }, 10);
+
+    await expect(service.uploadMedia({ source: image })).rejects.toThrow();
+
+    // The first attempt and two retries
+    expect(fake.calls('APPEND')).toHaveLength(3);
+  });
+
+  it('leaves retries to the client instead of restarting the upload', async () => {
+    const service = createService();
+    fake.failNext('APPEND', { status: 503 }, 10);
+
+    await expect(service.uploadToTwitter(image)).rejects.toMatchObject({
+      twitter: { status: 503 },
+    });
+
+    // The client's retries of the one segment, once
+    expect(fake.calls('INIT')).toHaveLength(1);
+    expect(fake.calls('APPEND')).toHaveLength(3);
+    expect(fake.tweets).toHaveLength(0);
+  });
+});
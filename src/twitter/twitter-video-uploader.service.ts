@@ -1,186 +1,292 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { HttpStatus, Inject, Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import * as crypto from 'crypto';
-import * as OAuth from 'oauth-1.0a';
-import axios, { AxiosError, AxiosInstance } from 'axios';
+import axios from 'axios';
 import * as fs from 'fs';
 import * as path from 'path';
+import {
+  UploadContext,
+  UploadOptions,
+} from './interfaces/upload-options.interface';
+import {
+  MediaItem,
+  UploadedMediaItem,
+  UploadedMediaSet,
+} from './interfaces/media-item.interface';
+import { TwitterAccountsService } from './accounts/twitter-accounts.service';
+import {
+  assertValidMediaSet,
+  classifyMedia,
+  MediaKind,
+  MediaSetUploadError,
+} from './media/media-set';
+import { fingerprintFile } from './media/fingerprint';
+import { MediaUploadResponse } from './media/media-status.interface';
+import {
+  detectMediaType,
+  MediaCategory,
+  mediaCategoryFor,
+  sniffFile,
+} from './media/media-type';
+import { RecordStore } from './storage/record-store';
+import { UploadSession } from './resumable/upload-session.interface';
+import { UPLOAD_SESSION_STORE } from './resumable/upload-sessions.constants';
+import { MediaValidationService } from './validation/media-validation.service';
+import { MediaValidationReport } from './validation/media-validation.exception';
+import { MediaDownloaderService } from './downloads/media-downloader.service';
+import {
+  MediaProcessingFailedError,
+  MediaProcessingTimeoutError,
+  SandboxModeError,
+  TweetRejectedError,
+  ValidationError,
+} from './errors/uploader-errors';
+import { fromTwitterError } from './errors/twitter-error.mapper';
+import { assertValidAccessibility } from './accessibility/alt-text';
+import { SubtitleTrack } from './accessibility/subtitle-track.interface';
+import { TwitterClient, TwitterRequest } from './client/twitter-client.service';
+import { assertTweetTextFits, measureTweetText } from './text/tweet-text';
+import { MediaCacheService } from './media-cache/media-cache.service';
+import { plannedMediaId, TweetPlan, UploadPlan } from './dry-run/upload-plan';
+import { delay } from './concurrency/delay';
+import { KeyedLock } from './concurrency/keyed-lock';
+
+// Resume only if the media session outlives the rest of the upload
+const SESSION_EXPIRY_MARGIN_MS = 10 * 60 * 1000;
+
+// Tweeted, or planned, when a post has no text of its own
+const DEFAULT_TWEET_TEXT = 'Uploaded a new media! 🎥 #MediaUpload';
+
+// `dryRun` as sent in JSON bodies or form fields
+const dryRunRequested = (dryRun: unknown) =>
+  dryRun === true || dryRun === 'true';
+
+/** What POST /2/tweets answers, and createTweet resolves to. */
+export interface TweetResponse {
+  data: { id: string; text: string };
+}
 
-// Add a type definition if needed
-interface OAuthConfig {
-  consumer: { key: string; secret: string };
-  signature_method: string;
-  hash_function: (base_string: string, key: string) => string;
+export function tweetIdOf(response: TweetResponse): string {
+  return response.data.id;
 }
 
 @Injectable()
 export class TwitterVideoUploaderService {
   private readonly logger = new Logger(TwitterVideoUploaderService.name);
-  private oauth: OAuth;
-  private axiosInstance: AxiosInstance;
-
-  constructor(private configService: ConfigService) {
-    const consumerKey = this.validateCredential('twitter.consumerKey');
-    const consumerSecret = this.validateCredential('twitter.consumerSecret');
-
-    this.oauth = new OAuth({
-      consumer: { key: consumerKey, secret: consumerSecret },
-      signature_method: 'HMAC-SHA1',
-      hash_function: (base_string: string, key: string) => {
-        return crypto.createHmac('sha1', key)
-          .update(base_string)
-          .digest('base64');
-      },
-    });
-
-    // Create axios instance with interceptors
-    this.axiosInstance = axios.create({
-      timeout: 30000, // 30 seconds timeout
-    });
-    
-    this.axiosInstance.interceptors.response.use(
-      response => response,
-      async (error) => {
-        // More comprehensive error handling
-        if (axios.isAxiosError(error) && error.response?.status === 429) {
-          const retryAfter = error.response.headers['retry-after'] 
-            ? parseInt(error.response.headers['retry-after'], 10) 
-            : null;
-          
-          const waitTime = retryAfter 
-            ? retryAfter * 1000 
-            : this.calculateBackoffTime(0);
-          
-          this.logger.warn(`Rate limit hit. Waiting ${waitTime}ms before retry.`);
-          await this.delay(waitTime);
-          
-          // Add null check and type assertion
-          return error.config 
-            ? this.axiosInstance.request(error.config) 
-            : Promise.reject(error);
-        }
-        return Promise.reject(error);
-      }
+  private readonly chunkSize: number;
+  private readonly maxChunksInFlight: number;
+  private readonly uploadUrl: string;
+  private readonly metadataUrl: string;
+  private readonly subtitlesUrl: string;
+  private readonly tweetUrl: string;
+  private readonly sandbox: boolean;
+  // Media sessions in use, by id
+  private readonly locks = new KeyedLock();
+
+  constructor(
+    private configService: ConfigService,
+    private readonly accounts: TwitterAccountsService,
+    @Inject(UPLOAD_SESSION_STORE)
+    private readonly uploadSessions: RecordStore<UploadSession>,
+    private readonly mediaValidation: MediaValidationService,
+    private readonly downloader: MediaDownloaderService,
+    private readonly twitter: TwitterClient,
+    private readonly mediaCache: MediaCacheService,
+  ) {
+    this.chunkSize =
+      this.configService.get<number>('twitter.upload.chunkSizeBytes') ??
+      5 * 1024 * 1024;
+    this.maxChunksInFlight = Math.max(
+      1,
+      this.configService.get<number>('twitter.upload.maxChunksInFlight') ?? 2,
     );
+
+    const uploadBaseUrl =
+      this.configService.get<string>('twitter.uploadBaseUrl') ??
+      'https://upload.twitter.com';
+    const apiBaseUrl =
+      this.configService.get<string>('twitter.apiBaseUrl') ??
+      'https://api.twitter.com';
+    this.uploadUrl = `${uploadBaseUrl}/1.1/media/upload.json`;
+    this.metadataUrl = `${uploadBaseUrl}/1.1/media/metadata/create.json`;
+    this.subtitlesUrl = `${uploadBaseUrl}/1.1/media/subtitles/create.json`;
+    this.tweetUrl = `${apiBaseUrl}/2/tweets`;
+    this.sandbox = this.configService.get<boolean>('twitter.sandbox') ?? false;
   }
 
-  private validateCredential(credentialPath: string): string {
-    const credential = this.configService.get<string>(credentialPath);
-    if (!credential) {
-      throw new Error(`Missing credential: ${credentialPath}`);
-    }
-    return credential;
+  /** Whether a post must only be planned; always true in sandbox mode. */
+  isDryRun(dryRun?: unknown): boolean {
+    return this.sandbox || dryRunRequested(dryRun);
   }
 
+  /**
+   * Uploads the media and tweets it. Dry runs go through the same downloads
+   * and checks but resolve to an UploadPlan instead. They must be asked for
+   * with `dryRun`: in sandbox mode anything else is refused, so a plan is
+   * never mistaken for a post.
+   */
+  uploadToTwitter(
+    media: string | MediaItem[],
+    options: UploadOptions & { dryRun: true },
+  ): Promise<UploadPlan>;
+  uploadToTwitter(
+    media: string | MediaItem[],
+    options?: UploadOptions,
+  ): Promise<TweetResponse>;
   async uploadToTwitter(
-    filePathOrUrl: string,
-    options: {
-      tweetText?: string;
-      replyToTweetId?: string;
-      mimeType?: string;
-    } = {}
-  ): Promise<{ id: string }> {
+    media: string | MediaItem[],
+    options: UploadOptions = {},
+  ): Promise<TweetResponse | UploadPlan> {
+    const items: MediaItem[] =
+      typeof media === 'string'
+        ? [{ source: media, mimeType: options.mimeType }]
+        : media;
+
+    if (dryRunRequested(options.dryRun) && !options.plan) {
+      options = { ...options, plan: this.newPlan(options.account) };
+    } else if (this.sandbox && !options.plan) {
+      throw new SandboxModeError(
+        'Sandbox mode is on; only dry runs are accepted',
+      );
+    }
+
     // Validate input
-    if (!filePathOrUrl) {
-      throw new Error('File path or URL is required');
+    if (items.length === 0 || items.some((item) => !item.source)) {
+      throw new ValidationError('File path or URL is required');
     }
 
-    const MAX_RETRIES = 3;
-    let retryCount = 0;
-    let finalFilePath = filePathOrUrl; // Declare finalFilePath here
+    // Check the declared media set before downloading anything
+    assertValidMediaSet(items);
+    await assertValidAccessibility(items, options.subtitles);
 
-    while (retryCount < MAX_RETRIES) {
-      try {
-        // If it's a URL, download the file first
-        if (filePathOrUrl.startsWith('http')) {
-          finalFilePath = await this.downloadVideoFromUrl(filePathOrUrl);
-        }
+    const downloadedPaths: string[] = [];
 
-        const result = await this.performUpload(finalFilePath, options);
-        return result;
-      } catch (error) {
-        // More comprehensive retry conditions
-        if (axios.isAxiosError(error)) {
-          const axiosError = error as AxiosError;
-          
-          // Retry conditions expanded to include more network/server errors
-          const retryableStatusCodes = [
-            429,   // Too Many Requests
-            500,   // Internal Server Error
-            502,   // Bad Gateway
-            503,   // Service Unavailable
-            504    // Gateway Timeout
-          ];
-
-          if (retryableStatusCodes.includes(axiosError.response?.status || 0)) {
-            const waitTime = this.calculateBackoffTime(retryCount);
-            
-            this.logger.warn(`Retryable error encountered. Status: ${axiosError.response?.status}. Waiting ${waitTime}ms before retry.`);
-            await this.delay(waitTime);
-            
-            retryCount++;
-            continue;
-          }
-          
-          // Log other axios errors
-          this.logger.error('Axios error during upload', {
-            status: axiosError.response?.status,
-            data: axiosError.response?.data,
-            message: axiosError.message
-          });
-        }
-        
-        // If not a retryable error, rethrow
-        throw error;
-      } finally {
-        // Clean up downloaded file if it was a URL
-        if (filePathOrUrl.startsWith('http')) {
-          try {
-            await fs.promises.unlink(finalFilePath);
-          } catch (cleanupError) {
-            this.logger.warn('Failed to clean up temporary file', cleanupError);
-          }
-        }
+    try {
+      const localItems = await this.resolveLocalMedia(
+        items,
+        options,
+        downloadedPaths,
+      );
+      // Sniffed types can differ from what a URL's extension suggested
+      assertValidMediaSet(localItems);
+      // Failed requests are retried by the TwitterClient, not here
+      return await this.performUpload(localItems, options);
+    } finally {
+      await this.removeDownloads(downloadedPaths);
+    }
+  }
+
+  /**
+   * Downloads remote items and sniffs every file, rejecting content that
+   * does not match its declared type. Returned items carry the sniffed type.
+   */
+  private async resolveLocalMedia(
+    items: MediaItem[],
+    context: UploadContext,
+    downloadedPaths: string[],
+  ): Promise<MediaItem[]> {
+    const localItems: MediaItem[] = [];
+
+    for (const [index, item] of items.entries()) {
+      let localPath = item.source;
+      if (item.source.startsWith('http')) {
+        const media = { index: index + 1, count: items.length };
+        context.onProgress?.({ stage: 'downloading', media });
+        localPath = await this.downloader.download(
+          item.source,
+          context.signal,
+          (bytes, totalBytes) =>
+            context.onProgress?.({
+              stage: 'downloading',
+              bytes,
+              totalBytes,
+              media,
+            }),
+        );
+        downloadedPaths.push(localPath);
       }
+
+      const { mimeType } = await detectMediaType(localPath, item).catch(
+        (error) => {
+          throw error?.code === 'ENOENT'
+            ? new ValidationError(
+                `Media file ${path.basename(localPath)} not found`,
+                'media_not_found',
+                HttpStatus.NOT_FOUND,
+              )
+            : error;
+        },
+      );
+      localItems.push({ ...item, source: localPath, mimeType });
     }
 
-    throw new Error('Max retries exceeded during Twitter upload');
+    return localItems;
   }
 
-  private async performUpload(
-    filePathOrUrl: string,
-    options: {
-      tweetText?: string;
-      replyToTweetId?: string;
-      mimeType?: string;
+  private async removeDownloads(downloadedPaths: string[]): Promise<void> {
+    // Clean up files downloaded from URLs
+    for (const downloadedPath of downloadedPaths) {
+      try {
+        await fs.promises.unlink(downloadedPath);
+      } catch (cleanupError) {
+        this.logger.warn('Failed to clean up temporary file', cleanupError);
+      }
     }
-  ): Promise<{ id: string }> {
-    const { 
-      tweetText = 'Uploaded a new media! 🎥 #MediaUpload', 
-      replyToTweetId 
-    } = options;
+  }
+
+  private async performUpload(
+    items: MediaItem[],
+    options: UploadOptions,
+    reuploaded = false,
+  ): Promise<TweetResponse | UploadPlan> {
+    const { tweetText = DEFAULT_TWEET_TEXT, replyToTweetId } = options;
 
     try {
-      // Determine file type more robustly
-      const isImageUpload = options.mimeType 
-        ? options.mimeType.startsWith('image/') 
-        : this.isImageFile(filePathOrUrl);
-      
-      let mediaId: string;
-      if (isImageUpload) {
-        // Use image upload method
-        mediaId = await this.uploadImage(filePathOrUrl);
-      } else {
-        // Use existing video upload method
-        const uploadResponse = await this.uploadVideo(filePathOrUrl);
-        mediaId = uploadResponse.media_id_string;
-
-        // Wait for video processing
-        await this.waitForMediaProcessing(mediaId);
+      // Checked before any media is sent, not only at POST /2/tweets
+      assertTweetTextFits(tweetText);
+      const { mediaIds } = await this.uploadMediaSet(items, options);
+
+      if (options.subtitles) {
+        await this.attachSubtitles(mediaIds[0], options.subtitles, options);
+      }
+
+      if (options.plan) {
+        options.plan.tweet = this.planTweet(
+          mediaIds,
+          tweetText,
+          replyToTweetId,
+          options.account,
+        );
+        return options.plan;
       }
 
       // Create tweet
-      const tweetResponse = await this.createTweet(mediaId, tweetText, replyToTweetId);
+      options.signal?.throwIfAborted();
+      options.onProgress?.({ stage: 'tweeting', mediaIds });
+      await options.beforeTweet?.(mediaIds);
+      let tweetResponse: TweetResponse;
+      try {
+        tweetResponse = await this.createTweet(
+          mediaIds,
+          tweetText,
+          replyToTweetId,
+          options.account,
+        );
+      } catch (error) {
+        // Twitter dropped a reused media id early: upload the media again, once
+        if (
+          !reuploaded &&
+          error instanceof TweetRejectedError &&
+          /media/i.test(error.message) &&
+          (await this.mediaCache.forget(mediaIds)) > 0
+        ) {
+          this.logger.warn(
+            `Reused media ${mediaIds.join(', ')} was rejected; uploading again`,
+          );
+          return this.performUpload(items, options, true);
+        }
+        throw error;
+      }
 
       return tweetResponse;
     } catch (error) {
@@ -189,178 +295,307 @@ export class TwitterVideoUploaderService {
     }
   }
 
-  // Helper method to determine if file is an image
-  private isImageFile(filePath: string): boolean {
-    const imageExtensions = ['.jpg', '.jpeg', '.png', '.gif', '.bmp', '.webp'];
-    const fileExt = path.extname(filePath).toLowerCase();
-    return imageExtensions.includes(fileExt);
-  }
-
-  async uploadVideo(filePath: string): Promise<any> {
-    try {
-      // Validate file exists
-      if (!fs.existsSync(filePath)) {
-        throw new Error(`File not found: ${filePath}`);
-      }
+  /**
+   * Plans a tweet without sending anything to Twitter. Tweets without media
+   * only get their text measured and their payload built.
+   */
+  async planPost(
+    media: MediaItem[],
+    options: UploadOptions = {},
+  ): Promise<UploadPlan> {
+    if (media.length > 0) {
+      return this.uploadToTwitter(media, { ...options, dryRun: true });
+    }
 
-      const fileData = fs.readFileSync(filePath);
-      const fileSize = fs.statSync(filePath).size;
+    const text = options.tweetText ?? DEFAULT_TWEET_TEXT;
+    assertTweetTextFits(text);
+    const plan = this.newPlan(options.account);
+    plan.tweet = this.planTweet(
+      [],
+      text,
+      options.replyToTweetId,
+      options.account,
+    );
+    return plan;
+  }
 
-      this.logger.log(`Uploading video: ${path.basename(filePath)}, Size: ${fileSize} bytes`);
+  /** The tweet createTweet would send, without sending it. */
+  planTweet(
+    mediaIds: string[],
+    text: string,
+    replyToTweetId?: string,
+    account?: string,
+  ): TweetPlan {
+    const request = this.tweetRequest(mediaIds, text, replyToTweetId, account);
+    const { weightedLength, maxWeightedLength } = measureTweetText(text);
+    return {
+      payload: request.json!,
+      weightedLength,
+      maxWeightedLength,
+      request: this.twitter.sign(request),
+    };
+  }
 
-      // Step 1: Initialize upload
-      const initUrl = 'https://upload.twitter.com/1.1/media/upload.json';
-      const initData = {
-        command: 'INIT',
-        total_bytes: fileSize,
-        media_type: 'video/mp4',
-      };
+  private newPlan(account?: string): UploadPlan {
+    return {
+      dryRun: true,
+      sandbox: this.sandbox,
+      account: account || this.accounts.list().defaultAccount,
+      media: [],
+    };
+  }
 
-      const accessToken = this.validateCredential('twitter.accessToken');
-      const accessTokenSecret = this.validateCredential('twitter.accessTokenSecret');
+  /**
+   * Downloads and checks a media set against the platform limits without
+   * uploading anything. Throws a 422 listing the violated rules.
+   */
+  async validateMedia(
+    items: MediaItem[],
+    context: UploadContext = {},
+  ): Promise<MediaValidationReport[]> {
+    assertValidMediaSet(items);
+    const downloadedPaths: string[] = [];
 
-      const initAuthHeader = this.oauth.toHeader(
-        this.oauth.authorize(
-          { url: initUrl, method: 'POST', data: initData },
-          { key: accessToken, secret: accessTokenSecret }
-        )
+    try {
+      const localItems = await this.resolveLocalMedia(
+        items,
+        context,
+        downloadedPaths,
       );
+      return await this.mediaValidation.assertValid(localItems);
+    } finally {
+      await this.removeDownloads(downloadedPaths);
+    }
+  }
 
-      this.logger.log('Step 1: Initializing upload...');
-      const initResponse = await axios.post(initUrl, initData, {
-        headers: {
-          ...initAuthHeader,
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-      });
+  /**
+   * Uploads every item of a tweet's media set, downloading URLs first, and
+   * returns the media ids in order with the time the first of them expires.
+   * Does not retry and does not tweet. `subtitles` are attached to the
+   * first item by the caller.
+   */
+  async uploadMediaSet(
+    items: MediaItem[],
+    context: UploadContext & Pick<UploadOptions, 'subtitles'> = {},
+  ): Promise<UploadedMediaSet> {
+    assertValidMediaSet(items);
+    const mediaIds: string[] = [];
+    let expiresAt = '';
+    const downloadedPaths: string[] = [];
 
-      const mediaId = initResponse.data.media_id_string;
-      this.logger.log(`Media ID: ${mediaId}`);
-
-      // Step 2: Append video chunks
-      this.logger.log('Step 2: Uploading video chunks...');
-      const chunkSize = 5 * 1024 * 1024; // 5MB chunks
-      let segmentIndex = 0;
-
-      for (let i = 0; i < fileSize; i += chunkSize) {
-        const chunk = fileData.slice(i, i + chunkSize);
-        const appendData = {
-          command: 'APPEND',
-          media_id: mediaId,
-          segment_index: segmentIndex,
-          media: chunk.toString('base64'),
+    try {
+      const localItems = await this.resolveLocalMedia(
+        items,
+        context,
+        downloadedPaths,
+      );
+      // Reject media Twitter would refuse before spending any API calls
+      await this.mediaValidation.assertValid(localItems);
+
+      for (const [index, item] of localItems.entries()) {
+        const itemContext: UploadContext = {
+          ...context,
+          onProgress: (progress) =>
+            context.onProgress?.({
+              ...progress,
+              media: { index: index + 1, count: items.length },
+            }),
         };
 
-        const appendAuthHeader = this.oauth.toHeader(
-          this.oauth.authorize(
-            { url: initUrl, method: 'POST', data: appendData },
-            { key: accessToken, secret: accessTokenSecret }
-          )
-        );
+        try {
+          // Alt text and subtitles go on a media id of this post only
+          const reuse = !item.altText && !(index === 0 && context.subtitles);
+          const uploaded = await this.uploadMedia(
+            item,
+            undefined,
+            itemContext,
+            reuse,
+          );
+          if (item.altText) {
+            await this.createMediaMetadata(
+              uploaded.mediaId,
+              item.altText,
+              itemContext,
+            );
+          }
+          mediaIds.push(uploaded.mediaId);
+          if (!expiresAt || uploaded.expiresAt < expiresAt) {
+            expiresAt = uploaded.expiresAt;
+          }
+        } catch (uploadError) {
+          const error = fromTwitterError(uploadError, 'media');
+          if (mediaIds.length === 0) {
+            throw error;
+          }
 
-        this.logger.log(`Uploading segment ${segmentIndex}`);
-        await axios.post(initUrl, appendData, {
-          headers: {
-            ...appendAuthHeader,
-            'Content-Type': 'application/x-www-form-urlencoded',
-          },
-        });
-        segmentIndex++;
+          this.logger.warn(
+            `Media item ${index + 1}/${items.length} failed; already uploaded media left unattached: ${mediaIds.join(', ')}`,
+          );
+          throw new MediaSetUploadError(
+            `Media item ${index + 1} of ${items.length} failed: ${
+              error instanceof Error ? error.message : 'Unknown error'
+            }`,
+            [...mediaIds],
+            index,
+            error,
+          );
+        }
       }
 
-      // Step 3: Finalize upload
-      this.logger.log('Step 3: Finalizing upload...');
-      const finalizeData = {
-        command: 'FINALIZE',
-        media_id: mediaId,
-      };
+      return { mediaIds, expiresAt };
+    } finally {
+      await this.removeDownloads(downloadedPaths);
+    }
+  }
 
-      const finalizeAuthHeader = this.oauth.toHeader(
-        this.oauth.authorize(
-          { url: initUrl, method: 'POST', data: finalizeData },
-          { key: accessToken, secret: accessTokenSecret }
-        )
-      );
+  /**
+   * Uploads a single local file and waits until it is ready to attach.
+   * Content uploaded for the same account before is not sent again while
+   * Twitter still holds its media id, unless `reuse` is off: media that
+   * gets metadata attached neither takes a cached id, which an earlier
+   * tweet may already carry, nor leaves its own for later posts.
+   */
+  async uploadMedia(
+    item: MediaItem,
+    kind: MediaKind = classifyMedia(item),
+    context: UploadContext = {},
+    reuse = true,
+  ): Promise<UploadedMediaItem> {
+    const hash = await fingerprintFile(item.source);
+    // Dry runs plan the whole upload, even of media uploaded before
+    const cached =
+      context.plan || !reuse
+        ? undefined
+        : await this.mediaCache.find(hash, context.account);
+    if (cached) {
+      return { mediaId: cached.mediaId, expiresAt: cached.expiresAt };
+    }
 
-      const finalizeResponse = await axios.post(initUrl, finalizeData, {
-        headers: {
-          ...finalizeAuthHeader,
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-      });
+    const startedAt = Date.now();
+    // Videos and animated GIFs share the async processing flow
+    const uploadResponse =
+      kind === 'image'
+        ? await this.uploadImage(item.source, context, hash)
+        : await this.uploadVideo(item.source, context, hash);
+    const mediaId = uploadResponse.media_id_string;
+    const reportedAt = Date.now();
+    const expiresAt = new Date(
+      reportedAt + (uploadResponse.expires_after_secs ?? 86400) * 1000,
+    ).toISOString();
+
+    // Wait for processing when Twitter reports it
+    if (uploadResponse.processing_info) {
+      await this.waitForMediaProcessing(mediaId, context);
+    }
+    if (context.plan || !reuse) {
+      return { mediaId, expiresAt };
+    }
+
+    await this.mediaCache.remember({
+      hash,
+      account: context.account,
+      mediaId,
+      bytes: (await fs.promises.stat(item.source)).size,
+      uploadMs: Date.now() - startedAt,
+      expiresAfterSecs: uploadResponse.expires_after_secs,
+      reportedAt,
+    });
+    return { mediaId, expiresAt };
+  }
+
+  // `fingerprint` spares hashing the file again when the caller has done so
+  async uploadVideo(
+    filePath: string,
+    context: UploadContext = {},
+    fingerprint?: string,
+  ): Promise<MediaUploadResponse> {
+    try {
+      const finalizeData = await this.chunkedUpload(
+        filePath,
+        context,
+        undefined,
+        fingerprint,
+      );
 
       this.logger.log('Video upload completed successfully');
-      return finalizeResponse.data;
+      return finalizeData;
     } catch (error) {
       this.logger.error('Video upload failed', error);
       throw error;
     }
   }
 
-  async waitForMediaProcessing(mediaId: string): Promise<void> {
+  async waitForMediaProcessing(
+    mediaId: string,
+    context: UploadContext = {},
+  ): Promise<void> {
     const MAX_ATTEMPTS = 10;
     const MAX_PROCESSING_TIME = 5 * 60 * 1000; // 5 minutes
     const startTime = Date.now();
     let attempts = 0;
 
+    context.onProgress?.({ stage: 'processing' });
+
     while (attempts < MAX_ATTEMPTS) {
-      const mediaStatus = await this.checkMediaStatus(mediaId);
+      context.signal?.throwIfAborted();
+      const mediaStatus = await this.checkMediaStatus(mediaId, context.account);
       this.logger.log('Media Processing Status:', mediaStatus);
+      context.onProgress?.({
+        stage: 'processing',
+        percent: mediaStatus.processing_info?.progress_percent,
+      });
 
       if (mediaStatus.processing_info?.state === 'succeeded') {
         return;
       }
 
+      // Twitter rejected the media; polling again will not change that
+      if (mediaStatus.processing_info?.state === 'failed') {
+        const reason =
+          mediaStatus.processing_info.error?.message ?? 'unknown error';
+        throw new MediaProcessingFailedError(
+          `Media processing failed: ${reason}`,
+          { body: mediaStatus.processing_info },
+        );
+      }
+
       if (Date.now() - startTime > MAX_PROCESSING_TIME) {
-        throw new Error('Media processing exceeded maximum time limit');
+        throw new MediaProcessingTimeoutError(
+          'Media processing exceeded maximum time limit',
+        );
       }
 
       const waitTime = Math.min(
         mediaStatus.processing_info?.check_after_secs || 2,
-        30
+        30,
       );
 
       this.logger.log(
         `Waiting ${waitTime} seconds for video processing (Attempt ${
           attempts + 1
-        }/${MAX_ATTEMPTS})...`
+        }/${MAX_ATTEMPTS})...`,
       );
-      await new Promise((resolve) => setTimeout(resolve, waitTime * 1000));
+      await this.delay(waitTime * 1000, context.signal);
 
       attempts++;
     }
 
-    throw new Error('Media processing failed after maximum attempts');
-  }
-
-  async checkMediaStatus(mediaId: string): Promise<any> {
-    const mediaStatusUrl = 'https://upload.twitter.com/1.1/media/upload.json';
-
-    const requestData = {
-      command: 'STATUS',
-      media_id: mediaId,
-    };
-
-    const accessToken = this.validateCredential('twitter.accessToken');
-    const accessTokenSecret = this.validateCredential('twitter.accessTokenSecret');
-
-    const authHeader = this.oauth.toHeader(
-      this.oauth.authorize(
-        { url: mediaStatusUrl, method: 'GET', data: requestData },
-        { key: accessToken, secret: accessTokenSecret }
-      )
+    throw new MediaProcessingTimeoutError(
+      'Media processing did not finish after maximum attempts',
     );
+  }
 
+  async checkMediaStatus(
+    mediaId: string,
+    account?: string,
+  ): Promise<MediaUploadResponse> {
     try {
-      const response = await axios.get(mediaStatusUrl, {
-        params: requestData,
-        headers: {
-          ...authHeader,
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
+      return await this.twitter.request<MediaUploadResponse>({
+        method: 'GET',
+        url: this.uploadUrl,
+        account,
+        params: { command: 'STATUS', media_id: mediaId },
       });
-
-      return response.data;
     } catch (error) {
       this.logger.error('Error checking media status', error);
       throw error;
@@ -368,216 +603,535 @@ export class TwitterVideoUploaderService {
   }
 
   async createTweet(
-    mediaId: string,
-    text: string = 'Uploaded a new video!',
+    mediaIds: string | string[],
+    text: string = DEFAULT_TWEET_TEXT,
     replyToTweetId?: string,
-  ): Promise<any> {
-    const tweetUrl = 'https://api.twitter.com/2/tweets';
+    account?: string,
+  ): Promise<TweetResponse> {
+    try {
+      const tweet = await this.twitter.request<TweetResponse>(
+        this.tweetRequest(mediaIds, text, replyToTweetId, account),
+      );
 
-    const accessToken = this.validateCredential('twitter.accessToken');
-    const accessTokenSecret = this.validateCredential('twitter.accessTokenSecret');
+      this.logger.log('Tweet created successfully');
+      return tweet;
+    } catch (error) {
+      this.logger.error('Detailed Tweet Error', error);
+      throw fromTwitterError(error, 'tweet');
+    }
+  }
 
-    const requestData = {
-      url: tweetUrl,
-      method: 'POST',
+  // The POST /2/tweets request of createTweet and planTweet
+  private tweetRequest(
+    mediaIds: string | string[],
+    text: string,
+    replyToTweetId?: string,
+    account?: string,
+  ): TwitterRequest {
+    const tweetPayload: any = {
+      text: text,
     };
 
-    const authHeader = this.oauth.toHeader(
-      this.oauth.authorize(requestData, {
-        key: accessToken,
-        secret: accessTokenSecret,
-      })
-    );
+    // Text-only tweets (e.g. inside a thread) carry no media
+    const mediaIdList = Array.isArray(mediaIds) ? mediaIds : [mediaIds];
+    if (mediaIdList.length > 0) {
+      tweetPayload.media = {
+        media_ids: mediaIdList,
+      };
+    }
 
-    try {
-      const tweetPayload: any = {
-        text: text,
-        media: {
-          media_ids: [mediaId],
-        },
+    // Add reply only if replyToTweetId is provided
+    if (replyToTweetId) {
+      tweetPayload.reply = {
+        in_reply_to_tweet_id: replyToTweetId,
       };
+    }
 
-      // Add reply only if replyToTweetId is provided
-      if (replyToTweetId) {
-        tweetPayload.reply = {
-          in_reply_to_tweet_id: replyToTweetId,
-        };
-      }
+    // A retried POST could tweet twice, so only rate limits are retried
+    return {
+      method: 'POST',
+      url: this.tweetUrl,
+      account,
+      json: tweetPayload,
+      idempotent: false,
+    };
+  }
 
-      const response = await axios.post(
-        tweetUrl,
-        tweetPayload,
-        {
-          headers: {
-            ...authHeader,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
+  async deleteTweet(tweetId: string, account?: string): Promise<boolean> {
+    try {
+      // Signed like createTweet; deleting twice is harmless, so retries are fine
+      const response = await this.twitter.request({
+        method: 'DELETE',
+        url: `${this.tweetUrl}/${encodeURIComponent(tweetId)}`,
+        account,
+      });
 
-      this.logger.log('Tweet created successfully');
-      return response.data;
+      this.logger.log(`Tweet ${tweetId} deleted`);
+      return response?.data?.deleted === true;
     } catch (error) {
-      this.logger.error('Detailed Tweet Error', error);
-      throw error;
+      this.logger.error('Error deleting tweet', error);
+      throw fromTwitterError(error, 'tweet');
     }
   }
 
-  private async downloadVideoFromUrl(videoUrl: string): Promise<string> {
+  // Returns the FINALIZE response, like uploadVideo
+  async uploadImage(
+    filePath: string,
+    context: UploadContext = {},
+    fingerprint?: string,
+  ): Promise<MediaUploadResponse> {
     try {
-      // Create uploads directory if it doesn't exist
-      const uploadsDir = path.join(process.cwd(), 'uploads');
-      await fs.promises.mkdir(uploadsDir, { recursive: true });
-
-      // Generate unique filename
-      const fileName = `video-${Date.now()}.mp4`;
-      const localFilePath = path.join(uploadsDir, fileName);
-
-      // Download video
-      const response = await axios<NodeJS.ReadableStream>({
-        method: 'get',
-        url: videoUrl,
-        responseType: 'stream',
-      });
+      const finalizeData = await this.chunkedUpload(
+        filePath,
+        context,
+        undefined,
+        fingerprint,
+      );
+      return finalizeData;
+    } catch (error) {
+      this.logger.error('Image upload failed', error);
+      throw error;
+    }
+  }
 
-      // Strict type check for stream
-      if (!response.data || typeof response.data.pipe !== 'function') {
-        throw new Error('Invalid response stream');
-      }
+  /**
+   * Runs INIT/APPEND/FINALIZE for a local file. Progress is saved per
+   * acknowledged segment, so an upload of the same file to the same account
+   * that was cut off picks up where it stopped while Twitter still holds
+   * the media session.
+   */
+  private async chunkedUpload(
+    filePath: string,
+    context: UploadContext,
+    format?: { mediaType: string; mediaCategory: MediaCategory },
+    // SHA-256 of the file content, if already known
+    knownFingerprint?: string,
+  ): Promise<MediaUploadResponse> {
+    // Validate file exists
+    if (!fs.existsSync(filePath)) {
+      throw new ValidationError(
+        `File not found: ${path.basename(filePath)}`,
+        'media_not_found',
+        HttpStatus.NOT_FOUND,
+      );
+    }
 
-      // Save video to local file
-      const writer = fs.createWriteStream(localFilePath);
-      response.data.pipe(writer);
+    // INIT needs the real format, whatever the file is called
+    let mediaType = format?.mediaType;
+    let mediaCategory = format?.mediaCategory;
+    if (!mediaType || !mediaCategory) {
+      const detected = await detectMediaType(filePath);
+      mediaType = detected.mimeType;
+      mediaCategory = mediaCategoryFor(detected.kind);
+    }
 
-      return new Promise((resolve, reject) => {
-        writer.on('finish', () => resolve(localFilePath));
-        writer.on('error', reject);
-      });
-    } catch (error) {
-      this.logger.error('Failed to download video', error);
-      throw new Error(
-        `Video download failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    const fileSize = (await fs.promises.stat(filePath)).size;
+    if (context.plan) {
+      return this.planChunkedUpload(
+        filePath,
+        mediaType,
+        mediaCategory,
+        fileSize,
+        context,
       );
     }
+    this.logger.log(
+      `Uploading ${mediaType}: ${path.basename(filePath)}, Size: ${fileSize} bytes`,
+    );
+
+    const { accessToken } = this.accounts.resolve(context.account);
+
+    const fingerprint = knownFingerprint ?? (await fingerprintFile(filePath));
+    const sessionId = crypto
+      .createHash('sha256')
+      .update(`${accessToken}:${mediaType}:${fingerprint}`)
+      .digest('hex');
+
+    // Concurrent uploads of the same file would share the media session:
+    // the next one waits, then does its own INIT once the session is done
+    return this.locks.run(sessionId, () =>
+      this.uploadInSession(
+        sessionId,
+        fingerprint,
+        filePath,
+        mediaType,
+        mediaCategory,
+        fileSize,
+        context,
+      ),
+    );
   }
 
-  // Add a new method for image uploads
-  async uploadImage(filePath: string): Promise<string> {
-    try {
-      // Validate file exists
-      if (!fs.existsSync(filePath)) {
-        throw new Error(`File not found: ${filePath}`);
-      }
+  private async uploadInSession(
+    sessionId: string,
+    fingerprint: string,
+    filePath: string,
+    mediaType: string,
+    mediaCategory: MediaCategory,
+    fileSize: number,
+    context: UploadContext,
+  ): Promise<MediaUploadResponse> {
+    let session = await this.findResumableSession(sessionId, fileSize);
+    let restarted = false;
+
+    for (;;) {
+      try {
+        if (!session) {
+          session = await this.initUpload(
+            sessionId,
+            fingerprint,
+            mediaType,
+            mediaCategory,
+            fileSize,
+            context,
+          );
+        } else {
+          this.logger.log(
+            `Resuming media ${session.mediaId} after ${session.acknowledgedSegments.length} segment(s)`,
+          );
+        }
 
-      const fileData = fs.readFileSync(filePath);
-      const fileSize = fs.statSync(filePath).size;
+        await this.appendChunks(this.uploadUrl, session, filePath, context);
 
-      this.logger.log(`Uploading image: ${path.basename(filePath)}, Size: ${fileSize} bytes`);
+        const finalizeData = await this.postUploadCommand(
+          { command: 'FINALIZE', media_id: session.mediaId },
+          context,
+          'finalize',
+        );
 
-      const initUrl = 'https://upload.twitter.com/1.1/media/upload.json';
-      const accessToken = this.validateCredential('twitter.accessToken');
-      const accessTokenSecret = this.validateCredential('twitter.accessTokenSecret');
+        await this.uploadSessions.delete(session.id);
+        return finalizeData;
+      } catch (error) {
+        context.signal?.throwIfAborted();
+
+        // Twitter dropped the media session: start over with a fresh INIT
+        if (session && !restarted && this.isMediaSessionGone(error)) {
+          this.logger.warn(
+            `Media ${session.mediaId} is no longer known to Twitter; restarting upload`,
+          );
+          await this.uploadSessions.delete(session.id);
+          session = undefined;
+          restarted = true;
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Records the INIT, APPEND and FINALIZE requests chunkedUpload would send
+   * for the file, and answers like FINALIZE with a placeholder media id.
+   */
+  private planChunkedUpload(
+    filePath: string,
+    mediaType: string,
+    mediaCategory: MediaCategory,
+    fileSize: number,
+    context: UploadContext,
+  ): MediaUploadResponse {
+    const plan = context.plan!;
+    const mediaId = plannedMediaId(plan.media.length);
+    const upload: TwitterRequest = {
+      method: 'POST',
+      url: this.uploadUrl,
+      account: context.account,
+    };
+    const segments = Array.from(
+      { length: Math.max(1, Math.ceil(fileSize / this.chunkSize)) },
+      (_, index) => ({
+        index,
+        offset: index * this.chunkSize,
+        bytes: Math.min(this.chunkSize, fileSize - index * this.chunkSize),
+      }),
+    );
 
-      // Initialize image upload
-      const initData = {
+    plan.media.push({
+      mediaId,
+      fileName: path.basename(filePath),
+      mediaType,
+      mediaCategory,
+      totalBytes: fileSize,
+      chunkSize: this.chunkSize,
+      segments,
+      requests: [
+        this.twitter.sign({
+          ...upload,
+          form: {
+            command: 'INIT',
+            total_bytes: fileSize,
+            media_type: mediaType,
+            media_category: mediaCategory,
+          },
+        }),
+        ...segments.map((segment) => ({
+          ...this.twitter.sign(upload),
+          multipart: {
+            command: 'APPEND',
+            media_id: mediaId,
+            segment_index: String(segment.index),
+            media: `<${segment.bytes} bytes>`,
+          },
+        })),
+        this.twitter.sign({
+          ...upload,
+          form: { command: 'FINALIZE', media_id: mediaId },
+        }),
+      ],
+    });
+    return { media_id_string: mediaId };
+  }
+
+  private async initUpload(
+    sessionId: string,
+    fingerprint: string,
+    mediaType: string,
+    mediaCategory: MediaCategory,
+    fileSize: number,
+    context: UploadContext,
+  ): Promise<UploadSession> {
+    const initData = await this.postUploadCommand(
+      {
         command: 'INIT',
         total_bytes: fileSize,
-        media_type: 'image/jpeg', // Default to JPEG, adjust based on actual file type if needed
-      };
+        media_type: mediaType,
+        media_category: mediaCategory,
+      },
+      context,
+      'init',
+    );
 
-      const initAuthHeader = this.oauth.toHeader(
-        this.oauth.authorize(
-          { url: initUrl, method: 'POST', data: initData },
-          { key: accessToken, secret: accessTokenSecret }
-        )
-      );
+    const now = Date.now();
+    const session: UploadSession = {
+      id: sessionId,
+      fingerprint,
+      mediaId: initData.media_id_string,
+      mediaType,
+      totalBytes: fileSize,
+      chunkSize: this.chunkSize,
+      acknowledgedSegments: [],
+      expiresAt: new Date(
+        now + (initData.expires_after_secs ?? 86400) * 1000,
+      ).toISOString(),
+      createdAt: new Date(now).toISOString(),
+      updatedAt: new Date(now).toISOString(),
+    };
+    await this.uploadSessions.save(session);
 
-      const initResponse = await axios.post(initUrl, initData, {
-        headers: {
-          ...initAuthHeader,
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-      });
+    this.logger.log(`Media ID: ${session.mediaId}`);
+    return session;
+  }
 
-      const mediaId = initResponse.data.media_id_string;
+  // Returns a saved session that can still be continued, dropping stale ones
+  private async findResumableSession(
+    sessionId: string,
+    fileSize: number,
+  ): Promise<UploadSession | undefined> {
+    const session = await this.uploadSessions.get(sessionId);
+    if (!session) {
+      return undefined;
+    }
 
-      // Append image data
-      const appendData = {
-        command: 'APPEND',
-        media_id: mediaId,
-        segment_index: 0,
-        media: fileData.toString('base64'),
-      };
+    // Leave enough time to send the remaining segments and FINALIZE
+    const usable =
+      session.totalBytes === fileSize &&
+      session.chunkSize === this.chunkSize &&
+      Date.parse(session.expiresAt) - Date.now() > SESSION_EXPIRY_MARGIN_MS;
 
-      const appendAuthHeader = this.oauth.toHeader(
-        this.oauth.authorize(
-          { url: initUrl, method: 'POST', data: appendData },
-          { key: accessToken, secret: accessTokenSecret }
-        )
-      );
+    if (!usable) {
+      await this.uploadSessions.delete(sessionId);
+      return undefined;
+    }
+    return session;
+  }
 
-      await axios.post(initUrl, appendData, {
-        headers: {
-          ...appendAuthHeader,
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-      });
+  private isMediaSessionGone(error: unknown): boolean {
+    if (!axios.isAxiosError(error) || !error.response) {
+      return false;
+    }
 
-      // Finalize image upload
-      const finalizeData = {
-        command: 'FINALIZE',
-        media_id: mediaId,
-      };
+    const { status, data } = error.response;
+    if (status === 404) {
+      return true;
+    }
+    return (
+      status === 400 &&
+      /media[ _]id|expired|not found/i.test(JSON.stringify(data ?? ''))
+    );
+  }
 
-      const finalizeAuthHeader = this.oauth.toHeader(
-        this.oauth.authorize(
-          { url: initUrl, method: 'POST', data: finalizeData },
-          { key: accessToken, secret: accessTokenSecret }
-        )
-      );
+  // Sends a form-encoded INIT or FINALIZE command
+  private async postUploadCommand(
+    data: Record<string, string | number>,
+    context: UploadContext,
+    stage: 'init' | 'finalize',
+  ): Promise<MediaUploadResponse> {
+    context.signal?.throwIfAborted();
+    context.onProgress?.({ stage });
 
-      await axios.post(initUrl, finalizeData, {
-        headers: {
-          ...finalizeAuthHeader,
-          'Content-Type': 'application/x-www-form-urlencoded',
-        },
-      });
+    return this.twitter.request<MediaUploadResponse>({
+      method: 'POST',
+      url: this.uploadUrl,
+      account: context.account,
+      form: data,
+      signal: context.signal,
+    });
+  }
 
-      return mediaId;
-    } catch (error) {
-      this.logger.error('Image upload failed', error);
-      throw error;
-    }
+  // Sets the alt text of an uploaded image, GIF or video
+  private async createMediaMetadata(
+    mediaId: string,
+    altText: string,
+    context: UploadContext,
+  ): Promise<void> {
+    context.signal?.throwIfAborted();
+    context.onProgress?.({ stage: 'metadata' });
+    await this.postUploadJson(
+      this.metadataUrl,
+      { media_id: mediaId, alt_text: { text: altText } },
+      context,
+    );
   }
 
-  // Exponential backoff with jitter
-  private calculateBackoffTime(retryCount: number): number {
-    const baseDelay = 1000; // 1 second
-    const maxDelay = 60000; // 1 minute
-    
-    // Ensure retryCount doesn't go beyond reasonable limits
-    const safeRetryCount = Math.min(retryCount, 5);
-    
-    // Exponential backoff with jitter
-    const delay = Math.min(
-      maxDelay, 
-      baseDelay * Math.pow(2, safeRetryCount)
+  /**
+   * Uploads an SRT file in the `subtitles` category and binds it to the
+   * video, which must not have been tweeted yet.
+   */
+  private async attachSubtitles(
+    videoMediaId: string,
+    subtitles: SubtitleTrack,
+    context: UploadContext,
+  ): Promise<void> {
+    const finalizeData = await this.chunkedUpload(subtitles.source, context, {
+      mediaType: 'text/srt',
+      mediaCategory: 'subtitles',
+    });
+
+    context.signal?.throwIfAborted();
+    context.onProgress?.({ stage: 'metadata' });
+    await this.postUploadJson(
+      this.subtitlesUrl,
+      {
+        media_id: videoMediaId,
+        media_category: 'TweetVideo',
+        subtitle_info: {
+          subtitles: [
+            {
+              media_id: finalizeData.media_id_string,
+              language_code: subtitles.languageCode.toUpperCase(),
+              display_name:
+                subtitles.displayName ?? subtitles.languageCode.toUpperCase(),
+            },
+          ],
+        },
+      },
+      context,
     );
+    this.logger.log(`Subtitles bound to media ${videoMediaId}`);
+  }
 
-    // Add some randomness to prevent thundering herd problem
-    const jitter = Math.random() * 0.5 * delay;
-    return delay + jitter;
+  private async postUploadJson(
+    url: string,
+    body: object,
+    context: UploadContext,
+  ): Promise<void> {
+    const request: TwitterRequest = {
+      method: 'POST',
+      url,
+      account: context.account,
+      json: body,
+      signal: context.signal,
+    };
+    // Alt text and subtitles belong to the media planned last
+    if (context.plan) {
+      const { media } = context.plan;
+      media[media.length - 1].requests.push(this.twitter.sign(request));
+      return;
+    }
+    await this.twitter.request(request);
   }
 
-  // Utility method to create a delay with error handling
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => {
-      try {
-        setTimeout(resolve, ms);
-      } catch (error) {
-        this.logger.error('Error in delay method', error);
-        resolve();
+  /**
+   * Sends the file to APPEND as multipart binary chunks read straight from
+   * disk. At most `maxChunksInFlight` chunks are buffered at any time.
+   * Segments already acknowledged in the session are skipped.
+   */
+  private async appendChunks(
+    uploadUrl: string,
+    session: UploadSession,
+    filePath: string,
+    context: UploadContext,
+  ): Promise<void> {
+    const fileSize = session.totalBytes;
+    const totalSegments = Math.max(1, Math.ceil(fileSize / this.chunkSize));
+    const acknowledged = new Set(session.acknowledgedSegments);
+    const pendingSegments = Array.from(
+      { length: totalSegments },
+      (_, index) => index,
+    ).filter((index) => !acknowledged.has(index));
+    const fileHandle = await fs.promises.open(filePath, 'r');
+    let completedSegments = acknowledged.size;
+    let failed = false;
+
+    const sendSegments = async () => {
+      while (!failed && pendingSegments.length > 0) {
+        const segmentIndex = pendingSegments.shift()!;
+        const offset = segmentIndex * this.chunkSize;
+        const chunk = Buffer.alloc(Math.min(this.chunkSize, fileSize - offset));
+        await fileHandle.read(chunk, 0, chunk.length, offset);
+
+        this.logger.log(`Uploading segment ${segmentIndex}`);
+        const form = new FormData();
+        form.append('command', 'APPEND');
+        form.append('media_id', session.mediaId);
+        form.append('segment_index', String(segmentIndex));
+        form.append('media', new Blob([chunk]));
+        await this.twitter.request({
+          method: 'POST',
+          url: uploadUrl,
+          account: context.account,
+          multipart: form,
+          signal: context.signal,
+        });
+
+        session.acknowledgedSegments.push(segmentIndex);
+        session.updatedAt = new Date().toISOString();
+        await this.uploadSessions.save(session);
+
+        completedSegments++;
+        context.onProgress?.({
+          stage: 'append',
+          current: completedSegments,
+          total: totalSegments,
+        });
       }
-    });
+    };
+
+    try {
+      const workers = Math.min(this.maxChunksInFlight, pendingSegments.length);
+      const results = await Promise.allSettled(
+        Array.from({ length: workers }, () =>
+          sendSegments().catch((error) => {
+            failed = true;
+            throw error;
+          }),
+        ),
+      );
+
+      const rejection = results.find(
+        (result): result is PromiseRejectedResult =>
+          result.status === 'rejected',
+      );
+      if (rejection) {
+        throw rejection.reason;
+      }
+    } finally {
+      await fileHandle.close();
+    }
+  }
+
+  // Kept as a method so tests can skip the waits
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return delay(ms, signal);
   }
 }
@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import { MediaKind } from '../media/media-set';
+import { DetectedMediaType } from '../media/media-type';
+import { probeMp4 } from './mp4-probe';
+
+export interface MediaProbe {
+  mimeType: string;
+  kind: MediaKind;
+  sizeBytes: number;
+  width?: number;
+  height?: number;
+  durationSecs?: number;
+  frameRate?: number;
+  videoCodec?: string;
+  audioCodec?: string;
+  bitrate?: number;
+}
+
+const JPEG_FRAME_MARKERS = [
+  0xc0, 0xc1, 0xc2, 0xc3, 0xc5, 0xc6, 0xc7, 0xc9, 0xca, 0xcb, 0xcd, 0xce, 0xcf,
+];
+
+async function readAt(
+  fileHandle: fs.promises.FileHandle,
+  offset: number,
+  length: number,
+): Promise<Buffer> {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await fileHandle.read(buffer, 0, length, offset);
+  return buffer.subarray(0, bytesRead);
+}
+
+// Walks JPEG segments up to the first start-of-frame marker
+async function jpegDimensions(fileHandle: fs.promises.FileHandle) {
+  let offset = 2;
+  for (;;) {
+    const segment = await readAt(fileHandle, offset, 9);
+    if (segment.length < 4 || segment[0] !== 0xff) return undefined;
+
+    if (JPEG_FRAME_MARKERS.includes(segment[1]) && segment.length === 9) {
+      return {
+        height: segment.readUInt16BE(5),
+        width: segment.readUInt16BE(7),
+      };
+    }
+    offset += 2 + segment.readUInt16BE(2);
+  }
+}
+
+async function imageDimensions(
+  filePath: string,
+  mimeType: string,
+): Promise<{ width: number; height: number } | undefined> {
+  const fileHandle = await fs.promises.open(filePath, 'r');
+  try {
+    const header = await readAt(fileHandle, 0, 30);
+    switch (mimeType) {
+      case 'image/png':
+        return {
+          width: header.readUInt32BE(16),
+          height: header.readUInt32BE(20),
+        };
+      case 'image/gif':
+        return {
+          width: header.readUInt16LE(6),
+          height: header.readUInt16LE(8),
+        };
+      case 'image/jpeg':
+        return await jpegDimensions(fileHandle);
+      case 'image/webp':
+        return webpDimensions(header);
+      default:
+        return undefined;
+    }
+  } catch {
+    // Truncated headers are reported as unreadable dimensions
+    return undefined;
+  } finally {
+    await fileHandle.close();
+  }
+}
+
+function webpDimensions(header: Buffer) {
+  const chunk = header.toString('latin1', 12, 16);
+  if (chunk === 'VP8 ') {
+    return {
+      width: header.readUInt16LE(26) & 0x3fff,
+      height: header.readUInt16LE(28) & 0x3fff,
+    };
+  }
+  if (chunk === 'VP8L') {
+    const bits = header.readUInt32LE(21);
+    return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+  }
+  if (chunk === 'VP8X') {
+    return {
+      width: header.readUIntLE(24, 3) + 1,
+      height: header.readUIntLE(27, 3) + 1,
+    };
+  }
+  return undefined;
+}
+
+/** Reads the properties the platform limits apply to from a local file. */
+export async function probeMedia(
+  filePath: string,
+  detected: DetectedMediaType,
+): Promise<MediaProbe> {
+  const { size } = await fs.promises.stat(filePath);
+  const probe: MediaProbe = {
+    mimeType: detected.mimeType,
+    kind: detected.kind,
+    sizeBytes: size,
+  };
+
+  if (detected.kind !== 'video') {
+    return {
+      ...probe,
+      ...(await imageDimensions(filePath, detected.mimeType)),
+    };
+  }
+
+  const info = await probeMp4(filePath);
+  return {
+    ...probe,
+    ...info,
+    bitrate: info.durationSecs
+      ? Math.round((size * 8) / info.durationSecs)
+      : undefined,
+  };
+}
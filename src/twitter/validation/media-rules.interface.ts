@@ -0,0 +1,35 @@
+export interface ImageRules {
+  maxBytes: number;
+  minWidth: number;
+  minHeight: number;
+  maxWidth: number;
+  maxHeight: number;
+}
+
+export interface VideoRules extends ImageRules {
+  minDurationSecs: number;
+  maxDurationSecs: number;
+  maxFrameRate: number;
+  // Bits per second over the whole file
+  maxBitrate: number;
+  // width / height
+  minAspectRatio: number;
+  maxAspectRatio: number;
+  // Sample entry fourccs, e.g. avc1 (H.264) and mp4a (AAC)
+  videoCodecs: string[];
+  audioCodecs: string[];
+}
+
+export interface MediaRules {
+  image: ImageRules;
+  gif: ImageRules;
+  video: VideoRules;
+}
+
+export interface MediaRuleViolation {
+  // Name of the rule, e.g. maxDurationSecs
+  rule: string;
+  message: string;
+  limit?: number | string[];
+  actual?: number | string;
+}
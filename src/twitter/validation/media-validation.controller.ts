@@ -0,0 +1,65 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpException,
+  HttpStatus,
+  Post,
+  UploadedFiles,
+  UseInterceptors,
+} from '@nestjs/common';
+import { FileFieldsInterceptor } from '@nestjs/platform-express';
+import { RequireScope } from '../auth/require-scope.decorator';
+import { MediaDownloaderService } from '../downloads/media-downloader.service';
+import { DiscardUploadsInterceptor } from '../media/discard-uploads.interceptor';
+import { MAX_IMAGES_PER_TWEET } from '../media/media-set';
+import {
+  MulterFile,
+  parseUrlList,
+  prepareMediaSet,
+} from '../media/uploaded-file';
+import { TwitterVideoUploaderService } from '../twitter-video-uploader.service';
+import { MediaValidationReport } from './media-validation.exception';
+
+@Controller('twitter/validate')
+@RequireScope('upload')
+export class MediaValidationController {
+  constructor(
+    private readonly twitterService: TwitterVideoUploaderService,
+    private readonly downloader: MediaDownloaderService,
+  ) {}
+
+  // Same media fields as /twitter/upload; answers 422 with the violations
+  @Post()
+  @HttpCode(HttpStatus.OK)
+  @UseInterceptors(
+    FileFieldsInterceptor([
+      { name: 'file', maxCount: 1 },
+      { name: 'files', maxCount: MAX_IMAGES_PER_TWEET },
+    ]),
+    DiscardUploadsInterceptor,
+  )
+  async validate(
+    @Body('videoUrl') videoUrl?: string,
+    @Body('mediaUrls') mediaUrls?: string | string[],
+    @UploadedFiles()
+    uploaded: { file?: MulterFile[]; files?: MulterFile[] } = {},
+  ): Promise<{ valid: true; media: MediaValidationReport[] }> {
+    const files = [...(uploaded.file ?? []), ...(uploaded.files ?? [])];
+    const urls = [...(videoUrl ? [videoUrl] : []), ...parseUrlList(mediaUrls)];
+
+    if (urls.length === 0 && files.length === 0) {
+      throw new HttpException(
+        'Either a media URL or a file must be provided',
+        HttpStatus.BAD_REQUEST,
+      );
+    }
+
+    await this.downloader.assertAllowedUrls(urls);
+    const media = await prepareMediaSet(files, urls);
+    const reports = await this.twitterService.validateMedia(
+      media.map(({ source, mimeType }) => ({ source, mimeType })),
+    );
+    return { valid: true, media: reports };
+  }
+}
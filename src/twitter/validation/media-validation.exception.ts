@@ -0,0 +1,24 @@
+import { UnprocessableEntityException } from '@nestjs/common';
+import { MediaProbe } from './media-probe';
+import { MediaRuleViolation } from './media-rules.interface';
+
+export interface MediaValidationReport {
+  // Position of the item in the tweet's media set
+  index: number;
+  valid: boolean;
+  probe: MediaProbe;
+  violations: MediaRuleViolation[];
+}
+
+/** 422 listing every rule the media set breaks, per item. */
+export class MediaValidationException extends UnprocessableEntityException {
+  constructor(readonly reports: MediaValidationReport[]) {
+    super({
+      statusCode: 422,
+      error: 'Unprocessable Entity',
+      code: 'media_validation_failed',
+      message: 'Media does not meet the platform limits',
+      media: reports.filter((report) => !report.valid),
+    });
+  }
+}
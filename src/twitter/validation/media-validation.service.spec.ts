@@ -0,0 +1,96 @@
+import { ConfigService } from '@nestjs/config';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import twitterConfig from '../../config/twitter.config';
+import { buildMp4, buildPng } from '../../../test/fake-twitter/media-fixtures';
+import { MediaValidationException } from './media-validation.exception';
+import { MediaValidationService } from './media-validation.service';
+
+describe('MediaValidationService', () => {
+  const service = new MediaValidationService(
+    new ConfigService({ twitter: twitterConfig() }),
+  );
+  let dir: string;
+
+  const write = async (name: string, content: Buffer) => {
+    const filePath = path.join(dir, name);
+    await fs.promises.writeFile(filePath, content);
+    return { source: filePath };
+  };
+
+  beforeAll(async () => {
+    dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'validation-'));
+  });
+
+  afterAll(() => fs.promises.rm(dir, { recursive: true, force: true }));
+
+  it('reads the properties of an MP4 and accepts it', async () => {
+    const item = await write(
+      'ok.mp4',
+      buildMp4(10, [
+        {
+          handler: 'vide',
+          codec: 'avc1',
+          width: 1280,
+          height: 720,
+          frames: 300,
+        },
+        { handler: 'soun', codec: 'mp4a' },
+      ]),
+    );
+
+    const [report] = await service.assertValid([item]);
+
+    expect(report.valid).toBe(true);
+    expect(report.probe).toMatchObject({
+      kind: 'video',
+      durationSecs: 10,
+      width: 1280,
+      height: 720,
+      frameRate: 30,
+      videoCodec: 'avc1',
+      audioCodec: 'mp4a',
+    });
+  });
+
+  it('lists every violated video rule', async () => {
+    const item = await write(
+      'bad.mp4',
+      buildMp4(200, [
+        {
+          handler: 'vide',
+          codec: 'hvc1',
+          width: 3840,
+          height: 400,
+          frames: 24000,
+        },
+        { handler: 'soun', codec: 'ac-3' },
+      ]),
+    );
+
+    const [report] = await service.validate([item]);
+
+    expect(report.violations.map((violation) => violation.rule)).toEqual([
+      'maxWidth',
+      'maxDurationSecs',
+      'maxFrameRate',
+      'maxAspectRatio',
+      'videoCodecs',
+      'audioCodecs',
+    ]);
+  });
+
+  it('checks image dimensions from the header', async () => {
+    const item = await write('wide.png', buildPng(10000, 2));
+
+    const error = await service.assertValid([item]).catch((e) => e);
+
+    expect(error).toBeInstanceOf(MediaValidationException);
+    expect(error.getStatus()).toBe(422);
+    expect(error.getResponse().media[0].violations).toEqual([
+      expect.objectContaining({ rule: 'minHeight', actual: 2, limit: 4 }),
+      expect.objectContaining({ rule: 'maxWidth', actual: 10000, limit: 8192 }),
+    ]);
+  });
+});
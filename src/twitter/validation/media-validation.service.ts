@@ -0,0 +1,162 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MediaItem } from '../interfaces/media-item.interface';
+import { detectMediaType } from '../media/media-type';
+import { MediaProbe, probeMedia } from './media-probe';
+import {
+  MediaRules,
+  MediaRuleViolation,
+  VideoRules,
+} from './media-rules.interface';
+import {
+  MediaValidationException,
+  MediaValidationReport,
+} from './media-validation.exception';
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+@Injectable()
+export class MediaValidationService {
+  private readonly rules: MediaRules;
+
+  constructor(configService: ConfigService) {
+    this.rules = configService.getOrThrow<MediaRules>(
+      'twitter.validation.rules',
+    );
+  }
+
+  /** Probes local files and checks each against the rules for its kind. */
+  async validate(items: MediaItem[]): Promise<MediaValidationReport[]> {
+    const reports: MediaValidationReport[] = [];
+
+    for (const [index, item] of items.entries()) {
+      const detected = await detectMediaType(item.source, item);
+      const probe = await probeMedia(item.source, detected);
+      const violations = this.check(probe);
+      reports.push({
+        index,
+        valid: violations.length === 0,
+        probe,
+        violations,
+      });
+    }
+
+    return reports;
+  }
+
+  // Returns the reports, or throws a 422 if any item breaks a rule
+  async assertValid(items: MediaItem[]): Promise<MediaValidationReport[]> {
+    const reports = await this.validate(items);
+    if (reports.some((report) => !report.valid)) {
+      throw new MediaValidationException(reports);
+    }
+    return reports;
+  }
+
+  check(probe: MediaProbe): MediaRuleViolation[] {
+    const rules = this.rules[probe.kind];
+    const violations: MediaRuleViolation[] = [];
+
+    const atMost = (
+      rule: string,
+      label: string,
+      actual: number,
+      limit: number,
+    ) => {
+      if (actual > limit) {
+        violations.push({
+          rule,
+          limit,
+          actual: round(actual),
+          message: `${label} ${round(actual)} is above the maximum of ${round(limit)}`,
+        });
+      }
+    };
+    const atLeast = (
+      rule: string,
+      label: string,
+      actual: number,
+      limit: number,
+    ) => {
+      if (actual < limit) {
+        violations.push({
+          rule,
+          limit,
+          actual: round(actual),
+          message: `${label} ${round(actual)} is below the minimum of ${round(limit)}`,
+        });
+      }
+    };
+    const unreadable = (rule: string, label: string) =>
+      violations.push({ rule, message: `Could not read the ${label}` });
+
+    atMost('maxBytes', 'File size (bytes)', probe.sizeBytes, rules.maxBytes);
+
+    if (probe.width === undefined || probe.height === undefined) {
+      unreadable('dimensions', 'dimensions');
+    } else {
+      atLeast('minWidth', 'Width', probe.width, rules.minWidth);
+      atLeast('minHeight', 'Height', probe.height, rules.minHeight);
+      atMost('maxWidth', 'Width', probe.width, rules.maxWidth);
+      atMost('maxHeight', 'Height', probe.height, rules.maxHeight);
+    }
+
+    if (probe.kind !== 'video') {
+      return violations;
+    }
+    const video = rules as VideoRules;
+
+    if (probe.durationSecs === undefined) {
+      unreadable('duration', 'duration');
+    } else {
+      const label = 'Duration (s)';
+      atLeast(
+        'minDurationSecs',
+        label,
+        probe.durationSecs,
+        video.minDurationSecs,
+      );
+      atMost(
+        'maxDurationSecs',
+        label,
+        probe.durationSecs,
+        video.maxDurationSecs,
+      );
+    }
+
+    if (probe.frameRate !== undefined) {
+      atMost('maxFrameRate', 'Frame rate', probe.frameRate, video.maxFrameRate);
+    }
+    if (probe.bitrate !== undefined) {
+      atMost('maxBitrate', 'Bitrate (bit/s)', probe.bitrate, video.maxBitrate);
+    }
+    if (probe.width && probe.height) {
+      const ratio = probe.width / probe.height;
+      atLeast('minAspectRatio', 'Aspect ratio', ratio, video.minAspectRatio);
+      atMost('maxAspectRatio', 'Aspect ratio', ratio, video.maxAspectRatio);
+    }
+
+    if (!probe.videoCodec) {
+      unreadable('videoCodecs', 'video codec');
+    } else if (!video.videoCodecs.includes(probe.videoCodec)) {
+      violations.push({
+        rule: 'videoCodecs',
+        limit: video.videoCodecs,
+        actual: probe.videoCodec,
+        message: `Video codec ${probe.videoCodec} is not one of ${video.videoCodecs.join(', ')}`,
+      });
+    }
+
+    // Silent videos are fine; unsupported audio is not
+    if (probe.audioCodec && !video.audioCodecs.includes(probe.audioCodec)) {
+      violations.push({
+        rule: 'audioCodecs',
+        limit: video.audioCodecs,
+        actual: probe.audioCodec,
+        message: `Audio codec ${probe.audioCodec} is not one of ${video.audioCodecs.join(', ')}`,
+      });
+    }
+
+    return violations;
+  }
+}
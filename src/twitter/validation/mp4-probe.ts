@@ -0,0 +1,167 @@
+import * as fs from 'fs';
+
+export interface Mp4Info {
+  durationSecs?: number;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  videoCodec?: string;
+  audioCodec?: string;
+}
+
+interface Box {
+  type: string;
+  // Offsets of the box content, after its header
+  start: number;
+  end: number;
+}
+
+// The movie header box is small; anything larger is not worth parsing
+const MAX_MOOV_BYTES = 64 * 1024 * 1024;
+
+function* readBoxes(buffer: Buffer, start = 0, end = buffer.length) {
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    let headerSize = 8;
+
+    if (size === 1) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) {
+      return;
+    }
+
+    yield { type, start: offset + headerSize, end: offset + size } as Box;
+    offset += size;
+  }
+}
+
+function findBox(buffer: Buffer, parent: Box, type: string): Box | undefined {
+  for (const box of readBoxes(buffer, parent.start, parent.end)) {
+    if (box.type === type) return box;
+  }
+  return undefined;
+}
+
+function findPath(buffer: Buffer, parent: Box, types: string[]) {
+  let box: Box | undefined = parent;
+  for (const type of types) {
+    box = box && findBox(buffer, box, type);
+  }
+  return box;
+}
+
+// Returns [timescale, duration] of an mvhd or mdhd box
+function readTimes(buffer: Buffer, box: Box): [number, number] {
+  const version = buffer[box.start];
+  return version === 1
+    ? [
+        buffer.readUInt32BE(box.start + 20),
+        Number(buffer.readBigUInt64BE(box.start + 24)),
+      ]
+    : [
+        buffer.readUInt32BE(box.start + 12),
+        buffer.readUInt32BE(box.start + 16),
+      ];
+}
+
+// Locates the top-level moov box without reading the media data
+async function readMoov(filePath: string): Promise<Buffer | undefined> {
+  const fileHandle = await fs.promises.open(filePath, 'r');
+  try {
+    const { size: fileSize } = await fileHandle.stat();
+    const header = Buffer.alloc(16);
+    let offset = 0;
+
+    while (offset + 8 <= fileSize) {
+      await fileHandle.read(header, 0, 16, offset);
+      let size = header.readUInt32BE(0);
+      const type = header.toString('latin1', 4, 8);
+      if (size === 1) size = Number(header.readBigUInt64BE(8));
+      if (size === 0) size = fileSize - offset;
+      if (size < 8) return undefined;
+
+      if (type === 'moov') {
+        if (size > MAX_MOOV_BYTES) return undefined;
+        const moov = Buffer.alloc(size);
+        await fileHandle.read(moov, 0, size, offset);
+        return moov;
+      }
+      offset += size;
+    }
+    return undefined;
+  } finally {
+    await fileHandle.close();
+  }
+}
+
+/** Reads duration, dimensions, frame rate and codecs from an MP4/MOV file. */
+export async function probeMp4(filePath: string): Promise<Mp4Info> {
+  const buffer = await readMoov(filePath);
+  if (!buffer) {
+    return {};
+  }
+
+  try {
+    return parseMoov(buffer);
+  } catch {
+    // Malformed boxes: every property counts as unreadable
+    return {};
+  }
+}
+
+function parseMoov(buffer: Buffer): Mp4Info {
+  const info: Mp4Info = {};
+  const [moov] = readBoxes(buffer);
+  const mvhd = findBox(buffer, moov, 'mvhd');
+  if (mvhd) {
+    const [timescale, duration] = readTimes(buffer, mvhd);
+    if (timescale > 0) info.durationSecs = duration / timescale;
+  }
+
+  for (const trak of readBoxes(buffer, moov.start, moov.end)) {
+    if (trak.type !== 'trak') continue;
+
+    const hdlr = findPath(buffer, trak, ['mdia', 'hdlr']);
+    const stsd = findPath(buffer, trak, ['mdia', 'minf', 'stbl', 'stsd']);
+    if (!hdlr || !stsd || stsd.end - stsd.start < 16) continue;
+
+    const handler = buffer.toString('latin1', hdlr.start + 8, hdlr.start + 12);
+    // First sample entry: size (4) then its format fourcc
+    const codec = buffer.toString('latin1', stsd.start + 12, stsd.start + 16);
+
+    if (handler === 'soun' && !info.audioCodec) {
+      info.audioCodec = codec;
+    }
+    if (handler !== 'vide' || info.videoCodec) continue;
+    info.videoCodec = codec;
+
+    // Track header ends with width and height as 16.16 fixed point
+    const tkhd = findBox(buffer, trak, 'tkhd');
+    if (tkhd) {
+      info.width = Math.round(buffer.readUInt32BE(tkhd.end - 8) / 65536);
+      info.height = Math.round(buffer.readUInt32BE(tkhd.end - 4) / 65536);
+    }
+
+    const mdhd = findPath(buffer, trak, ['mdia', 'mdhd']);
+    const stts = findPath(buffer, trak, ['mdia', 'minf', 'stbl', 'stts']);
+    if (mdhd && stts) {
+      const [timescale, duration] = readTimes(buffer, mdhd);
+      const entries = buffer.readUInt32BE(stts.start + 4);
+      let samples = 0;
+      for (let i = 0; i < entries; i++) {
+        samples += buffer.readUInt32BE(stts.start + 8 + i * 8);
+      }
+      if (timescale > 0 && duration > 0) {
+        info.frameRate = samples / (duration / timescale);
+      }
+    }
+  }
+
+  return info;
+}
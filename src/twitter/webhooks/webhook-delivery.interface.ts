@@ -0,0 +1,32 @@
+import { WebhookEvent } from '../../config/twitter.config';
+import { PostAttempt } from '../history/post-attempt.interface';
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'dead';
+
+// The JSON body sent; the same on every attempt and redelivery
+export interface WebhookPayload {
+  // The delivery id, for receivers to drop duplicates
+  id: string;
+  event: WebhookEvent;
+  createdAt: string;
+  data: PostAttempt;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  event: WebhookEvent;
+  url: string;
+  // Name of the configured subscription; absent for a request's callbackUrl
+  subscription?: string;
+  payload: WebhookPayload;
+  // Dead deliveries stay until redelivered
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  nextAttemptAt?: string;
+  // HTTP status or error of the last failed attempt
+  lastStatusCode?: number;
+  lastError?: string;
+  deliveredAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -0,0 +1,7 @@
+export const WEBHOOK_DELIVERY_STORE = 'WEBHOOK_DELIVERY_STORE';
+
+export const WEBHOOK_ID_HEADER = 'X-Webhook-Id';
+export const WEBHOOK_EVENT_HEADER = 'X-Webhook-Event';
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+// `sha256=<hex HMAC of "<timestamp>.<body>">`
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Webhook-Signature';
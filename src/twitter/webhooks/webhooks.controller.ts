@@ -0,0 +1,46 @@
+import {
+  BadRequestException,
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { RequireScope } from '../auth/require-scope.decorator';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from './webhook-delivery.interface';
+import { WebhooksService } from './webhooks.service';
+
+const STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivered', 'dead'];
+
+@Controller('twitter/webhooks')
+@RequireScope('admin')
+export class WebhooksController {
+  constructor(private readonly webhooks: WebhooksService) {}
+
+  // ?status=dead lists the dead letters
+  @Get('deliveries')
+  list(@Query('status') status?: string): Promise<WebhookDelivery[]> {
+    if (status && !STATUSES.includes(status as WebhookDeliveryStatus)) {
+      throw new BadRequestException(
+        `status must be one of ${STATUSES.join(', ')}`,
+      );
+    }
+    return this.webhooks.list(status as WebhookDeliveryStatus | undefined);
+  }
+
+  @Get('deliveries/:deliveryId')
+  get(@Param('deliveryId') deliveryId: string): Promise<WebhookDelivery> {
+    return this.webhooks.get(deliveryId);
+  }
+
+  @Post(':deliveryId/redeliver')
+  @HttpCode(HttpStatus.OK)
+  redeliver(@Param('deliveryId') deliveryId: string): Promise<WebhookDelivery> {
+    return this.webhooks.redeliver(deliveryId);
+  }
+}
@@ -0,0 +1,242 @@
+import { ConflictException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { PostAttempt } from '../history/post-attempt.interface';
+import { InMemoryRecordStore } from '../storage/memory-record.store';
+import { WebhookDelivery } from './webhook-delivery.interface';
+import {
+  signWebhook,
+  webhookEventOf,
+  WebhooksService,
+} from './webhooks.service';
+
+interface Received {
+  path: string;
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+describe('WebhooksService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: Received[];
+  // Status codes answered in turn; 200 once used up
+  let statuses: number[];
+  let store: InMemoryRecordStore<WebhookDelivery>;
+  let service: WebhooksService;
+
+  const attempt: PostAttempt = {
+    id: 'attempt-1',
+    kind: 'upload',
+    sourceId: 'job-1',
+    account: 'brand-a',
+    sources: ['clip.mp4'],
+    mediaIds: ['m1'],
+    tweetId: 't1',
+    status: 'posted',
+    timings: { init: 5 },
+    startedAt: '2026-03-01T12:00:00.000Z',
+    finishedAt: '2026-03-01T12:00:01.000Z',
+    durationMs: 1000,
+  };
+
+  const createService = (webhooks: Record<string, unknown>) => {
+    service = new WebhooksService(
+      new ConfigService({
+        twitter: {
+          webhooks: {
+            secret: 'shared-secret',
+            maxAttempts: 2,
+            retryBaseMs: 10,
+            allowPrivateAddresses: true,
+            ...webhooks,
+          },
+        },
+      }),
+      store,
+    );
+  };
+
+  // Deliveries are sent in the background
+  const settled = async (count: number) => {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const deliveries = await store.list();
+      if (
+        deliveries.length >= count &&
+        deliveries.every((delivery) => delivery.status !== 'pending')
+      ) {
+        return deliveries;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error('Webhook deliveries did not settle');
+  };
+
+  beforeEach(async () => {
+    received = [];
+    statuses = [];
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', (chunk) => (body += chunk));
+      request.on('end', () => {
+        received.push({ path: request.url!, headers: request.headers, body });
+        response.statusCode = statuses.shift() ?? 200;
+        response.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    store = new InMemoryRecordStore<WebhookDelivery>();
+  });
+
+  afterEach(async () => {
+    service.onModuleDestroy();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('sends signed payloads to the callback and matching subscriptions', async () => {
+    createService({
+      subscriptions: {
+        cms: { url: `${baseUrl}/cms`, secret: 'cms-secret' },
+        failures: { url: `${baseUrl}/failures`, events: ['post.failed'] },
+        other: { url: `${baseUrl}/other`, accounts: ['brand-b'] },
+      },
+    });
+
+    await service.notify(attempt, `${baseUrl}/callback`);
+    await settled(2);
+
+    expect(received.map((request) => request.path).sort()).toEqual([
+      '/callback',
+      '/cms',
+    ]);
+    for (const request of received) {
+      const secret = request.path === '/cms' ? 'cms-secret' : 'shared-secret';
+      const timestamp = request.headers['x-webhook-timestamp'] as string;
+      expect(request.headers['x-webhook-signature']).toBe(
+        `sha256=${signWebhook(secret, timestamp, request.body)}`,
+      );
+      expect(JSON.parse(request.body)).toMatchObject({
+        id: request.headers['x-webhook-id'],
+        event: 'post.succeeded',
+        data: { tweetId: 't1', mediaIds: ['m1'], timings: { init: 5 } },
+      });
+    }
+  });
+
+  it('retries failed deliveries and keeps them as dead letters', async () => {
+    createService({});
+    statuses = [500, 503];
+
+    await service.notify(attempt, `${baseUrl}/callback`);
+    const [dead] = await settled(1);
+    expect(dead).toMatchObject({
+      status: 'dead',
+      attempts: 2,
+      lastStatusCode: 503,
+    });
+    expect(await service.list('dead')).toHaveLength(1);
+
+    const redelivered = await service.redeliver(dead.id);
+    expect(redelivered).toMatchObject({ status: 'delivered', attempts: 1 });
+    // The same payload each time, so receivers can drop duplicates
+    expect(new Set(received.map((request) => request.body)).size).toBe(1);
+  });
+
+  it('refuses a redelivery until a failed attempt has armed its retry', async () => {
+    createService({});
+    statuses = [500];
+    const save = store.save.bind(store);
+    let redelivered: Promise<unknown> | undefined;
+    jest.spyOn(store, 'save').mockImplementation(async (delivery) => {
+      if (delivery.lastStatusCode === 500 && !redelivered) {
+        redelivered = service.redeliver(delivery.id).catch((error) => error);
+        await redelivered;
+      }
+      return save(delivery);
+    });
+
+    await service.notify(attempt, `${baseUrl}/callback`);
+    const [delivered] = await settled(1);
+
+    await expect(redelivered).resolves.toBeInstanceOf(ConflictException);
+    expect(delivered).toMatchObject({ status: 'delivered', attempts: 2 });
+    // The first attempt and its one retry
+    expect(received).toHaveLength(2);
+  });
+
+  it('refuses a second redelivery while the first is saving', async () => {
+    createService({});
+    await store.save({
+      id: 'dead-1',
+      event: 'post.succeeded',
+      url: `${baseUrl}/callback`,
+      payload: {
+        id: 'dead-1',
+        event: 'post.succeeded',
+        createdAt: attempt.startedAt,
+        data: attempt,
+      },
+      status: 'dead',
+      attempts: 2,
+      createdAt: attempt.startedAt,
+      updatedAt: attempt.finishedAt,
+    });
+
+    const first = service.redeliver('dead-1');
+    const second = service.redeliver('dead-1').catch((error) => error);
+
+    await expect(first).resolves.toMatchObject({ status: 'delivered' });
+    await expect(second).resolves.toBeInstanceOf(ConflictException);
+    expect(received).toHaveLength(1);
+  });
+
+  it('checks callback URLs before anything is queued', async () => {
+    // Public literal addresses resolve without a DNS server
+    createService({ allowPrivateAddresses: false });
+
+    await expect(service.assertCallbackUrl(undefined)).resolves.toBeUndefined();
+    await expect(
+      service.assertCallbackUrl('https://93.184.216.34/hook'),
+    ).resolves.toBe('https://93.184.216.34/hook');
+    await expect(
+      service.assertCallbackUrl('ftp://cms.example.com'),
+    ).rejects.toMatchObject({ code: 'invalid_callback_url' });
+    await expect(
+      service.assertCallbackUrl('http://169.254.169.254/'),
+    ).rejects.toMatchObject({ code: 'invalid_callback_url', status: 403 });
+
+    createService({ secret: undefined });
+    await expect(
+      service.assertCallbackUrl('https://cms.example.com/hook'),
+    ).rejects.toMatchObject({ code: 'webhooks_not_configured' });
+  });
+
+  it('refuses callback hosts that resolve to private addresses', async () => {
+    createService({ allowPrivateAddresses: false });
+    const url = `${baseUrl.replace('127.0.0.1', 'localhost')}/hook`;
+
+    await expect(service.assertCallbackUrl(url)).rejects.toMatchObject({
+      code: 'invalid_callback_url',
+      status: 403,
+    });
+
+    // Checked again when sent, in case the host now resolves elsewhere
+    await service.notify(attempt, url);
+    const [delivery] = await settled(1);
+    expect(delivery.lastError).toContain('not allowed');
+    expect(received).toHaveLength(0);
+  });
+
+  it('reports failures that left media behind as needing attention', () => {
+    expect(webhookEventOf(attempt)).toBe('post.succeeded');
+    expect(webhookEventOf({ ...attempt, status: 'failed' })).toBe(
+      'post.needs_attention',
+    );
+    expect(webhookEventOf({ ...attempt, status: 'failed', mediaIds: [] })).toBe(
+      'post.failed',
+    );
+    expect(webhookEventOf({ ...attempt, status: 'cancelled' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,431 @@
+import {
+  ConflictException,
+  HttpStatus,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import axios, { AxiosInstance } from 'axios';
+import * as crypto from 'crypto';
+import * as dns from 'dns';
+import {
+  WebhookEvent,
+  WebhookSubscriptionConfig,
+} from '../../config/twitter.config';
+import { isPrivateAddress } from '../downloads/address-policy';
+import { ValidationError } from '../errors/uploader-errors';
+import { PostAttempt } from '../history/post-attempt.interface';
+import { RecordStore } from '../storage/record-store';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from './webhook-delivery.interface';
+import {
+  WEBHOOK_DELIVERY_STORE,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_ID_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from './webhooks.constants';
+
+// Retry delays double up to this
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// Delivered records are dropped on startup once this old
+const DELIVERED_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Hex HMAC-SHA256 of `<timestamp>.<body>`, as sent in X-Webhook-Signature. */
+export function signWebhook(
+  secret: string,
+  timestamp: string,
+  body: string,
+): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${body}`)
+    .digest('hex');
+}
+
+/**
+ * The event reported for a finished post attempt. A failure that left
+ * media on Twitter without a tweet needs attention: the media ids can
+ * still be tweeted until they expire. Cancelled attempts are not reported.
+ */
+export function webhookEventOf(attempt: PostAttempt): WebhookEvent | undefined {
+  switch (attempt.status) {
+    case 'posted':
+      return 'post.succeeded';
+    case 'failed':
+      return attempt.mediaIds.length > 0
+        ? 'post.needs_attention'
+        : 'post.failed';
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Tells a request's callbackUrl and the configured subscriptions how post
+ * attempts ended. Deliveries are signed with an HMAC, retried with
+ * exponential backoff and kept as dead letters once out of attempts.
+ */
+@Injectable()
+export class WebhooksService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(WebhooksService.name);
+  private readonly http: AxiosInstance;
+  private readonly secret?: string;
+  private readonly subscriptions: Record<string, WebhookSubscriptionConfig>;
+  private readonly maxAttempts: number;
+  private readonly retryBaseMs: number;
+  private readonly allowPrivateAddresses: boolean;
+  private readonly timers = new Map<string, NodeJS.Timeout>();
+  private readonly inFlight = new Set<string>();
+
+  constructor(
+    configService: ConfigService,
+    @Inject(WEBHOOK_DELIVERY_STORE)
+    private readonly store: RecordStore<WebhookDelivery>,
+  ) {
+    this.secret = configService.get<string>('twitter.webhooks.secret');
+    this.subscriptions =
+      configService.get<Record<string, WebhookSubscriptionConfig>>(
+        'twitter.webhooks.subscriptions',
+      ) ?? {};
+    for (const [name, subscription] of Object.entries(this.subscriptions)) {
+      if (!subscription.secret && !this.secret) {
+        throw new Error(
+          `Missing credential: twitter.webhooks.secret for webhook subscription ${name}`,
+        );
+      }
+    }
+
+    this.http = axios.create({
+      timeout: configService.get<number>('twitter.webhooks.timeoutMs') ?? 10000,
+      // A redirect could lead anywhere, including internal addresses
+      maxRedirects: 0,
+      validateStatus: () => true,
+    });
+    this.maxAttempts = Math.max(
+      1,
+      configService.get<number>('twitter.webhooks.maxAttempts') ?? 6,
+    );
+    this.retryBaseMs =
+      configService.get<number>('twitter.webhooks.retryBaseMs') ?? 30000;
+    this.allowPrivateAddresses =
+      configService.get<boolean>('twitter.webhooks.allowPrivateAddresses') ??
+      false;
+  }
+
+  async onModuleInit(): Promise<void> {
+    // Retries that were waiting when the process stopped are scheduled again
+    const cutoff = Date.now() - DELIVERED_RETENTION_MS;
+    for (const delivery of await this.store.list()) {
+      if (delivery.status === 'pending') {
+        this.schedule(delivery);
+      } else if (
+        delivery.status === 'delivered' &&
+        Date.parse(delivery.deliveredAt!) < cutoff
+      ) {
+        await this.store.delete(delivery.id);
+      }
+    }
+  }
+
+  onModuleDestroy(): void {
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+  }
+
+  /**
+   * Checks the callbackUrl of a request before anything is queued, and
+   * returns it unless empty. Host names must resolve to public addresses
+   * only; they are resolved and checked again on each delivery.
+   */
+  async assertCallbackUrl(
+    value: string | undefined,
+  ): Promise<string | undefined> {
+    if (!value) {
+      return undefined;
+    }
+    if (!this.secret) {
+      throw new ValidationError(
+        'callbackUrl needs WEBHOOK_SECRET to be configured',
+        'webhooks_not_configured',
+      );
+    }
+
+    let url: URL;
+    try {
+      url = new URL(value);
+    } catch {
+      throw new ValidationError(
+        `Invalid callbackUrl ${value}`,
+        'invalid_callback_url',
+      );
+    }
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') {
+      throw new ValidationError(
+        'callbackUrl must be an http or https URL',
+        'invalid_callback_url',
+      );
+    }
+
+    await this.resolvePublicAddresses(url.hostname.toLowerCase());
+    return value;
+  }
+
+  /**
+   * Queues the deliveries of a finished post attempt and sends them in
+   * the background; the post never waits for receivers.
+   */
+  async notify(attempt: PostAttempt, callbackUrl?: string): Promise<void> {
+    const event = webhookEventOf(attempt);
+    if (!event) {
+      return;
+    }
+
+    const targets: { url: string; subscription?: string }[] = [];
+    if (callbackUrl) {
+      targets.push({ url: callbackUrl });
+    }
+    for (const [name, subscription] of Object.entries(this.subscriptions)) {
+      if (
+        (!subscription.events || subscription.events.includes(event)) &&
+        (!subscription.accounts ||
+          subscription.accounts.includes(attempt.account))
+      ) {
+        targets.push({ url: subscription.url, subscription: name });
+      }
+    }
+
+    for (const { url, subscription } of targets) {
+      const id = crypto.randomUUID();
+      const now = new Date().toISOString();
+      const delivery: WebhookDelivery = {
+        id,
+        event,
+        url,
+        subscription,
+        payload: { id, event, createdAt: now, data: attempt },
+        status: 'pending',
+        attempts: 0,
+        createdAt: now,
+        updatedAt: now,
+      };
+      await this.store.save(delivery);
+      void this.deliver(delivery);
+    }
+  }
+
+  // Newest first
+  async list(status?: WebhookDeliveryStatus): Promise<WebhookDelivery[]> {
+    return (await this.store.list())
+      .filter((delivery) => !status || delivery.status === status)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async get(id: string): Promise<WebhookDelivery> {
+    const delivery = await this.store.get(id);
+    if (!delivery) {
+      throw new NotFoundException(`Webhook delivery ${id} not found`);
+    }
+    return delivery;
+  }
+
+  /**
+   * Sends a delivery again right away, whatever its status, with a fresh
+   * set of attempts. Resolves once the first of them is done.
+   */
+  async redeliver(id: string): Promise<WebhookDelivery> {
+    const delivery = await this.get(id);
+    if (this.inFlight.has(id)) {
+      throw new ConflictException(`Webhook delivery ${id} is being sent`);
+    }
+    // Claimed before anything is awaited, so a second redelivery is refused
+    this.inFlight.add(id);
+
+    clearTimeout(this.timers.get(id));
+    this.timers.delete(id);
+    try {
+      await this.update(delivery, {
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: undefined,
+      });
+    } catch (error) {
+      this.inFlight.delete(id);
+      throw error;
+    }
+    await this.deliver(delivery);
+    return delivery;
+  }
+
+  private schedule(delivery: WebhookDelivery): void {
+    const delay = Math.max(
+      0,
+      Date.parse(delivery.nextAttemptAt ?? delivery.updatedAt) - Date.now(),
+    );
+    const timer = setTimeout(() => {
+      this.timers.delete(delivery.id);
+      void this.deliver(delivery);
+    }, delay);
+    timer.unref();
+    this.timers.set(delivery.id, timer);
+  }
+
+  // Never rejects: failures are recorded on the delivery
+  private async deliver(delivery: WebhookDelivery): Promise<void> {
+    this.inFlight.add(delivery.id);
+    try {
+      let statusCode: number | undefined;
+      let error: string | undefined;
+      try {
+        statusCode = await this.send(delivery);
+      } catch (sendError) {
+        // Axios wraps errors thrown by the lookup hook
+        const cause = axios.isAxiosError(sendError)
+          ? sendError.cause
+          : sendError;
+        error = cause instanceof Error ? cause.message : 'Delivery failed';
+      }
+
+      if (statusCode !== undefined && statusCode >= 200 && statusCode < 300) {
+        try {
+          await this.update(delivery, {
+            status: 'delivered',
+            attempts: delivery.attempts + 1,
+            nextAttemptAt: undefined,
+            deliveredAt: new Date().toISOString(),
+          });
+        } catch (storeError) {
+          this.logger.error(
+            `Failed to record webhook delivery ${delivery.id}`,
+            storeError,
+          );
+        }
+        return;
+      }
+      await this.recordFailure(
+        delivery,
+        error ?? `Receiver answered ${statusCode}`,
+        statusCode,
+      );
+    } finally {
+      // Only once the outcome is saved and a retry armed, so a redelivery
+      // cannot race this attempt's retry
+      this.inFlight.delete(delivery.id);
+    }
+  }
+
+  // Resolves to the status code the receiver answered
+  private async send(delivery: WebhookDelivery): Promise<number> {
+    const secret = delivery.subscription
+      ? (this.subscriptions[delivery.subscription]?.secret ?? this.secret)
+      : this.secret;
+    if (!secret) {
+      throw new Error('No webhook secret is configured');
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const response = await this.http.post(delivery.url, body, {
+      // Subscriptions come from the configuration; callbacks from clients,
+      // whose hosts may resolve elsewhere than when they were checked
+      lookup: delivery.subscription
+        ? undefined
+        : async (hostname: string) => [
+            await this.resolvePublicAddresses(hostname),
+          ],
+      headers: {
+        'Content-Type': 'application/json',
+        [WEBHOOK_ID_HEADER]: delivery.id,
+        [WEBHOOK_EVENT_HEADER]: delivery.event,
+        [WEBHOOK_TIMESTAMP_HEADER]: timestamp,
+        [WEBHOOK_SIGNATURE_HEADER]: `sha256=${signWebhook(secret, timestamp, body)}`,
+      },
+    });
+    return response.status;
+  }
+
+  private async resolvePublicAddresses(
+    hostname: string,
+  ): Promise<dns.LookupAddress[]> {
+    const bare = hostname.replace(/^\[|\]$/g, '');
+    let addresses: dns.LookupAddress[];
+    try {
+      addresses = await dns.promises.lookup(bare, { all: true });
+    } catch {
+      throw new ValidationError(
+        `Could not resolve callbackUrl host ${bare}`,
+        'invalid_callback_url',
+      );
+    }
+
+    for (const { address } of addresses) {
+      this.assertPublicAddress(address, bare);
+    }
+    return addresses;
+  }
+
+  private assertPublicAddress(address: string, hostname: string): void {
+    if (!this.allowPrivateAddresses && isPrivateAddress(address)) {
+      throw new ValidationError(
+        `callbackUrl host ${hostname} is not allowed`,
+        'invalid_callback_url',
+        HttpStatus.FORBIDDEN,
+      );
+    }
+  }
+
+  private async recordFailure(
+    delivery: WebhookDelivery,
+    error: string,
+    statusCode?: number,
+  ): Promise<void> {
+    const attempts = delivery.attempts + 1;
+    const dead = attempts >= this.maxAttempts;
+    const delay = Math.min(
+      MAX_RETRY_DELAY_MS,
+      this.retryBaseMs * Math.pow(2, attempts - 1),
+    );
+
+    try {
+      await this.update(delivery, {
+        status: dead ? 'dead' : 'pending',
+        attempts,
+        lastError: error,
+        lastStatusCode: statusCode,
+        nextAttemptAt: dead
+          ? undefined
+          : new Date(Date.now() + delay).toISOString(),
+      });
+    } catch (storeError) {
+      this.logger.error(
+        `Failed to record webhook delivery ${delivery.id}`,
+        storeError,
+      );
+      return;
+    }
+
+    if (dead) {
+      this.logger.warn(
+        `Webhook delivery ${delivery.id} to ${delivery.url} failed ${attempts} time(s) and was given up: ${error}`,
+      );
+    } else {
+      this.schedule(delivery);
+    }
+  }
+
+  private async update(
+    delivery: WebhookDelivery,
+    changes: Partial<WebhookDelivery>,
+  ): Promise<void> {
+    Object.assign(delivery, changes, { updatedAt: new Date().toISOString() });
+    await this.store.save(delivery);
+  }
+}
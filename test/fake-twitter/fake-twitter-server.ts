@@ -0,0 +1,526 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as OAuth from 'oauth-1.0a';
+
+/**
+ * In-process stand-in for the Twitter upload and v2 APIs. Implements the
+ * chunked media upload (INIT/APPEND/FINALIZE/STATUS), media metadata and
+ * subtitles, and tweet creation and deletion; every request must carry a valid OAuth
+ * 1.0a signature. Tests script failures with `failNext` and processing
+ * behaviour with `processing`.
+ */
+
+export type FakeEndpoint =
+  | 'INIT'
+  | 'APPEND'
+  | 'FINALIZE'
+  | 'STATUS'
+  | 'METADATA'
+  | 'SUBTITLES'
+  | 'TWEET'
+  | 'DELETE_TWEET';
+
+export interface ScriptedResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+export interface ProcessingScript {
+  // STATUS calls answered with in_progress before the outcome
+  checks: number;
+  checkAfterSecs: number;
+  outcome: 'succeeded' | 'failed';
+}
+
+export interface FakeMedia {
+  id: string;
+  totalBytes: number;
+  mediaType: string;
+  mediaCategory?: string;
+  segments: Map<number, Buffer>;
+  finalized: boolean;
+  statusChecks: number;
+  altText?: string;
+  subtitles?: { mediaId: string; languageCode: string; displayName: string }[];
+}
+
+export interface FakeTweet {
+  id: string;
+  text: string;
+  mediaIds: string[];
+  replyToTweetId?: string;
+  // Access token the tweet was posted with
+  account: string;
+  deleted?: boolean;
+}
+
+export interface FakeRequest {
+  endpoint: FakeEndpoint;
+  mediaId?: string;
+  segmentIndex?: number;
+  status: number;
+}
+
+export const FAKE_CREDENTIALS = {
+  consumerKey: 'fake-consumer-key',
+  consumerSecret: 'fake-consumer-secret',
+  accessToken: 'fake-access-token',
+  accessTokenSecret: 'fake-access-token-secret',
+};
+
+const AUTH_ERROR = {
+  errors: [{ code: 32, message: 'Could not authenticate you.' }],
+};
+
+export class FakeTwitterServer {
+  readonly media = new Map<string, FakeMedia>();
+  readonly tweets: FakeTweet[] = [];
+  readonly requests: FakeRequest[] = [];
+  processing: ProcessingScript = {
+    checks: 1,
+    checkAfterSecs: 1,
+    outcome: 'succeeded',
+  };
+  url = '';
+
+  private readonly server = http.createServer((req, res) => {
+    void this.handle(req, res);
+  });
+  private readonly oauth = new OAuth({
+    consumer: {
+      key: FAKE_CREDENTIALS.consumerKey,
+      secret: FAKE_CREDENTIALS.consumerSecret,
+    },
+    signature_method: 'HMAC-SHA1',
+    hash_function: (baseString, key) =>
+      crypto.createHmac('sha1', key).update(baseString).digest('base64'),
+  });
+  private readonly tokens = new Map([
+    [FAKE_CREDENTIALS.accessToken, FAKE_CREDENTIALS.accessTokenSecret],
+  ]);
+  private faults: {
+    endpoint: FakeEndpoint;
+    remaining: number;
+    response: ScriptedResponse;
+  }[] = [];
+  private nextId = 1_000_000;
+
+  async start(): Promise<string> {
+    await new Promise<void>((resolve) =>
+      this.server.listen(0, '127.0.0.1', resolve),
+    );
+    const { port } = this.server.address() as AddressInfo;
+    this.url = `http://127.0.0.1:${port}`;
+    return this.url;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  // Accepts another account's access token
+  addAccount(accessToken: string, accessTokenSecret: string): void {
+    this.tokens.set(accessToken, accessTokenSecret);
+  }
+
+  /** Answers the next `times` calls to `endpoint` with `response`. */
+  failNext(
+    endpoint: FakeEndpoint,
+    response: ScriptedResponse,
+    times = 1,
+  ): void {
+    this.faults.push({ endpoint, remaining: times, response });
+  }
+
+  reset(): void {
+    this.media.clear();
+    this.tweets.length = 0;
+    this.requests.length = 0;
+    this.faults = [];
+    this.processing = { checks: 1, checkAfterSecs: 1, outcome: 'succeeded' };
+  }
+
+  // Reassembles the uploaded segments of a media item
+  uploadedBytes(mediaId: string): Buffer {
+    const media = this.media.get(mediaId);
+    if (!media) {
+      throw new Error(`Unknown media ${mediaId}`);
+    }
+    return Buffer.concat(
+      [...media.segments.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([, segment]) => segment),
+    );
+  }
+
+  calls(endpoint: FakeEndpoint): FakeRequest[] {
+    return this.requests.filter((request) => request.endpoint === endpoint);
+  }
+
+  private async handle(
+    req: http.IncomingMessage,
+    res: http.ServerResponse,
+  ): Promise<void> {
+    const url = new URL(req.url ?? '/', this.url);
+    const body = await readBody(req);
+    const contentType = req.headers['content-type'] ?? '';
+
+    const params: Record<string, string> = Object.fromEntries(url.searchParams);
+    let form: Record<string, Buffer> = {};
+    let json: any;
+
+    if (contentType.startsWith('application/x-www-form-urlencoded')) {
+      Object.assign(
+        params,
+        Object.fromEntries(new URLSearchParams(body.toString())),
+      );
+    } else if (contentType.startsWith('multipart/form-data')) {
+      form = parseMultipart(
+        body,
+        /boundary=(.+)$/.exec(contentType)?.[1] ?? '',
+      );
+    } else if (contentType.startsWith('application/json') && body.length) {
+      json = JSON.parse(body.toString());
+    }
+
+    const endpoint = this.endpointOf(
+      req.method ?? 'GET',
+      url.pathname,
+      params,
+      form,
+    );
+    const record: FakeRequest = {
+      endpoint: endpoint ?? ('UNKNOWN' as FakeEndpoint),
+      mediaId: params.media_id ?? form.media_id?.toString() ?? json?.media_id,
+      segmentIndex: form.segment_index
+        ? parseInt(form.segment_index.toString(), 10)
+        : undefined,
+      status: 0,
+    };
+    this.requests.push(record);
+
+    const send = (status: number, payload?: unknown, headers = {}) => {
+      record.status = status;
+      res.writeHead(status, {
+        'x-rate-limit-limit': '300',
+        'x-rate-limit-remaining': '299',
+        'x-rate-limit-reset': String(Math.floor(Date.now() / 1000) + 900),
+        ...(payload === undefined
+          ? {}
+          : { 'content-type': 'application/json' }),
+        ...headers,
+      });
+      res.end(payload === undefined ? undefined : JSON.stringify(payload));
+    };
+
+    if (!endpoint) {
+      return send(404, { errors: [{ code: 34, message: 'Not found' }] });
+    }
+
+    const account = this.verifySignature(req, url, params);
+    if (!account) {
+      return send(401, AUTH_ERROR);
+    }
+
+    const fault = this.faults.find((f) => f.endpoint === endpoint);
+    if (fault) {
+      if (--fault.remaining === 0) {
+        this.faults.splice(this.faults.indexOf(fault), 1);
+      }
+      return send(
+        fault.response.status,
+        fault.response.body ?? { errors: [{ message: 'Scripted failure' }] },
+        fault.response.headers,
+      );
+    }
+
+    const [status, payload] = this.respond(
+      endpoint,
+      url.pathname,
+      params,
+      form,
+      json,
+      account,
+    );
+    send(status, payload);
+  }
+
+  private endpointOf(
+    method: string,
+    pathname: string,
+    params: Record<string, string>,
+    form: Record<string, Buffer>,
+  ): FakeEndpoint | undefined {
+    if (pathname === '/1.1/media/upload.json') {
+      const command = params.command ?? form.command?.toString();
+      if (method === 'GET') return command === 'STATUS' ? 'STATUS' : undefined;
+      return ['INIT', 'APPEND', 'FINALIZE'].includes(command)
+        ? (command as FakeEndpoint)
+        : undefined;
+    }
+    if (method === 'DELETE' && /^\/2\/tweets\/\d+$/.test(pathname)) {
+      return 'DELETE_TWEET';
+    }
+    if (method !== 'POST') return undefined;
+    if (pathname === '/1.1/media/metadata/create.json') return 'METADATA';
+    if (pathname === '/1.1/media/subtitles/create.json') return 'SUBTITLES';
+    if (pathname === '/2/tweets') return 'TWEET';
+    return undefined;
+  }
+
+  // Returns the access token of a correctly signed request
+  private verifySignature(
+    req: http.IncomingMessage,
+    url: URL,
+    params: Record<string, string>,
+  ): string | undefined {
+    const header = req.headers.authorization ?? '';
+    if (!header.startsWith('OAuth ')) return undefined;
+
+    const oauthParams: Record<string, string> = {};
+    for (const [, key, value] of header.matchAll(/(\w+)="([^"]*)"/g)) {
+      oauthParams[key] = decodeURIComponent(value);
+    }
+    const { oauth_signature: signature, ...oauthData } = oauthParams;
+    const tokenSecret = this.tokens.get(oauthData.oauth_token);
+    if (
+      oauthData.oauth_consumer_key !== FAKE_CREDENTIALS.consumerKey ||
+      tokenSecret === undefined
+    ) {
+      return undefined;
+    }
+
+    const expected = this.oauth.getSignature(
+      {
+        url: `${this.url}${url.pathname}`,
+        method: req.method ?? 'GET',
+        data: params,
+      },
+      tokenSecret,
+      oauthData as unknown as OAuth.Data,
+    );
+    return expected === signature ? oauthData.oauth_token : undefined;
+  }
+
+  private respond(
+    endpoint: FakeEndpoint,
+    pathname: string,
+    params: Record<string, string>,
+    form: Record<string, Buffer>,
+    json: any,
+    account: string,
+  ): [number, unknown?] {
+    const invalidMedia = [
+      400,
+      { errors: [{ code: 324, message: 'Invalid or expired media_id' }] },
+    ] as [number, unknown];
+
+    switch (endpoint) {
+      case 'INIT': {
+        const id = String(this.nextId++);
+        this.media.set(id, {
+          id,
+          totalBytes: parseInt(params.total_bytes, 10),
+          mediaType: params.media_type,
+          mediaCategory: params.media_category,
+          segments: new Map(),
+          finalized: false,
+          statusChecks: 0,
+        });
+        return [
+          202,
+          {
+            media_id: Number(id),
+            media_id_string: id,
+            expires_after_secs: 86400,
+          },
+        ];
+      }
+
+      case 'APPEND': {
+        const media = this.media.get(form.media_id?.toString() ?? '');
+        if (!media || media.finalized || !form.media) return invalidMedia;
+        media.segments.set(
+          parseInt(form.segment_index.toString(), 10),
+          form.media,
+        );
+        return [204];
+      }
+
+      case 'FINALIZE': {
+        const media = this.media.get(params.media_id);
+        if (!media) return invalidMedia;
+
+        const received = this.uploadedBytes(media.id).length;
+        if (received !== media.totalBytes) {
+          return [
+            400,
+            {
+              errors: [
+                {
+                  code: 324,
+                  message: `Segments total ${received} bytes, expected ${media.totalBytes}`,
+                },
+              ],
+            },
+          ];
+        }
+
+        media.finalized = true;
+        const processed = ['tweet_video', 'tweet_gif'].includes(
+          media.mediaCategory ?? '',
+        );
+        return [
+          201,
+          {
+            media_id: Number(media.id),
+            media_id_string: media.id,
+            size: media.totalBytes,
+            expires_after_secs: 86400,
+            ...(processed && {
+              processing_info: {
+                state: 'pending',
+                check_after_secs: this.processing.checkAfterSecs,
+              },
+            }),
+          },
+        ];
+      }
+
+      case 'STATUS': {
+        const media = this.media.get(params.media_id);
+        if (!media?.finalized) return invalidMedia;
+
+        media.statusChecks++;
+        const done = media.statusChecks > this.processing.checks;
+        const state = done ? this.processing.outcome : 'in_progress';
+        return [
+          200,
+          {
+            media_id_string: media.id,
+            processing_info: {
+              state,
+              ...(state === 'in_progress' && {
+                check_after_secs: this.processing.checkAfterSecs,
+                progress_percent: 50,
+              }),
+              ...(state === 'failed' && {
+                error: {
+                  code: 1,
+                  name: 'InvalidMedia',
+                  message: 'Unsupported video format',
+                },
+              }),
+            },
+          },
+        ];
+      }
+
+      case 'METADATA': {
+        const media = this.media.get(String(json?.media_id));
+        if (!media?.finalized) return invalidMedia;
+        media.altText = json.alt_text?.text;
+        return [200];
+      }
+
+      case 'SUBTITLES': {
+        const media = this.media.get(String(json?.media_id));
+        if (!media?.finalized) return invalidMedia;
+        media.subtitles = (json.subtitle_info?.subtitles ?? []).map(
+          (subtitle: any) => ({
+            mediaId: subtitle.media_id,
+            languageCode: subtitle.language_code,
+            displayName: subtitle.display_name,
+          }),
+        );
+        return [200];
+      }
+
+      case 'TWEET': {
+        const mediaIds: string[] = json?.media?.media_ids ?? [];
+        const unusable = mediaIds.find((id) => {
+          const media = this.media.get(id);
+          return (
+            !media?.finalized ||
+            (['tweet_video', 'tweet_gif'].includes(media.mediaCategory ?? '') &&
+              media.statusChecks <= this.processing.checks)
+          );
+        });
+        if (unusable) {
+          return [
+            400,
+            {
+              title: 'Invalid Request',
+              detail: `Your media IDs are invalid: ${unusable}`,
+            },
+          ];
+        }
+
+        const tweet: FakeTweet = {
+          id: String(this.nextId++),
+          text: json.text,
+          mediaIds,
+          replyToTweetId: json.reply?.in_reply_to_tweet_id,
+          account,
+        };
+        this.tweets.push(tweet);
+        return [201, { data: { id: tweet.id, text: tweet.text } }];
+      }
+
+      case 'DELETE_TWEET': {
+        const id = pathname.split('/').pop();
+        const tweet = this.tweets.find((candidate) => candidate.id === id);
+        if (!tweet || tweet.account !== account) {
+          return [
+            403,
+            {
+              title: 'Forbidden',
+              detail: 'You are not allowed to delete this Tweet.',
+            },
+          ];
+        }
+        const deleted = !tweet.deleted;
+        tweet.deleted = true;
+        return [200, { data: { deleted } }];
+      }
+    }
+  }
+}
+
+function readBody(req: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk: Buffer) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+function parseMultipart(
+  body: Buffer,
+  boundary: string,
+): Record<string, Buffer> {
+  const delimiter = Buffer.from(`--${boundary.replace(/^"|"$/g, '')}`);
+  const parts: Record<string, Buffer> = {};
+  let start = body.indexOf(delimiter);
+
+  while (start !== -1) {
+    const next = body.indexOf(delimiter, start + delimiter.length);
+    if (next === -1) break;
+
+    // Each part sits between "--boundary\r\n" and "\r\n--boundary"
+    const part = body.subarray(start + delimiter.length + 2, next - 2);
+    const headerEnd = part.indexOf('\r\n\r\n');
+    const name = /name="([^"]+)"/.exec(
+      part.subarray(0, headerEnd).toString(),
+    )?.[1];
+    if (name && headerEnd !== -1) {
+      parts[name] = part.subarray(headerEnd + 4);
+    }
+    start = next;
+  }
+  return parts;
+}
@@ -0,0 +1,85 @@
+// Minimal but well-formed media files for tests
+
+const box = (type: string, ...content: Buffer[]) => {
+  const body = Buffer.concat(content);
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length + 8, 0);
+  header.write(type, 4, 'latin1');
+  return Buffer.concat([header, body]);
+};
+
+const u32 = (...values: number[]) => {
+  const buffer = Buffer.alloc(values.length * 4);
+  values.forEach((value, i) => buffer.writeUInt32BE(value, i * 4));
+  return buffer;
+};
+
+export interface TrackSpec {
+  handler: 'vide' | 'soun';
+  codec: string;
+  width?: number;
+  height?: number;
+  frames?: number;
+}
+
+/**
+ * An MP4 whose moov describes the given tracks, with every mdhd on a
+ * timescale of 1000. `mdatBytes` of padding stand in for the media data.
+ */
+export function buildMp4(
+  durationSecs: number,
+  tracks: TrackSpec[] = [
+    { handler: 'vide', codec: 'avc1', width: 1280, height: 720, frames: 300 },
+    { handler: 'soun', codec: 'mp4a' },
+  ],
+  mdatBytes = 0,
+): Buffer {
+  const duration = durationSecs * 1000;
+  const traks = tracks.map((track) => {
+    const tkhd = Buffer.alloc(84);
+    tkhd.writeUInt32BE((track.width ?? 0) * 65536, 76);
+    tkhd.writeUInt32BE((track.height ?? 0) * 65536, 80);
+    const frames = track.frames ?? 1;
+
+    return box(
+      'trak',
+      box('tkhd', tkhd),
+      box(
+        'mdia',
+        box('mdhd', u32(0, 0, 0, 1000, duration, 0)),
+        box('hdlr', u32(0, 0), Buffer.from(track.handler), Buffer.alloc(12)),
+        box(
+          'minf',
+          box(
+            'stbl',
+            box('stsd', u32(0, 1, 16), Buffer.from(track.codec), u32(0, 0)),
+            box('stts', u32(0, 1, frames, duration / frames)),
+          ),
+        ),
+      ),
+    );
+  });
+
+  return Buffer.concat([
+    box('ftyp', Buffer.from('isom'), u32(0)),
+    box('moov', box('mvhd', u32(0, 0, 0, 1000, duration)), ...traks),
+    box('mdat', Buffer.alloc(mdatBytes, 0x2a)),
+  ]);
+}
+
+// PNG signature and IHDR dimensions; enough for sniffing and probing
+export function buildPng(width: number, height: number): Buffer {
+  const png = Buffer.alloc(64);
+  Buffer.from('89504e470d0a1a0a0000000d49484452', 'hex').copy(png);
+  png.writeUInt32BE(width, 16);
+  png.writeUInt32BE(height, 20);
+  return png;
+}
+
+export function buildGif(width: number, height: number): Buffer {
+  const gif = Buffer.alloc(32);
+  gif.write('GIF89a', 0, 'latin1');
+  gif.writeUInt16LE(width, 6);
+  gif.writeUInt16LE(height, 8);
+  return gif;
+}
@@ -0,0 +1,758 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import * as request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import {
+  FAKE_CREDENTIALS,
+  FakeTwitterServer,
+} from './fake-twitter/fake-twitter-server';
+import { buildMp4, buildPng } from './fake-twitter/media-fixtures';
+import { BatchesService } from './../src/twitter/batches/batches.service';
+import { IdempotencyService } from './../src/twitter/idempotency/idempotency.service';
+import { UploadJobsService } from './../src/twitter/jobs/upload-jobs.service';
+import { ScheduledPostsService } from './../src/twitter/scheduling/scheduled-posts.service';
+import { ThreadsService } from './../src/twitter/threads/threads.service';
+import { TweetsService } from './../src/twitter/tweets/tweets.service';
+import { signWebhook } from './../src/twitter/webhooks/webhooks.service';
+
+describe('Twitter upload pipeline (e2e)', () => {
+  const fake = new FakeTwitterServer();
+  const env = { ...process.env };
+  let app: INestApplication<App>;
+  let dataDir: string;
+
+  const API_KEY = 'e2e-admin-key';
+  const api = (key = API_KEY) =>
+    request.agent(app.getHttpServer()).set('X-API-Key', key);
+
+  // Polls the job until it settles
+  const waitForJob = async (jobId: string) => {
+    for (let attempt = 0; attempt < 100; attempt++) {
+      const { body } = await api().get(`/twitter/jobs/${jobId}`).expect(200);
+      if (!['queued', 'running'].includes(body.status)) {
+        return body;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    throw new Error(`Job ${jobId} did not finish`);
+  };
+
+  beforeAll(async () => {
+    const url = await fake.start();
+    dataDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'e2e-data-'));
+    Object.assign(process.env, {
+      TWITTER_CONSUMER_KEY: FAKE_CREDENTIALS.consumerKey,
+      TWITTER_CONSUMER_SECRET: FAKE_CREDENTIALS.consumerSecret,
+      TWITTER_ACCESS_TOKEN: FAKE_CREDENTIALS.accessToken,
+      TWITTER_ACCESS_TOKEN_SECRET: FAKE_CREDENTIALS.accessTokenSecret,
+      TWITTER_API_BASE_URL: url,
+      TWITTER_UPLOAD_BASE_URL: url,
+      TWITTER_DATA_DIR: dataDir,
+      TWITTER_ACCOUNT_BRAND_B_ACCESS_TOKEN: 'brand-b-access-token',
+      TWITTER_ACCOUNT_BRAND_B_ACCESS_TOKEN_SECRET:
+        'brand-b-access-token-secret',
+      API_KEYS: JSON.stringify({
+        e2e: { key: API_KEY, scopes: ['admin'] },
+        limited: {
+          key: 'e2e-limited-key',
+          scopes: ['upload'],
+          dailyPostQuota: 1,
+        },
+        batches: {
+          key: 'e2e-batch-key',
+          scopes: ['upload'],
+          dailyPostQuota: 1,
+        },
+        refunds: {
+          key: 'e2e-refund-key',
+          scopes: ['upload', 'schedule', 'thread'],
+          dailyPostQuota: 2,
+        },
+        other: {
+          key: 'e2e-other-account-key',
+          scopes: ['upload', 'schedule', 'thread'],
+          accounts: ['brand-b'],
+        },
+      }),
+      WEBHOOK_SECRET: 'e2e-webhook-secret',
+      WEBHOOK_RETRY_BASE_MS: '50',
+      WEBHOOK_ALLOW_PRIVATE_ADDRESSES: 'true',
+      TWEET_TEMPLATES: JSON.stringify({
+        release: '{{filename}} is out: {{version}}',
+      }),
+    });
+
+    const moduleFixture = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+    app = moduleFixture.createNestApplication();
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app.close();
+    await fake.stop();
+    await fs.promises.rm(dataDir, { recursive: true, force: true });
+    process.env = env;
+  });
+
+  afterEach(() => fake.reset());
+
+  it('uploads a video and tweets it', async () => {
+    const video = buildMp4(5, undefined, 2048);
+
+    const { body } = await api()
+      .post('/twitter/upload')
+      .field('tweetText', 'From the e2e suite')
+      .attach('file', video, 'clip.mp4')
+      .expect(202);
+    const job = await waitForJob(body.jobId);
+
+    expect(job).toMatchObject({ status: 'done', tweetId: fake.tweets[0].id });
+    expect(fake.tweets[0]).toMatchObject({
+      text: 'From the e2e suite',
+      account: FAKE_CREDENTIALS.accessToken,
+    });
+    expect(fake.uploadedBytes(fake.tweets[0].mediaIds[0])).toEqual(video);
+  });
+
+  it('plans a dry run without posting or queueing anything', async () => {
+    const { body: plan } = await api()
+      .post('/twitter/upload')
+      .field('tweetText', 'Staging check')
+      .field('dryRun', 'true')
+      .attach('file', buildMp4(5, undefined, 2048), 'clip.mp4')
+      .expect(200);
+
+    expect(plan).toMatchObject({
+      dryRun: true,
+      sandbox: false,
+      account: 'default',
+      media: [{ mediaType: 'video/mp4', mediaCategory: 'tweet_video' }],
+      tweet: {
+        payload: {
+          text: 'Staging check',
+          media: { media_ids: ['dry-run-media-1'] },
+        },
+        weightedLength: 13,
+      },
+    });
+
+    const { body: thread } = await api()
+      .post('/twitter/thread')
+      .send({
+        entries: [{ text: 'One' }, { text: 'Two' }],
+        dryRun: true,
+      })
+      .expect(201);
+    expect(
+      thread.entries.map((entry: any) => entry.tweet.payload.reply),
+    ).toEqual([undefined, { in_reply_to_tweet_id: 'dry-run-tweet-1' }]);
+    expect(fake.requests).toHaveLength(0);
+  });
+
+  it('calls back with a signed payload, retrying failed deliveries', async () => {
+    // Fails the first delivery, accepts the rest
+    const calls: { headers: http.IncomingHttpHeaders; body: string }[] = [];
+    const receiver = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', (chunk) => (body += chunk));
+      req.on('end', () => {
+        calls.push({ headers: req.headers, body });
+        res.statusCode = calls.length === 1 ? 500 : 204;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => receiver.listen(0, resolve));
+    const { port } = receiver.address() as AddressInfo;
+    const waitForCalls = async (count: number) => {
+      for (let attempt = 0; attempt < 100 && calls.length < count; attempt++) {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+      expect(calls).toHaveLength(count);
+    };
+
+    try {
+      const { body } = await api()
+        .post('/twitter/upload')
+        .field('callbackUrl', `http://127.0.0.1:${port}/hooks`)
+        .attach('file', buildMp4(5, undefined, 1024), 'hooked.mp4')
+        .expect(202);
+      await waitForJob(body.jobId);
+      await waitForCalls(2);
+
+      const { headers, body: payload } = calls[1];
+      expect(headers['x-webhook-signature']).toBe(
+        `sha256=${signWebhook('e2e-webhook-secret', headers['x-webhook-timestamp'] as string, payload)}`,
+      );
+      expect(JSON.parse(payload)).toMatchObject({
+        event: 'post.succeeded',
+        data: { sourceId: body.jobId, tweetId: fake.tweets[0].id },
+      });
+
+      const deliveryId = headers['x-webhook-id'] as string;
+      // The receiver has answered, but the delivery may still be in flight
+      // until its outcome is recorded
+      let redelivered: request.Response | undefined;
+      for (let attempt = 0; attempt < 100; attempt++) {
+        redelivered = await api().post(
+          `/twitter/webhooks/${deliveryId}/redeliver`,
+        );
+        if (redelivered.status !== 409) {
+          break;
+        }
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      }
+      const { body: delivery } = redelivered!;
+      expect(redelivered!.status).toBe(200);
+      expect(delivery).toMatchObject({ status: 'delivered', attempts: 1 });
+      expect(calls[2].body).toBe(payload);
+
+      await api()
+        .post('/twitter/upload')
+        .field('callbackUrl', 'ftp://example.com/hooks')
+        .field('videoUrl', 'https://cdn.example.com/clip.mp4')
+        .expect(400);
+    } finally {
+      await new Promise((resolve) => receiver.close(resolve));
+    }
+  });
+
+  it('records post attempts in the history', async () => {
+    const { body } = await api()
+      .post('/twitter/upload')
+      .set('X-Request-Id', 'e2e-history')
+      .attach('file', buildMp4(5), 'history.mp4')
+      .expect(202);
+    await waitForJob(body.jobId);
+
+    const { body: page } = await api()
+      .get('/twitter/history?status=posted&limit=1')
+      .expect(200);
+    expect(page.attempts[0]).toMatchObject({
+      kind: 'upload',
+      sourceId: body.jobId,
+      requestId: 'e2e-history',
+      client: 'e2e',
+      account: 'default',
+      sources: ['history.mp4'],
+      mediaIds: fake.tweets[0].mediaIds,
+      tweetId: fake.tweets[0].id,
+    });
+
+    await api().get(`/twitter/history/${page.attempts[0].id}`).expect(200);
+    await api().get('/twitter/history?status=unknown').expect(400);
+    await api('e2e-limited-key').get('/twitter/history').expect(403);
+  });
+
+  it('uploads media for review, tweets it later and deletes the tweet', async () => {
+    const { body: uploaded } = await api()
+      .post('/twitter/media')
+      .field('altText', 'A red square')
+      .attach('files', buildPng(64, 64), 'square.png')
+      .expect(201);
+    expect(uploaded).toMatchObject({ account: 'default' });
+    expect(Date.parse(uploaded.expiresAt)).toBeGreaterThan(Date.now());
+    expect(fake.tweets).toHaveLength(0);
+
+    const [mediaId] = uploaded.mediaIds;
+    expect(fake.media.get(mediaId)?.altText).toBe('A red square');
+    const { body: status } = await api()
+      .get(`/twitter/media/${mediaId}`)
+      .expect(200);
+    expect(status.mediaId).toBe(mediaId);
+
+    const { body: tweet } = await api()
+      .post('/twitter/tweets')
+      .send({ mediaIds: [mediaId], tweetText: 'Reviewed and approved' })
+      .expect(201);
+    expect(fake.tweets[0]).toMatchObject({
+      id: tweet.tweetId,
+      text: 'Reviewed and approved',
+      mediaIds: [mediaId],
+    });
+
+    const { body: deletion } = await api()
+      .delete(`/twitter/tweets/${tweet.tweetId}`)
+      .expect(200);
+    expect(deletion).toMatchObject({
+      id: tweet.tweetId,
+      account: 'default',
+      deleted: true,
+      client: 'e2e',
+    });
+    expect(fake.tweets[0].deleted).toBe(true);
+    await api().post('/twitter/tweets').send({ mediaIds: 'abc' }).expect(400);
+  });
+
+  it('reuses media uploaded before and reports the savings', async () => {
+    const upload = () =>
+      api()
+        .post('/twitter/media')
+        .attach('files', buildPng(48, 48), 'reused.png')
+        .expect(201);
+
+    const { body: first } = await upload();
+    const { body: second } = await upload();
+    expect(second.mediaIds).toEqual(first.mediaIds);
+    expect(fake.media.size).toBe(1);
+
+    const { body: stats } = await api().get('/twitter/media-cache').expect(200);
+    expect(stats).toMatchObject({ enabled: true, hits: 1 });
+    expect(stats.bytesSaved).toBeGreaterThan(0);
+
+    const { body: purged } = await api()
+      .delete('/twitter/media-cache')
+      .expect(200);
+    expect(purged.purged).toBeGreaterThan(0);
+  });
+
+  it('edits scheduled posts with form-encoded fields', async () => {
+    const { body: post } = await api()
+      .post('/twitter/scheduled')
+      .field('publishAt', '2099-01-01T00:00:00Z')
+      .field('preUpload', 'true')
+      .attach('file', buildMp4(5), 'later.mp4')
+      .expect(201);
+    expect(post.preUpload).toBe(true);
+
+    const { body: edited } = await api()
+      .patch(`/twitter/scheduled/${post.id}`)
+      .type('form')
+      .send({ preUpload: 'false', tweetText: 'Later' })
+      .expect(200);
+    expect(edited).toMatchObject({ preUpload: false, tweetText: 'Later' });
+
+    await api().delete(`/twitter/scheduled/${post.id}`).expect(200);
+  });
+
+  it('posts the rows of a CSV manifest and reports them as CSV', async () => {
+    const { body: invalid } = await api()
+      .post('/twitter/batch')
+      .attach(
+        'manifest',
+        Buffer.from('caption,reply_to\nFine,\n,123\nNot a reply,abc\n'),
+        'posts.csv',
+      )
+      .expect(422);
+    expect(invalid).toMatchObject({
+      code: 'batch_manifest_invalid',
+      rows: [
+        { row: 1, message: 'A row needs media URLs or a caption' },
+        { row: 2, message: 'Invalid reply target: abc' },
+      ],
+    });
+    expect(fake.tweets).toHaveLength(0);
+
+    const { body } = await api()
+      .post('/twitter/batch')
+      .attach(
+        'manifest',
+        Buffer.from(
+          'caption,publish_at\nFirst,\nSecond,2099-01-01T00:00:00Z\n',
+        ),
+        'posts.csv',
+      )
+      .expect(202);
+    expect(body).toMatchObject({ rows: 2 });
+
+    let batch: any;
+    for (let attempt = 0; attempt < 100; attempt++) {
+      ({ body: batch } = await api()
+        .get(`/twitter/batch/${body.batchId}`)
+        .expect(200));
+      if (batch.status !== 'running') {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    expect(batch).toMatchObject({
+      status: 'waiting',
+      counts: { posted: 1, scheduled: 1 },
+    });
+    expect(fake.tweets[0].text).toBe('First');
+
+    const { text, headers } = await api()
+      .get(`/twitter/batch/${body.batchId}/results.csv`)
+      .expect(200);
+    expect(headers['content-type']).toMatch(/^text\/csv/);
+    expect(text.split('\r\n').slice(1, 3)).toEqual([
+      `0,posted,${fake.tweets[0].id},,,,,,`,
+      `1,scheduled,,${batch.rows[1].scheduledPostId},2099-01-01T00:00:00.000Z,,,,`,
+    ]);
+  });
+
+  it('streams upload progress as server-sent events', async () => {
+    const { body } = await api()
+      .post('/twitter/upload')
+      .attach('file', buildMp4(5), 'clip.mp4')
+      .expect(202);
+
+    // The stream ends with the tweet; late subscribers start at the latest
+    const { text, headers } = await api()
+      .get(`/twitter/uploads/${body.jobId}/events`)
+      .expect(200);
+    const events = text
+      .split('\n')
+      .filter((line) => line.startsWith('data: '))
+      .map((line) => JSON.parse(line.slice('data: '.length)));
+
+    expect(headers['content-type']).toContain('text/event-stream');
+    expect(events.at(-1)).toMatchObject({
+      type: 'tweet_created',
+      uploadId: body.jobId,
+      tweetId: fake.tweets[0].id,
+    });
+    await api().get('/twitter/uploads/unknown/events').expect(404);
+  });
+
+  it('reports the rate limit budgets Twitter announced', async () => {
+    const { body } = await api().get('/twitter/rate-limits').expect(200);
+
+    expect(body.budgets).toContainEqual(
+      expect.objectContaining({
+        endpoint: 'POST /2/tweets',
+        account: 'default',
+        limit: 300,
+      }),
+    );
+    await api('e2e-limited-key').get('/twitter/rate-limits').expect(403);
+  });
+
+  it('reports a failed job when Twitter cannot process the video', async () => {
+    fake.processing = { checks: 0, checkAfterSecs: 1, outcome: 'failed' };
+
+    const { body } = await api()
+      .post('/twitter/upload')
+      .attach('file', buildMp4(5), 'clip.mp4')
+      .expect(202);
+    const job = await waitForJob(body.jobId);
+
+    expect(job).toMatchObject({
+      status: 'failed',
+      errorCode: 'media_processing_failed',
+    });
+    expect(job.error).toContain('Unsupported video format');
+    expect(fake.tweets).toHaveLength(0);
+  });
+
+  it('posts one tweet per Idempotency-Key', async () => {
+    const video = buildMp4(5);
+    const send = (tweetText: string) =>
+      api()
+        .post('/twitter/upload')
+        .set('Idempotency-Key', 'e2e-key-1')
+        .field('tweetText', tweetText)
+        .attach('file', video, 'clip.mp4');
+
+    const first = await send('Only once').expect(202);
+    // The job of the first request is still queued or running
+    await send('Only once').expect(409);
+    await waitForJob(first.body.jobId);
+
+    const replay = await send('Only once').expect(200);
+    expect(replay.headers['idempotent-replayed']).toBe('true');
+    expect(replay.body).toMatchObject({
+      jobId: first.body.jobId,
+      status: 'done',
+      tweetId: fake.tweets[0].id,
+      result: { data: { id: fake.tweets[0].id } },
+    });
+    expect(fake.tweets).toHaveLength(1);
+
+    await send('Something else').expect(422);
+  });
+
+  it('frees an Idempotency-Key whose request died before queueing a job', async () => {
+    const send = () =>
+      api()
+        .post('/twitter/upload')
+        .set('Idempotency-Key', 'e2e-abandoned-key')
+        .field('tweetText', 'After a crash')
+        .attach('file', buildMp4(5), 'clip.mp4');
+    // As if the process stopped before the claim could be freed
+    jest
+      .spyOn(app.get(UploadJobsService), 'enqueue')
+      .mockRejectedValueOnce(new Error('Disk full'));
+    jest
+      .spyOn(app.get(IdempotencyService), 'release')
+      .mockResolvedValueOnce(undefined);
+    await send().expect(500);
+
+    const { body } = await send().expect(202);
+    await waitForJob(body.jobId);
+    expect(fake.tweets.at(-1)?.text).toBe('After a crash');
+  });
+
+  it('refuses media URLs pointing at internal addresses', async () => {
+    const { body } = await api()
+      .post('/twitter/upload')
+      .send({ videoUrl: 'http://169.254.169.254/latest/meta-data' })
+      .expect(403);
+
+    expect(body.code).toBe('download_private_address');
+    expect(fake.requests).toHaveLength(0);
+  });
+
+  it('answers errors with a code and the request id', async () => {
+    const { body, headers } = await api()
+      .get('/twitter/jobs/unknown')
+      .set('X-Request-Id', 'e2e-request')
+      .expect(404);
+
+    expect(body).toEqual({
+      statusCode: 404,
+      code: 'not_found',
+      message: 'Upload job unknown not found',
+      requestId: 'e2e-request',
+    });
+    expect(headers['x-request-id']).toBe('e2e-request');
+  });
+
+  it('renders tweet templates and checks the weighted length', async () => {
+    const { body } = await api()
+      .post('/twitter/upload')
+      .field('template', 'release')
+      .field('templateVars', JSON.stringify({ version: 'v2' }))
+      .attach('file', buildMp4(5), 'app.mp4')
+      .expect(202);
+    await waitForJob(body.jobId);
+    expect(fake.tweets[0].text).toBe('app.mp4 is out: v2');
+    const requests = fake.requests.length;
+
+    const tooLong = await api()
+      .post('/twitter/upload')
+      .field('tweetText', '日本語'.repeat(47))
+      .attach('file', buildMp4(5), 'clip.mp4')
+      .expect(422);
+    expect(tooLong.body).toMatchObject({
+      code: 'tweet_text_too_long',
+      text: { weightedLength: 282, overflow: 2 },
+    });
+    expect(fake.requests).toHaveLength(requests);
+  });
+
+  it('validates media without contacting Twitter', async () => {
+    const { body } = await api()
+      .post('/twitter/validate')
+      .attach('file', buildPng(10000, 2), 'wide.png')
+      .expect(422);
+
+    expect(body.media[0].violations.map((v) => v.rule)).toEqual([
+      'minHeight',
+      'maxWidth',
+    ]);
+    expect(fake.requests).toHaveLength(0);
+  });
+
+  it('requires an API key', async () => {
+    const { body } = await request(app.getHttpServer())
+      .post('/twitter/upload')
+      .attach('file', buildMp4(5), 'clip.mp4')
+      .expect(401);
+
+    expect(body.code).toBe('unauthenticated');
+    await request(app.getHttpServer())
+      .get('/twitter/accounts')
+      .set('Authorization', `Bearer ${API_KEY}`)
+      .expect(200);
+  });
+
+  it('enforces the scopes and daily quota of a key', async () => {
+    const limited = () => api('e2e-limited-key');
+
+    const denied = await limited()
+      .post('/twitter/thread')
+      .send({ entries: [{ text: 'Not mine to post' }] })
+      .expect(403);
+    expect(denied.body.code).toBe('scope_not_granted');
+
+    // Idempotency keys of other clients do not clash
+    const admin = await api()
+      .post('/twitter/upload')
+      .set('Idempotency-Key', 'e2e-shared-key')
+      .field('tweetText', 'From the admin key')
+      .attach('file', buildMp4(5), 'clip.mp4')
+      .expect(202);
+    await waitForJob(admin.body.jobId);
+
+    // A post that could not be queued does not use up the quota
+    jest
+      .spyOn(app.get(UploadJobsService), 'enqueue')
+      .mockRejectedValueOnce(new Error('Disk full'));
+    await limited()
+      .post('/twitter/upload')
+      .set('Idempotency-Key', 'e2e-shared-key')
+      .attach('file', buildMp4(5), 'clip.mp4')
+      .expect(500);
+
+    const first = await limited()
+      .post('/twitter/upload')
+      .set('Idempotency-Key', 'e2e-shared-key')
+      .attach('file', buildMp4(5), 'clip.mp4')
+      .expect(202);
+    expect(first.headers['x-quota-remaining']).toBe('0');
+    await waitForJob(first.body.jobId);
+    const requests = fake.requests.length;
+
+    const second = await limited()
+      .post('/twitter/upload')
+      .attach('file', buildMp4(5), 'clip.mp4')
+      .expect(429);
+    expect(second.body.code).toBe('daily_quota_exceeded');
+    expect(Number(second.headers['retry-after'])).toBeGreaterThan(0);
+    expect(fake.requests).toHaveLength(requests);
+  });
+
+  it('counts batch rows against the daily quota, retried ones too', async () => {
+    // Two accounts, one post left: nothing is reserved for either
+    const { headers } = await api('e2e-batch-key')
+      .post('/twitter/batch')
+      .send({
+        rows: [
+          { caption: 'For the default account' },
+          { caption: 'For brand B', account: 'brand-b' },
+        ],
+      })
+      .expect(429);
+    expect(headers['x-quota-remaining']).toBe('1');
+
+    fake.failNext('TWEET', { status: 403, body: { detail: 'Forbidden' } });
+    const { body } = await api('e2e-batch-key')
+      .post('/twitter/batch')
+      .send({ rows: [{ caption: 'Rejected once' }] })
+      .expect(202);
+
+    let batch: any;
+    for (let attempt = 0; attempt < 100; attempt++) {
+      ({ body: batch } = await api()
+        .get(`/twitter/batch/${body.batchId}`)
+        .expect(200));
+      if (batch.status !== 'running') {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    expect(batch.counts).toMatchObject({ failed: 1 });
+
+    const { body: denied } = await api('e2e-batch-key')
+      .post(`/twitter/batch/${body.batchId}/retry`)
+      .expect(429);
+    expect(denied.code).toBe('daily_quota_exceeded');
+    expect(fake.tweets).toHaveLength(0);
+  });
+
+  it('gives back the quota of posts that could not be created', async () => {
+    const refunds = () => api('e2e-refund-key');
+
+    // Each one reserves a post of two and gives it back
+    jest
+      .spyOn(app.get(ThreadsService), 'create')
+      .mockRejectedValueOnce(new Error('Disk full'));
+    const thread = await refunds()
+      .post('/twitter/thread')
+      .send({ entries: [{ text: 'Not stored' }] })
+      .expect(500);
+    jest
+      .spyOn(app.get(TweetsService), 'post')
+      .mockRejectedValueOnce(new Error('Disk full'));
+    const tweet = await refunds()
+      .post('/twitter/tweets')
+      .send({ mediaIds: ['123'], tweetText: 'Not posted' })
+      .expect(500);
+    jest
+      .spyOn(app.get(ScheduledPostsService), 'schedule')
+      .mockRejectedValueOnce(new Error('Disk full'));
+    const scheduled = await refunds()
+      .post('/twitter/scheduled')
+      .field('publishAt', '2099-01-01T00:00:00Z')
+      .attach('file', buildMp4(5), 'later.mp4')
+      .expect(500);
+    jest
+      .spyOn(app.get(BatchesService), 'create')
+      .mockRejectedValueOnce(new Error('Disk full'));
+    const batch = await refunds()
+      .post('/twitter/batch')
+      .send({ rows: [{ caption: 'Not created' }] })
+      .expect(500);
+    for (const { headers } of [thread, tweet, scheduled, batch]) {
+      expect(headers['x-quota-remaining']).toBe('1');
+    }
+
+    fake.failNext('TWEET', { status: 403, body: { detail: 'Forbidden' } });
+    const { body } = await refunds()
+      .post('/twitter/batch')
+      .send({ rows: [{ caption: 'Rejected once' }] })
+      .expect(202);
+    let failed: any;
+    for (let attempt = 0; attempt < 100; attempt++) {
+      ({ body: failed } = await api()
+        .get(`/twitter/batch/${body.batchId}`)
+        .expect(200));
+      if (failed.status !== 'running') {
+        break;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    expect(failed.counts).toMatchObject({ failed: 1 });
+
+    jest
+      .spyOn(app.get(BatchesService), 'retry')
+      .mockRejectedValueOnce(new Error('Disk full'));
+    await refunds().post(`/twitter/batch/${body.batchId}/retry`).expect(500);
+    const retried = await refunds()
+      .post(`/twitter/batch/${body.batchId}/retry`)
+      .expect(202);
+    expect(retried.headers['x-quota-remaining']).toBe('0');
+  });
+
+  it('hides the posts of other accounts from keys limited to some', async () => {
+    const other = () => api('e2e-other-account-key');
+    const { body: job } = await api()
+      .post('/twitter/upload')
+      .attach('file', buildMp4(5), 'clip.mp4')
+      .expect(202);
+    await waitForJob(job.jobId);
+    const { body: post } = await api()
+      .post('/twitter/scheduled')
+      .field('publishAt', '2099-01-01T00:00:00Z')
+      .attach('file', buildMp4(5), 'later.mp4')
+      .expect(201);
+    const { body: thread } = await api()
+      .post('/twitter/thread')
+      .send({ entries: [{ text: 'Mine' }] })
+      .expect(201);
+    const { body: batch } = await api()
+      .post('/twitter/batch')
+      .send({ rows: [{ caption: 'Also mine' }] })
+      .expect(202);
+
+    await other().get(`/twitter/jobs/${job.jobId}`).expect(403);
+    await other().delete(`/twitter/jobs/${job.jobId}`).expect(403);
+    await other().get(`/twitter/scheduled/${post.id}`).expect(403);
+    await other()
+      .patch(`/twitter/scheduled/${post.id}`)
+      .send({ tweetText: 'Hijacked' })
+      .expect(403);
+    await other().delete(`/twitter/scheduled/${post.id}`).expect(403);
+    await other().get(`/twitter/thread/${thread.threadId}`).expect(403);
+    await other().post(`/twitter/thread/${thread.threadId}/resume`).expect(403);
+    await other().get(`/twitter/batch/${batch.batchId}`).expect(403);
+    await other().post(`/twitter/batch/${batch.batchId}/retry`).expect(403);
+
+    const { body: listed } = await other()
+      .get('/twitter/scheduled')
+      .expect(200);
+    expect(listed).toEqual([]);
+    const { body: all } = await api().get('/twitter/scheduled').expect(200);
+    expect(all.map((scheduled: any) => scheduled.id)).toContain(post.id);
+
+    await api().delete(`/twitter/scheduled/${post.id}`).expect(200);
+  });
+});